@@ -1,6 +1,7 @@
 /**
  * Loader Component
- * Shows loading state during operations
+ * Shows loading state during operations, optionally with a progress bar
+ * and a Cancel button
  */
 
 import React from 'react';
@@ -43,15 +44,59 @@ const Message = styled.div`
   text-align: center;
 `;
 
+const ProgressTrack = styled.div`
+  width: 240px;
+  height: 6px;
+  margin-top: 16px;
+  border-radius: 3px;
+  background: rgba(255, 255, 255, 0.3);
+  overflow: hidden;
+`;
+
+const ProgressFill = styled.div<{ $percent: number }>`
+  width: ${props => props.$percent}%;
+  height: 100%;
+  background: #ffffff;
+  transition: width 0.2s ease;
+`;
+
+const CancelButton = styled.button`
+  margin-top: 20px;
+  padding: 6px 20px;
+  border: 1px solid rgba(255, 255, 255, 0.6);
+  border-radius: 6px;
+  background: transparent;
+  color: #ffffff;
+  font-size: 0.875rem;
+  font-weight: 500;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.15);
+  }
+`;
+
 interface LoadingProps {
   message?: string;
+  progress?: number; // 0-100; shows a progress bar when set
+  onCancel?: () => void; // Shows a Cancel button when set
 }
 
-export const Loading: React.FC<LoadingProps> = ({ message = 'Processing...' }) => {
+export const Loading: React.FC<LoadingProps> = ({ message = 'Processing...', progress, onCancel }) => {
   return (
     <Loader>
       <Spinner />
-      <Message>{message}</Message>
+      <Message>{progress !== undefined ? `${message} ${Math.round(progress)}%` : message}</Message>
+      {progress !== undefined && (
+        <ProgressTrack role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress)}>
+          <ProgressFill $percent={progress} />
+        </ProgressTrack>
+      )}
+      {onCancel && (
+        <CancelButton type="button" onClick={onCancel}>
+          Cancel
+        </CancelButton>
+      )}
     </Loader>
   );
 };
@@ -33,6 +33,7 @@ const formatMap: Record<componentType, string> = {
   'text-compare': 'Text Compare',
   'json-validate': 'JSON Validate',
   'xml-validate': 'XML Validate',
+  'text-merge': 'Text Merge',
 };
 
 // Icon and description configuration for each component type
@@ -41,6 +42,7 @@ const getToolConfig = (type: componentType, primaryColor: string): { description
   // Theme colors - these will be used dynamically
   const compareIconColor = primaryColor; // Primary color for compare tools
   const validateIconColor = primaryColor; // Primary color for validate tools
+  const mergeIconColor = primaryColor; // Primary color for merge tools
   
   const configs: Record<componentType, { description: string; iconColor: string; icon: React.ReactNode }> = {
     'json-compare': {
@@ -93,6 +95,17 @@ const getToolConfig = (type: componentType, primaryColor: string): { description
         </svg>
       ),
     },
+    'text-merge': {
+      description: 'Three-way merge with a common base',
+      iconColor: mergeIconColor,
+      icon: (
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="18" cy="18" r="3" />
+          <circle cx="6" cy="6" r="3" />
+          <path d="M6 21V9a9 9 0 0 0 9 9" />
+        </svg>
+      ),
+    },
   };
   return configs[type];
 };
@@ -108,6 +121,7 @@ export const OtherTools: React.FC<OtherToolsProps> = ({ onFormatChange }) => {
       'text-compare',
       'json-validate',
       'xml-validate',
+      'text-merge',
     ];
 
     return componentTypes.map((type) => {
@@ -0,0 +1,181 @@
+import styled from 'styled-components';
+import { ModalContainer } from '../UrlModal/UrlModal.styles';
+
+export {
+  ModalOverlay,
+  ModalHeader,
+  ModalTitle,
+  CloseButton,
+  ModalBody,
+  ModalFooter,
+  LoadButton,
+  CancelButton,
+  ErrorMessage,
+} from '../UrlModal/UrlModal.styles';
+
+export const PatchModalContainer = styled(ModalContainer)`
+  max-width: 720px;
+`;
+
+export const PatchTextArea = styled.textarea<{ $isDragOver?: boolean }>`
+  width: 100%;
+  min-height: 260px;
+  padding: 12px 16px;
+  border: 2px ${({ $isDragOver }) => ($isDragOver ? 'dashed' : 'solid')}
+    ${({ theme, $isDragOver }) => ($isDragOver ? theme.colors.primary : theme.colors.inputBorder)};
+  border-radius: ${({ theme }) => theme.radii.md};
+  font-size: 13px;
+  line-height: 1.5;
+  font-family: ${({ theme }) => theme.fonts.mono};
+  background: ${({ theme, $isDragOver }) => ($isDragOver ? theme.colors.purpleLight : theme.colors.inputBackground)};
+  color: ${({ theme }) => theme.colors.text};
+  resize: vertical;
+  white-space: pre;
+  overflow: auto;
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+    box-shadow: 0 0 0 3px ${({ theme }) => theme.colors.purpleLight};
+  }
+
+  &::placeholder {
+    color: ${({ theme }) => theme.colors.textTertiary};
+  }
+
+  @media (max-width: 480px) {
+    min-height: 200px;
+    font-size: 12px;
+  }
+`;
+
+export const PatchHint = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  margin-bottom: 12px;
+  font-size: 13px;
+  color: ${({ theme }) => theme.colors.textSecondary};
+
+  @media (max-width: 480px) {
+    flex-direction: column;
+    align-items: stretch;
+  }
+`;
+
+export const UploadButton = styled.button`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 14px;
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.radii.md};
+  font-size: 13px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s;
+  white-space: nowrap;
+  flex-shrink: 0;
+
+  &:hover {
+    background: ${({ theme }) => theme.colors.surfaceHover};
+    border-color: ${({ theme }) => theme.colors.primary};
+    color: ${({ theme }) => theme.colors.primary};
+  }
+
+  svg {
+    width: 16px;
+    height: 16px;
+  }
+
+  @media (max-width: 480px) {
+    justify-content: center;
+  }
+`;
+
+export const HiddenInput = styled.input`
+  display: none;
+`;
+
+export const ReportSummary = styled.div<{ $hasRejected: boolean }>`
+  padding: 12px 16px;
+  border-radius: ${({ theme }) => theme.radii.md};
+  font-size: 14px;
+  font-weight: 600;
+  background: ${({ theme, $hasRejected }) =>
+    $hasRejected ? theme.colors.diffChangedBg : theme.colors.diffAddedBg};
+  color: ${({ theme, $hasRejected }) =>
+    $hasRejected ? theme.colors.diffChangedText : theme.colors.diffAddedText};
+`;
+
+export const HunkList = styled.ul`
+  list-style: none;
+  margin: 12px 0 0;
+  padding: 0;
+  max-height: 320px;
+  overflow-y: auto;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+export const HunkItem = styled.li<{ $rejected: boolean }>`
+  padding: 10px 14px;
+  border-radius: ${({ theme }) => theme.radii.sm};
+  border-left: 3px solid
+    ${({ theme, $rejected }) => ($rejected ? theme.colors.diffRemovedText : theme.colors.diffAddedText)};
+  background: ${({ theme, $rejected }) => ($rejected ? theme.colors.diffRemovedBg : theme.colors.surface)};
+  font-size: 13px;
+  color: ${({ theme }) => theme.colors.text};
+`;
+
+export const HunkHeader = styled.div`
+  display: flex;
+  align-items: baseline;
+  gap: 8px;
+  flex-wrap: wrap;
+
+  code {
+    font-family: ${({ theme }) => theme.fonts.mono};
+    font-size: 12px;
+    color: ${({ theme }) => theme.colors.textSecondary};
+  }
+`;
+
+export const HunkDetail = styled.div`
+  margin-top: 4px;
+  font-family: ${({ theme }) => theme.fonts.mono};
+  font-size: 12px;
+  color: ${({ theme }) => theme.colors.textSecondary};
+  word-break: break-word;
+`;
+
+export const PatchKindTabs = styled.div`
+  display: flex;
+  gap: 4px;
+  margin-bottom: 12px;
+  padding: 4px;
+  background: ${({ theme }) => theme.colors.surface};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.radii.md};
+`;
+
+export const PatchKindTab = styled.button<{ $active: boolean }>`
+  flex: 1;
+  padding: 6px 12px;
+  border: none;
+  border-radius: ${({ theme }) => theme.radii.sm};
+  font-size: 13px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s;
+  background: ${({ theme, $active }) => ($active ? theme.colors.primary : 'transparent')};
+  color: ${({ theme, $active }) => ($active ? '#ffffff' : theme.colors.textSecondary)};
+
+  &:hover {
+    color: ${({ theme, $active }) => ($active ? '#ffffff' : theme.colors.primary)};
+  }
+`;
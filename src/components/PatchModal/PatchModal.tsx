@@ -0,0 +1,272 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  ModalOverlay,
+  PatchModalContainer,
+  ModalHeader,
+  ModalTitle,
+  CloseButton,
+  ModalBody,
+  ModalFooter,
+  LoadButton,
+  CancelButton,
+  ErrorMessage,
+  PatchHint,
+  PatchTextArea,
+  UploadButton,
+  HiddenInput,
+  ReportSummary,
+  HunkList,
+  HunkItem,
+  HunkHeader,
+  HunkDetail,
+  PatchKindTabs,
+  PatchKindTab,
+} from './PatchModal.styles';
+import { useDragAndDrop } from '../../hooks/useDragAndDrop';
+import type { HunkReport, PatchApplyResult } from '../../utils/patchApply';
+import type { JSONPatchFormat } from '../../utils/jsonPatchApply';
+
+export type PatchKind = 'unified' | JSONPatchFormat;
+
+const PATCH_KIND_DETAILS: Record<PatchKind, { label: string; hint: string; placeholder: string; extensions: string[] }> = {
+  unified: {
+    label: 'Unified Diff',
+    hint: 'Paste a unified diff, upload a .patch/.diff file or drop it below. It is applied to the left input.',
+    placeholder: '--- left\n+++ right\n@@ -1,3 +1,3 @@\n unchanged line\n-removed line\n+added line',
+    extensions: ['.patch', '.diff', '.txt'],
+  },
+  'json-patch': {
+    label: 'JSON Patch',
+    hint: 'Paste an RFC 6902 JSON Patch (an array of operations) or upload it. It is applied to the left JSON.',
+    placeholder: '[\n  { "op": "test", "path": "/version", "value": 1 },\n  { "op": "replace", "path": "/version", "value": 2 },\n  { "op": "remove", "path": "/deprecated" }\n]',
+    extensions: ['.json', '.json-patch', '.txt'],
+  },
+  'merge-patch': {
+    label: 'Merge Patch',
+    hint: 'Paste an RFC 7386 Merge Patch or upload it. Members set to null are removed from the left JSON.',
+    placeholder: '{\n  "version": 2,\n  "deprecated": null\n}',
+    extensions: ['.json', '.txt'],
+  },
+};
+
+const DEFAULT_KINDS: PatchKind[] = ['unified'];
+
+export interface PatchModalProps {
+  show: boolean;
+  onClose: () => void;
+  onApply: (patchText: string, kind: PatchKind) => PatchApplyResult | null;
+  kinds?: PatchKind[]; // Patch formats offered; a selector is shown when there are several
+  title?: string;
+}
+
+/**
+ * Describe where and how an applied hunk was placed
+ */
+const describeAppliedHunk = (hunk: HunkReport): string => {
+  const notes: string[] = [];
+  if (hunk.offset) {
+    const lines = Math.abs(hunk.offset);
+    notes.push(`offset ${hunk.offset > 0 ? '+' : '-'}${lines} line${lines === 1 ? '' : 's'}`);
+  }
+  if (hunk.fuzz) {
+    notes.push(`fuzz ${hunk.fuzz}`);
+  }
+  if (hunk.ignoredWhitespace) {
+    notes.push('whitespace ignored');
+  }
+  return notes.length > 0 ? `Applied with ${notes.join(', ')}` : 'Applied cleanly';
+};
+
+export const PatchModal: React.FC<PatchModalProps> = ({
+  show,
+  onClose,
+  onApply,
+  kinds = DEFAULT_KINDS,
+  title = 'Apply Patch',
+}) => {
+  const [patchText, setPatchText] = useState('');
+  const [kind, setKind] = useState<PatchKind>(kinds[0]);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PatchApplyResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (show) {
+      setPatchText('');
+      setError(null);
+      setResult(null);
+      setKind(kinds[0]);
+    }
+  }, [show, kinds]);
+
+  const details = PATCH_KIND_DETAILS[kind];
+
+  const loadPatch = useCallback((content: string) => {
+    setPatchText(content);
+    setError(null);
+    setResult(null);
+  }, []);
+
+  const dragDrop = useDragAndDrop({
+    onDrop: loadPatch,
+    accept: details.extensions,
+    onError: setError,
+  });
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => loadPatch(event.target?.result as string);
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(file);
+  }, [loadPatch]);
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!patchText.trim()) {
+      setError('Please paste or upload a patch');
+      return;
+    }
+
+    const applyResult = onApply(patchText, kind);
+    if (!applyResult) {
+      return;
+    }
+
+    if (applyResult.error) {
+      setError(applyResult.error);
+      return;
+    }
+
+    // Keep the modal open with a report unless every hunk applied cleanly
+    const isClean = applyResult.hunks.every(
+      (hunk) => hunk.status === 'applied' && !hunk.offset && !hunk.fuzz && !hunk.ignoredWhitespace
+    );
+    if (isClean) {
+      onClose();
+    } else {
+      setResult(applyResult);
+    }
+  }, [patchText, kind, onApply, onClose]);
+
+  if (!show) return null;
+
+  return (
+    <ModalOverlay onClick={onClose}>
+      <PatchModalContainer onClick={(e) => e.stopPropagation()}>
+        <ModalHeader>
+          <ModalTitle>{title}</ModalTitle>
+          <CloseButton onClick={onClose} aria-label="Close">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </CloseButton>
+        </ModalHeader>
+        <ModalBody>
+          {result ? (
+            <>
+              <ReportSummary $hasRejected={result.rejectedCount > 0}>
+                {result.rejectedCount > 0
+                  ? `${result.rejectedCount} of ${result.hunks.length} hunk${result.hunks.length === 1 ? '' : 's'} rejected`
+                  : `All ${result.hunks.length} hunk${result.hunks.length === 1 ? '' : 's'} applied`}
+                {result.appliedCount > 0 ? ' — the patched text is in the right panel' : ''}
+              </ReportSummary>
+              <HunkList>
+                {result.hunks.map((hunk) => (
+                  <HunkItem key={hunk.index} $rejected={hunk.status === 'rejected'}>
+                    <HunkHeader>
+                      <strong>Hunk #{hunk.index}</strong>
+                      <code>{hunk.header}</code>
+                    </HunkHeader>
+                    <HunkDetail>
+                      {hunk.status === 'rejected' ? `Rejected: ${hunk.reason}` : describeAppliedHunk(hunk)}
+                    </HunkDetail>
+                  </HunkItem>
+                ))}
+              </HunkList>
+              <ModalFooter>
+                <CancelButton type="button" onClick={() => setResult(null)}>
+                  Edit Patch
+                </CancelButton>
+                <LoadButton type="button" onClick={onClose}>
+                  <span>Done</span>
+                </LoadButton>
+              </ModalFooter>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              {kinds.length > 1 && (
+                <PatchKindTabs role="tablist" aria-label="Patch format">
+                  {kinds.map((option) => (
+                    <PatchKindTab
+                      key={option}
+                      type="button"
+                      role="tab"
+                      aria-selected={option === kind}
+                      $active={option === kind}
+                      onClick={() => {
+                        setKind(option);
+                        setError(null);
+                      }}
+                    >
+                      {PATCH_KIND_DETAILS[option].label}
+                    </PatchKindTab>
+                  ))}
+                </PatchKindTabs>
+              )}
+              <PatchHint>
+                <span>{details.hint}</span>
+                <UploadButton type="button" onClick={() => fileInputRef.current?.click()} title="Upload patch file">
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                    <polyline points="17 8 12 3 7 8"></polyline>
+                    <line x1="12" y1="3" x2="12" y2="15"></line>
+                  </svg>
+                  <span>Upload</span>
+                </UploadButton>
+                <HiddenInput
+                  ref={fileInputRef}
+                  type="file"
+                  accept={details.extensions.join(',')}
+                  onChange={handleFileChange}
+                />
+              </PatchHint>
+              <PatchTextArea
+                value={patchText}
+                onChange={(e) => {
+                  setPatchText(e.target.value);
+                  setError(null);
+                }}
+                placeholder={details.placeholder}
+                spellCheck={false}
+                autoFocus
+                $isDragOver={dragDrop.isDragOver}
+                onDragEnter={dragDrop.onDragEnter}
+                onDragOver={dragDrop.onDragOver}
+                onDragLeave={dragDrop.onDragLeave}
+                onDrop={dragDrop.onDrop}
+              />
+              {error && <ErrorMessage>{error}</ErrorMessage>}
+              <ModalFooter>
+                <CancelButton type="button" onClick={onClose}>
+                  Cancel
+                </CancelButton>
+                <LoadButton type="submit" disabled={!patchText.trim()}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="20 6 9 17 4 12"></polyline>
+                  </svg>
+                  <span>Apply</span>
+                </LoadButton>
+              </ModalFooter>
+            </form>
+          )}
+        </ModalBody>
+      </PatchModalContainer>
+    </ModalOverlay>
+  );
+};
@@ -0,0 +1,2 @@
+export { PatchModal } from './PatchModal';
+export type { PatchModalProps, PatchKind } from './PatchModal';
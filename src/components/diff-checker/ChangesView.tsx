@@ -0,0 +1,103 @@
+/**
+ * Changes View Component
+ *
+ * Lists the changes of a structural JSON diff, one row per JSONPath,
+ * with the old and new values side by side
+ */
+
+import React, { useMemo } from 'react';
+import {
+  SummaryBar,
+  SummaryTitle,
+  SummaryStats,
+  DifferencesBadge,
+  StatItem,
+  StatLabel,
+  StatValue,
+  ChangesSection,
+  ChangesList,
+  ChangeRow,
+  ChangeTypeTag,
+  ChangePath,
+  ChangeValues,
+  ChangeValue,
+} from './DiffChecker.styles';
+import { serializeJSONNode, JSONNode } from '../../utils/jsonParser';
+import type { JSONChangeType, StructuralDiffResult } from '../../utils/jsonStructuralDiff';
+
+interface ChangesViewProps {
+  result: StructuralDiffResult;
+}
+
+const CHANGE_LABELS: Record<JSONChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  valueChanged: 'Value',
+  typeChanged: 'Type',
+};
+
+// Longer values are cut off in the list; the diff panels below show them in full
+const MAX_VALUE_LENGTH = 200;
+
+const formatValue = (value: JSONNode): string => {
+  const text = serializeJSONNode(value, 0);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+export const ChangesView: React.FC<ChangesViewProps> = ({ result }) => {
+  const counts = useMemo(() => {
+    const byType: Record<JSONChangeType, number> = { added: 0, removed: 0, valueChanged: 0, typeChanged: 0 };
+    result.changes.forEach((change) => {
+      byType[change.type]++;
+    });
+    return byType;
+  }, [result]);
+
+  const total = result.changes.length;
+
+  return (
+    <>
+      <SummaryBar>
+        <SummaryTitle>Structural Changes</SummaryTitle>
+        <SummaryStats>
+          <DifferencesBadge>
+            {total === 0 ? 'No structural changes' : `${total} change${total !== 1 ? 's' : ''} found`}
+          </DifferencesBadge>
+          <StatItem>
+            <StatLabel>ADDED</StatLabel>
+            <StatValue type="added">{counts.added}</StatValue>
+          </StatItem>
+          <StatItem>
+            <StatLabel>REMOVED</StatLabel>
+            <StatValue type="removed">{counts.removed}</StatValue>
+          </StatItem>
+          <StatItem>
+            <StatLabel>VALUE</StatLabel>
+            <StatValue type="changed">{counts.valueChanged}</StatValue>
+          </StatItem>
+          <StatItem>
+            <StatLabel>TYPE</StatLabel>
+            <StatValue type="moved">{counts.typeChanged}</StatValue>
+          </StatItem>
+        </SummaryStats>
+      </SummaryBar>
+      {total > 0 && (
+        <ChangesSection>
+          <ChangesList aria-label="Structural changes">
+            {result.changes.map((change, index) => (
+              <ChangeRow key={`${change.path}-${index}`} $type={change.type}>
+                <ChangeTypeTag $type={change.type}>{CHANGE_LABELS[change.type]}</ChangeTypeTag>
+                <ChangePath>{change.path}</ChangePath>
+                <ChangeValues>
+                  {change.oldValue !== undefined && <ChangeValue $side="old">{formatValue(change.oldValue)}</ChangeValue>}
+                  {change.oldValue !== undefined && change.newValue !== undefined && <span>→</span>}
+                  {change.newValue !== undefined && <ChangeValue $side="new">{formatValue(change.newValue)}</ChangeValue>}
+                </ChangeValues>
+              </ChangeRow>
+            ))}
+          </ChangesList>
+        </ChangesSection>
+      )}
+    </>
+  );
+};
@@ -504,30 +504,39 @@ export const TextAreaContainer = styled.div`
   display: flex;
 `;
 
-export const TextArea = styled.textarea`
-  flex: 1;
-  width: 100%;
+// Text layout of the input editors; the error backdrop must wrap lines exactly like the textarea
+const editorTextMixin = css`
   padding: 20px;
-  border: none;
   font-size: 14px;
   font-family: 'JetBrains Mono', 'Fira Code', 'Monaco', monospace;
-  background: transparent;
-  color: ${({ theme }) => theme.colors.text};
-  resize: none;
-  outline: none;
   line-height: 1.6;
   white-space: pre-wrap;
-  
+  overflow-wrap: break-word;
+  scrollbar-gutter: stable;
+
   @media (max-width: 768px) {
     padding: 16px;
     font-size: 13px;
   }
-  
+
   @media (max-width: 480px) {
     padding: 12px;
     font-size: 12px;
     line-height: 1.5;
   }
+`;
+
+export const TextArea = styled.textarea`
+  ${editorTextMixin}
+  position: relative;
+  z-index: 1;
+  flex: 1;
+  width: 100%;
+  border: none;
+  background: transparent;
+  color: ${({ theme }) => theme.colors.text};
+  resize: none;
+  outline: none;
   
   &::placeholder {
     color: ${({ theme }) => theme.colors.textTertiary};
@@ -581,6 +590,73 @@ export const PanelFooter = styled.div`
   }
 `;
 
+/* Error line highlight behind an input editor */
+export const EditorBackdrop = styled.div`
+  ${editorTextMixin}
+  position: absolute;
+  inset: 0;
+  overflow: hidden;
+  color: transparent;
+  pointer-events: none;
+  user-select: none;
+
+  &::-webkit-scrollbar {
+    width: 10px;
+
+    @media (max-width: 480px) {
+      width: 8px;
+    }
+  }
+`;
+
+export const ErrorLineMark = styled.div`
+  position: relative;
+  margin: 0 -20px;
+  padding: 0 20px;
+  background: ${({ theme }) => theme.colors.diffRemovedBg};
+
+  /* Gutter marker */
+  &::before {
+    content: '';
+    position: absolute;
+    left: 0;
+    top: 0;
+    bottom: 0;
+    width: 4px;
+    background: ${({ theme }) => theme.colors.diffRemovedText};
+  }
+
+  @media (max-width: 768px) {
+    margin: 0 -16px;
+    padding: 0 16px;
+  }
+
+  @media (max-width: 480px) {
+    margin: 0 -12px;
+    padding: 0 12px;
+  }
+`;
+
+export const ErrorHint = styled.div`
+  opacity: 0.85;
+`;
+
+export const ErrorLocationButton = styled.button`
+  margin-left: auto;
+  padding: 2px 10px;
+  border: 1px solid currentColor;
+  border-radius: ${({ theme }) => theme.radii.sm};
+  background: transparent;
+  color: inherit;
+  font-size: 12px;
+  white-space: nowrap;
+  cursor: pointer;
+
+  &:hover {
+    background: ${({ theme }) => theme.colors.surfaceHover};
+  }
+`;
+
 export const ErrorMessage = styled.div`
   padding: 12px 16px;
   background: ${({ theme }) => theme.colors.diffRemovedBg};
@@ -609,6 +685,27 @@ export const ErrorMessage = styled.div`
   }
 `;
 
+export const WarningMessage = styled.div`
+  padding: 12px 16px;
+  background: ${({ theme }) => theme.colors.diffChangedBg};
+  border: 1px solid ${({ theme }) => theme.colors.diffChangedText};
+  color: ${({ theme }) => theme.colors.diffChangedText};
+  font-size: 13px;
+  margin-top: 12px;
+  border-radius: ${({ theme }) => theme.radii.md};
+
+  ul {
+    margin: 4px 0 0;
+    padding-left: 20px;
+  }
+
+  @media (max-width: 768px) {
+    padding: 10px 14px;
+    font-size: 12px;
+    margin-top: 10px;
+  }
+`;
+
 export const SuccessMessage = styled.div`
   padding: 12px 16px;
   background: ${({ theme }) => theme.colors.diffAddedBg};
@@ -805,7 +902,7 @@ export const DiffContent = styled.div`
   }
 `;
 
-export const DiffLine = styled.div<{ type: string; $isWordMode?: boolean }>`
+export const DiffLine = styled.div<{ type: string; $isWordMode?: boolean; $isHighlighted?: boolean }>`
   padding: 0 12px;
   padding-left: 60px;
   display: flex;
@@ -833,6 +930,11 @@ export const DiffLine = styled.div<{ type: string; $isWordMode?: boolean }>`
     word-break: break-word;
   }
   
+  ${({ $isHighlighted, theme }) => $isHighlighted && css`
+    outline: 2px solid ${theme.colors.primary};
+    outline-offset: -2px;
+  `}
+
   ${({ type, theme, $isWordMode }) => {
     if ($isWordMode) return css`
       background: transparent;
@@ -859,6 +961,12 @@ export const DiffLine = styled.div<{ type: string; $isWordMode?: boolean }>`
           color: ${theme.colors.text};
           border-left: 3px solid #F59E0B;
         `;
+      case 'moved':
+        return css`
+          background-color: ${theme.colors.diffMovedBg};
+          color: ${theme.colors.text};
+          border-left: 3px solid ${theme.colors.diffMovedText};
+        `;
       default:
         return css`
           color: ${theme.colors.text};
@@ -881,6 +989,7 @@ export const DiffLineNumber = styled.span<{ type?: string }>`
       case 'added': return '#10B981';
       case 'removed': return '#EF4444';
       case 'changed': return '#F59E0B';
+      case 'moved': return theme.colors.diffMovedText;
       default: return theme.colors.textTertiary;
     }
   }};
@@ -889,6 +998,7 @@ export const DiffLineNumber = styled.span<{ type?: string }>`
       case 'added': return 'rgba(16, 185, 129, 0.1)';
       case 'removed': return 'rgba(239, 68, 68, 0.1)';
       case 'changed': return 'rgba(245, 158, 11, 0.15)';
+      case 'moved': return theme.colors.diffMovedBg;
       default: return theme.colors.surfaceHover;
     }
   }};
@@ -897,6 +1007,7 @@ export const DiffLineNumber = styled.span<{ type?: string }>`
       case 'added': return 'rgba(16, 185, 129, 0.2)';
       case 'removed': return 'rgba(239, 68, 68, 0.2)';
       case 'changed': return 'rgba(245, 158, 11, 0.2)';
+      case 'moved': return theme.colors.diffMovedBg;
       default: return theme.colors.border;
     }
   }};
@@ -931,11 +1042,95 @@ export const DiffLineContent = styled.span<{ type?: string; $isWordMode?: boolea
       case 'added': return '#10B981';
       case 'removed': return '#EF4444';
       case 'changed': return '#F59E0B';
+      case 'moved': return theme.colors.diffMovedText;
       default: return 'inherit';
     }
   }};
 `;
 
+export const MoveLink = styled.button`
+  flex-shrink: 0;
+  align-self: center;
+  padding: 0 8px;
+  border: 1px solid ${({ theme }) => theme.colors.diffMovedText};
+  border-radius: ${({ theme }) => theme.radii.full};
+  background: transparent;
+  color: ${({ theme }) => theme.colors.diffMovedText};
+  font-family: inherit;
+  font-size: 11px;
+  line-height: 18px;
+  white-space: nowrap;
+  cursor: pointer;
+
+  &:hover {
+    background: ${({ theme }) => theme.colors.diffMovedBg};
+  }
+
+  @media (max-width: 480px) {
+    padding: 0 6px;
+    font-size: 10px;
+  }
+`;
+
+export const CollapsedLines = styled.button`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 8px;
+  width: 100%;
+  min-height: 24px;
+  padding: 2px 12px;
+  border: none;
+  border-top: 1px dashed ${({ theme }) => theme.colors.border};
+  border-bottom: 1px dashed ${({ theme }) => theme.colors.border};
+  background: ${({ theme }) => theme.colors.purpleLight};
+  color: ${({ theme }) => theme.colors.primary};
+  font-family: inherit;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:hover {
+    background: ${({ theme }) => theme.colors.purpleMedium};
+  }
+
+  @media (max-width: 480px) {
+    min-height: 22px;
+    font-size: 11px;
+  }
+`;
+
+export const BlockActions = styled.div<{ $side: 'left' | 'right' }>`
+  display: flex;
+  justify-content: ${({ $side }) => ($side === 'left' ? 'flex-end' : 'flex-start')};
+  padding: 2px 12px;
+  background: ${({ theme }) => theme.colors.surfaceHover};
+  border-top: 1px solid ${({ theme }) => theme.colors.border};
+`;
+
+export const CopyBlockButton = styled.button`
+  padding: 0 10px;
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.radii.full};
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  font-family: inherit;
+  font-size: 11px;
+  line-height: 18px;
+  white-space: nowrap;
+  cursor: pointer;
+
+  &:hover {
+    border-color: ${({ theme }) => theme.colors.primary};
+    color: ${({ theme }) => theme.colors.primary};
+    background: ${({ theme }) => theme.colors.purpleLight};
+  }
+
+  @media (max-width: 480px) {
+    padding: 0 6px;
+    font-size: 10px;
+  }
+`;
+
 export const WordHighlight = styled.span<{ $type: 'added' | 'removed' | 'modified' | 'unchanged' }>`
   ${({ $type, theme }) => {
     switch ($type) {
@@ -1125,7 +1320,7 @@ export const StatLabel = styled.span`
   letter-spacing: 0.5px;
 `;
 
-export const StatValue = styled.span<{ type?: 'added' | 'removed' | 'changed' }>`
+export const StatValue = styled.span<{ type?: 'added' | 'removed' | 'changed' | 'moved' }>`
   font-weight: 700;
   font-size: 20px;
   color: ${({ theme, type }) => {
@@ -1133,6 +1328,7 @@ export const StatValue = styled.span<{ type?: 'added' | 'removed' | 'changed' }>
       case 'added': return '#10B981';
       case 'removed': return '#EF4444';
       case 'changed': return '#F59E0B';
+      case 'moved': return theme.colors.diffMovedText;
       default: return theme.colors.text;
     }
   }};
@@ -1141,6 +1337,7 @@ export const StatValue = styled.span<{ type?: 'added' | 'removed' | 'changed' }>
       case 'added': return 'rgba(16, 185, 129, 0.3)';
       case 'removed': return 'rgba(239, 68, 68, 0.3)';
       case 'changed': return 'rgba(245, 158, 11, 0.3)';
+      case 'moved': return 'rgba(59, 130, 246, 0.3)';
       default: return 'none';
     }
   }};
@@ -1168,4 +1365,408 @@ export const ClearIcon = styled.span`
   font-size: 16px;
   display: flex;
   align-items: center;
-`;
\ No newline at end of file
+`;
+export const MergeSection = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+  padding: 32px;
+  border-top: 1px solid ${({ theme }) => theme.colors.border};
+
+  @media (max-width: 1024px) {
+    padding: 24px;
+  }
+
+  @media (max-width: 768px) {
+    padding: 20px;
+    gap: 12px;
+  }
+
+  @media (max-width: 480px) {
+    padding: 16px;
+  }
+`;
+
+export const MergeRegionList = styled.div`
+  display: flex;
+  flex-direction: column;
+  max-height: 600px;
+  overflow: auto;
+  background: ${({ theme }) => theme.colors.inputBackground};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.radii.md};
+  box-shadow: ${({ theme }) => theme.shadows.sm};
+  font-family: ${({ theme }) => theme.fonts.mono};
+  font-size: 13px;
+  line-height: 1.6;
+
+  @media (max-width: 768px) {
+    max-height: 500px;
+    font-size: 12px;
+  }
+`;
+
+export const MergeBlock = styled.div<{ $type: 'unchanged' | 'left' | 'right' | 'both' | 'conflict' }>`
+  border-left: 3px solid ${({ theme, $type }) => {
+    switch ($type) {
+      case 'left':
+      case 'right':
+      case 'both':
+        return theme.colors.diffAddedText;
+      case 'conflict':
+        return theme.colors.diffRemovedText;
+      default:
+        return 'transparent';
+    }
+  }};
+  background: ${({ theme, $type }) => {
+    switch ($type) {
+      case 'left':
+      case 'right':
+      case 'both':
+        return theme.colors.diffAddedBg;
+      case 'conflict':
+        return theme.colors.diffRemovedBg;
+      default:
+        return 'transparent';
+    }
+  }};
+
+  & + & {
+    border-top: 1px solid ${({ theme }) => theme.colors.border};
+  }
+`;
+
+export const MergeBlockHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  flex-wrap: wrap;
+  gap: 8px;
+  padding: 6px 12px;
+  font-family: ${({ theme }) => theme.fonts.body};
+  font-size: 12px;
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.textSecondary};
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+`;
+
+export const MergeLines = styled.pre`
+  margin: 0;
+  padding: 2px 12px;
+  font-family: inherit;
+  white-space: pre;
+  overflow-x: auto;
+  color: ${({ theme }) => theme.colors.text};
+`;
+
+export const ConflictColumns = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, minmax(0, 1fr));
+  gap: 1px;
+  background: ${({ theme }) => theme.colors.border};
+
+  @media (max-width: 768px) {
+    grid-template-columns: minmax(0, 1fr);
+  }
+`;
+
+export const ConflictColumn = styled.div<{ $muted?: boolean }>`
+  display: flex;
+  flex-direction: column;
+  background: ${({ theme }) => theme.colors.cardBackground};
+  opacity: ${({ $muted }) => ($muted ? 0.7 : 1)};
+  min-width: 0;
+`;
+
+export const ConflictColumnTitle = styled.div`
+  padding: 4px 12px;
+  font-family: ${({ theme }) => theme.fonts.body};
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+  color: ${({ theme }) => theme.colors.textTertiary};
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+`;
+
+export const ConflictActions = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+  text-transform: none;
+  letter-spacing: normal;
+`;
+
+export const ConflictButton = styled.button<{ $active?: boolean }>`
+  padding: 2px 10px;
+  border: 1px solid ${({ theme, $active }) => ($active ? theme.colors.primary : theme.colors.border)};
+  border-radius: ${({ theme }) => theme.radii.full};
+  background: ${({ theme, $active }) => ($active ? theme.colors.purpleMedium : theme.colors.surface)};
+  color: ${({ theme, $active }) => ($active ? theme.colors.primary : theme.colors.text)};
+  font-family: ${({ theme }) => theme.fonts.body};
+  font-size: 12px;
+  font-weight: 500;
+  cursor: pointer;
+
+  &:hover {
+    border-color: ${({ theme }) => theme.colors.primary};
+    color: ${({ theme }) => theme.colors.primary};
+  }
+`;
+
+export const ConflictEditor = styled.textarea`
+  display: block;
+  width: 100%;
+  min-height: 120px;
+  padding: 8px 12px;
+  border: none;
+  border-top: 1px solid ${({ theme }) => theme.colors.border};
+  background: ${({ theme }) => theme.colors.cardBackground};
+  color: ${({ theme }) => theme.colors.text};
+  font-family: inherit;
+  font-size: inherit;
+  line-height: inherit;
+  resize: vertical;
+
+  &:focus {
+    outline: 2px solid ${({ theme }) => theme.colors.primary};
+    outline-offset: -2px;
+  }
+`;
+
+export const CharHighlight = styled.span<{ $type: 'added' | 'removed' }>`
+  border-radius: 2px;
+  background-color: ${({ $type }) =>
+    $type === 'added' ? 'rgba(16, 185, 129, 0.3)' : 'rgba(239, 68, 68, 0.3)'};
+  color: ${({ theme, $type }) => ($type === 'added' ? theme.colors.diffAddedText : theme.colors.diffRemovedText)};
+`;
+
+// Empty row opposite a line that only exists on the other side
+export const FillerLine = styled.div`
+  display: flex;
+  min-height: 24px;
+  padding: 0 12px;
+  background: repeating-linear-gradient(
+    -45deg,
+    transparent,
+    transparent 6px,
+    ${({ theme }) => theme.colors.border} 6px,
+    ${({ theme }) => theme.colors.border} 7px
+  );
+  user-select: none;
+
+  @media (max-width: 480px) {
+    min-height: 22px;
+  }
+`;
+
+export const ChangesSection = styled.div`
+  padding: 32px;
+  border-top: 1px solid ${({ theme }) => theme.colors.border};
+
+  @media (max-width: 1024px) {
+    padding: 24px;
+  }
+
+  @media (max-width: 768px) {
+    padding: 20px;
+  }
+
+  @media (max-width: 480px) {
+    padding: 16px;
+  }
+`;
+
+export const ChangesList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  max-height: 600px;
+  overflow: auto;
+  background: ${({ theme }) => theme.colors.inputBackground};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.radii.md};
+  box-shadow: ${({ theme }) => theme.shadows.sm};
+  font-family: ${({ theme }) => theme.fonts.mono};
+  font-size: 13px;
+  line-height: 1.6;
+
+  @media (max-width: 768px) {
+    max-height: 500px;
+    font-size: 12px;
+  }
+`;
+
+export const ChangeRow = styled.li<{ $type: 'added' | 'removed' | 'valueChanged' | 'typeChanged' }>`
+  display: grid;
+  grid-template-columns: 120px minmax(0, 1fr) minmax(0, 2fr);
+  gap: 12px;
+  align-items: baseline;
+  padding: 6px 12px;
+  border-left: 3px solid ${({ theme, $type }) => {
+    switch ($type) {
+      case 'added': return theme.colors.diffAddedText;
+      case 'removed': return theme.colors.diffRemovedText;
+      case 'typeChanged': return theme.colors.diffMovedText;
+      default: return theme.colors.diffChangedText;
+    }
+  }};
+
+  & + & {
+    border-top: 1px solid ${({ theme }) => theme.colors.border};
+  }
+
+  @media (max-width: 768px) {
+    grid-template-columns: minmax(0, 1fr);
+    gap: 4px;
+  }
+`;
+
+export const ChangeTypeTag = styled.span<{ $type: 'added' | 'removed' | 'valueChanged' | 'typeChanged' }>`
+  justify-self: start;
+  padding: 0 8px;
+  border-radius: ${({ theme }) => theme.radii.full};
+  font-family: ${({ theme }) => theme.fonts.body};
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: uppercase;
+  letter-spacing: 0.5px;
+  background: ${({ theme, $type }) => {
+    switch ($type) {
+      case 'added': return theme.colors.diffAddedBg;
+      case 'removed': return theme.colors.diffRemovedBg;
+      case 'typeChanged': return theme.colors.diffMovedBg;
+      default: return theme.colors.diffChangedBg;
+    }
+  }};
+  color: ${({ theme, $type }) => {
+    switch ($type) {
+      case 'added': return theme.colors.diffAddedText;
+      case 'removed': return theme.colors.diffRemovedText;
+      case 'typeChanged': return theme.colors.diffMovedText;
+      default: return theme.colors.diffChangedText;
+    }
+  }};
+`;
+
+export const ChangePath = styled.span`
+  color: ${({ theme }) => theme.colors.text};
+  font-weight: 600;
+  overflow-wrap: anywhere;
+`;
+
+export const ChangeValues = styled.span`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: baseline;
+  gap: 6px;
+  min-width: 0;
+  color: ${({ theme }) => theme.colors.textSecondary};
+`;
+
+export const ChangeValue = styled.code<{ $side: 'old' | 'new' }>`
+  padding: 0 4px;
+  border-radius: ${({ theme }) => theme.radii.sm};
+  background: ${({ theme, $side }) => ($side === 'old' ? theme.colors.diffRemovedBg : theme.colors.diffAddedBg)};
+  color: ${({ theme, $side }) => ($side === 'old' ? theme.colors.diffRemovedText : theme.colors.diffAddedText)};
+  font-family: inherit;
+  white-space: pre-wrap;
+  overflow-wrap: anywhere;
+`;
+
+export const MergePatchCode = styled.pre`
+  margin: 0;
+  padding: 12px 16px;
+  max-height: 400px;
+  overflow: auto;
+  background: ${({ theme }) => theme.colors.inputBackground};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.radii.md};
+  box-shadow: ${({ theme }) => theme.shadows.sm};
+  color: ${({ theme }) => theme.colors.text};
+  font-family: ${({ theme }) => theme.fonts.mono};
+  font-size: 13px;
+  line-height: 1.6;
+
+  & + ul {
+    margin-top: 16px;
+  }
+
+  @media (max-width: 768px) {
+    max-height: 320px;
+    font-size: 12px;
+  }
+`;
+
+/* Repaired JSON, as a unified diff against the input */
+export const RepairDiff = styled.div`
+  max-height: 400px;
+  overflow: auto;
+  background: ${({ theme }) => theme.colors.inputBackground};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.radii.md};
+  box-shadow: ${({ theme }) => theme.shadows.sm};
+  font-family: ${({ theme }) => theme.fonts.mono};
+  font-size: 13px;
+  line-height: 1.6;
+
+  & + ul {
+    margin-top: 16px;
+  }
+
+  @media (max-width: 768px) {
+    max-height: 320px;
+    font-size: 12px;
+  }
+`;
+
+export const RepairHunkHeader = styled.div`
+  padding: 2px 12px;
+  background: ${({ theme }) => theme.colors.purpleLight};
+  color: ${({ theme }) => theme.colors.primary};
+  font-size: 12px;
+`;
+
+export const RepairDiffLine = styled.div<{ $type: 'added' | 'removed' | 'unchanged' }>`
+  display: flex;
+  white-space: pre;
+  background: ${({ theme, $type }) =>
+    $type === 'added' ? theme.colors.diffAddedBg : $type === 'removed' ? theme.colors.diffRemovedBg : 'transparent'};
+  color: ${({ theme, $type }) =>
+    $type === 'added' ? theme.colors.diffAddedText : $type === 'removed' ? theme.colors.diffRemovedText : theme.colors.text};
+
+  & > span:first-child {
+    flex: 0 0 64px;
+    padding-right: 12px;
+    text-align: right;
+    color: ${({ theme }) => theme.colors.textTertiary};
+    user-select: none;
+  }
+`;
+
+export const OptionTextInput = styled.input<{ $invalid?: boolean }>`
+  width: 260px;
+  padding: 6px 10px;
+  border: 1px solid ${({ theme, $invalid }) => ($invalid ? theme.colors.diffRemovedText : theme.colors.border)};
+  border-radius: ${({ theme }) => theme.radii.md};
+  background: ${({ theme }) => theme.colors.inputBackground};
+  color: ${({ theme }) => theme.colors.text};
+  font-family: ${({ theme }) => theme.fonts.mono};
+  font-size: 12px;
+  cursor: text;
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme, $invalid }) => ($invalid ? theme.colors.diffRemovedText : theme.colors.primary)};
+  }
+
+  &::placeholder {
+    color: ${({ theme }) => theme.colors.textTertiary};
+  }
+
+  @media (max-width: 480px) {
+    width: 100%;
+  }
+`;
@@ -11,6 +11,9 @@ import {
   TextArea,
   PanelFooter,
   ErrorMessage,
+  ErrorLocationButton,
+  ErrorHint,
+  WarningMessage,
   SuccessMessage,
   ComparisonSection,
   DiffPanel,
@@ -20,6 +23,12 @@ import {
   DiffLineNumber,
   DiffLineContent,
   WordHighlight,
+  CharHighlight,
+  FillerLine,
+  MoveLink,
+  CollapsedLines,
+  BlockActions,
+  CopyBlockButton,
   SummaryBar,
   SummaryTitle,
   SummaryStats,
@@ -42,10 +51,35 @@ import {
   DragOverlay,
   ClearIcon
 } from './DiffChecker.styles';
-import { useDiffChecker } from '../../hooks/useDiffChecker';
-import { DiffLine as DiffLineType } from '../../utils/diffChecker';
+import { useDiffChecker, COMPARISON_TIMEOUT_ERROR } from '../../hooks/useDiffChecker';
+import { DiffLine as DiffLineType, computeLineByLineDiff, isExactDiffOf } from '../../utils/diffChecker';
+import {
+  computeHunks,
+  copyChangeBlock,
+  buildAlignedRows,
+  AlignedRow,
+  ChangeBlock,
+  DEFAULT_CONTEXT_LINES,
+} from '../../utils/diffHunks';
+import { formatUnifiedDiff } from '../../utils/unifiedDiff';
+import { applyPatch, PatchApplyResult } from '../../utils/patchApply';
+import { applyJSONPatchDocument } from '../../utils/jsonPatchApply';
+import { generateJSONPatch, formatJSONPatch, JSON_PATCH_MEDIA_TYPE } from '../../utils/jsonPatch';
+import { parseJSONValue } from '../../utils/jsonParser';
+import { MergeView } from './MergeView';
+import { ChangesView } from './ChangesView';
+import { MergePatchView } from './MergePatchView';
+import { PathRulesInput } from './PathRulesInput';
+import { ErrorLineHighlight } from './ErrorLineHighlight';
+import { RepairView } from './RepairView';
+import { formatArrayIdentityKeys, parseArrayIdentityKeys } from '../../utils/jsonArrayIdentity';
+import { formatIgnoredPaths, parseIgnoredPaths } from '../../utils/jsonIgnoredPaths';
+import { repairJSON, JSONRepairResult } from '../../utils/jsonRepair';
+import { fingerprintText } from '../../utils/textFingerprint';
+import { VirtualDiffContent, createRowHeightCache } from './VirtualDiffContent';
 import { Button } from '../button';
 import { useDragAndDrop } from '../../hooks/useDragAndDrop';
+import { useSyncedScroll } from '../../hooks/useSyncedScroll';
 // UrlModal moved to index.tsx for proper z-index stacking
 import { Loading } from '../Loader/Loading';
 import { CustomSelect } from '../CustomSelect';
@@ -54,7 +88,39 @@ import {
   clearSessionData
 } from '../../services/sessionStorage';
 import { clearAllFormatData } from '../../services/formatStorage';
-import type { componentType, FormatType, TextCompareMode } from '../../types/common';
+import type {
+  componentType,
+  FormatType,
+  ModeType,
+  TextCompareMode,
+  DiffAlgorithm,
+  ValidationError,
+  ValidationResult,
+} from '../../types/common';
+import type { ComparisonPhase } from '../../utils/comparisonPipeline';
+import type { PatchKind } from '../PatchModal';
+
+// Maximum number of block copies that can be undone
+const MAX_COPY_HISTORY = 50;
+
+// Above this many rows the diff panels switch to virtual scrolling
+const VIRTUALIZE_ROW_THRESHOLD = 1000;
+
+// Input panels that load files; base is the common ancestor in three-way merge
+type UploadTarget = 'left' | 'base' | 'right';
+
+const COMPARISON_PHASE_LABELS: Record<ComparisonPhase, string> = {
+  validate: 'Validating...',
+  normalize: 'Normalizing...',
+  diff: 'Diffing...',
+};
+
+// The position of a syntax error only applies to the text that was validated;
+// live diff keeps the last result on screen while the input is being edited
+const currentErrorLocation = (validation: ValidationResult | null, input: string): ValidationError | null => {
+  const error = validation && !validation.isValid ? validation.errors?.[0] : undefined;
+  return error && error.sourceFingerprint === fingerprintText(input) ? error : null;
+};
 
 interface DiffCheckerProps {
   activeFormat?: componentType;
@@ -62,9 +128,19 @@ interface DiffCheckerProps {
   onShowAlert?: (title: string, message: string) => void;
   onShowUrlModal?: () => void;
   onUrlLoadRef?: React.MutableRefObject<((url: string) => Promise<void>) | null>;
+  onShowPatchModal?: () => void;
+  onPatchApplyRef?: React.MutableRefObject<((patchText: string, kind: PatchKind) => PatchApplyResult) | null>;
 }
 
-const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef, onShowAlert, onShowUrlModal, onUrlLoadRef }) => {
+const DiffChecker: React.FC<DiffCheckerProps> = ({
+  activeFormat,
+  onClearAllRef,
+  onShowAlert,
+  onShowUrlModal,
+  onUrlLoadRef,
+  onShowPatchModal,
+  onPatchApplyRef,
+}) => {
   // ALL HOOKS MUST BE CALLED BEFORE ANY CONDITIONAL RETURNS
   // Use a safe default to ensure hooks are always called in the same order
   const safeActiveFormat = activeFormat || 'json-compare';
@@ -72,19 +148,31 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
   const {
     leftInput,
     rightInput,
+    baseInput,
     format,
     mode,
     leftValidation,
     rightValidation,
     diffResult,
+    structuralDiff,
+    mergePatch,
+    ignoredDifferences,
+    mergeResult,
     isComparing,
+    progress,
     diffOptions,
+    isSemantic,
+    liveDiff,
     setLeftInput,
     setRightInput,
+    setBaseInput,
     setFormat: setHookFormat,
     setMode: setHookMode,
     setDiffOptions,
+    setIsSemantic,
+    setLiveDiff,
     compare,
+    cancelCompare,
     canCompare,
     clear,
   } = useDiffChecker(safeActiveFormat); // Use safeActiveFormat to ensure hooks are always called
@@ -117,11 +205,14 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
 
     if (activeFormat) {
       let newFormat: FormatType;
-      let newMode: 'compare' | 'validate';
+      let newMode: ModeType;
 
       if (activeFormat.includes('-validate')) {
         newFormat = activeFormat.replace('-validate', '') as FormatType;
         newMode = 'validate';
+      } else if (activeFormat.includes('-merge')) {
+        newFormat = activeFormat.replace('-merge', '') as FormatType;
+        newMode = 'merge';
       } else {
         newFormat = activeFormat.replace('-compare', '') as FormatType;
         newMode = 'compare';
@@ -144,6 +235,21 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
         if (currentDiffOptions.ignoreArrayOrder) {
           updates.ignoreArrayOrder = false;
         }
+        if (currentDiffOptions.arrayIdentityKeys?.length) {
+          updates.arrayIdentityKeys = [];
+        }
+        if (currentDiffOptions.ignoredPaths?.length) {
+          updates.ignoredPaths = [];
+        }
+        if (currentDiffOptions.numericTolerance) {
+          updates.numericTolerance = undefined;
+        }
+        if (currentDiffOptions.looseTypes) {
+          updates.looseTypes = false;
+        }
+        if (currentDiffOptions.nullEqualsMissing) {
+          updates.nullEqualsMissing = false;
+        }
       }
 
       if (newFormat !== 'xml' && currentDiffOptions.ignoreAttributeOrder) {
@@ -173,6 +279,7 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
   // File upload loading states
   const [isUploadingLeft, setIsUploadingLeft] = useState(false);
   const [isUploadingRight, setIsUploadingRight] = useState(false);
+  const [isUploadingBase, setIsUploadingBase] = useState(false);
 
   // Show alert helper function - calls parent handler
   const showAlertMessage = useCallback((title: string, message: string) => {
@@ -189,8 +296,18 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
   }, []);
 
   const handleCompare = useCallback(async () => {
-    await compare();
-  }, [compare]);
+    const result = await compare();
+    // Invalid inputs are marked in their panels; a comparison that broke down is reported here
+    if (!('failed' in result)) return;
+    if (result.error === COMPARISON_TIMEOUT_ERROR) {
+      showAlertMessage(
+        'Comparison Timed Out',
+        `${COMPARISON_TIMEOUT_ERROR}. Try the Myers algorithm, turn off moved block detection or compare smaller inputs.`
+      );
+    } else {
+      showAlertMessage('Comparison Failed', result.error ?? 'The comparison failed');
+    }
+  }, [compare, showAlertMessage]);
 
   // Reset button handler - only clears current state, not localStorage
   const handleReset = useCallback(() => {
@@ -247,6 +364,7 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
   // File input refs for upload functionality
   const leftFileInputRef = React.useRef<HTMLInputElement>(null);
   const rightFileInputRef = React.useRef<HTMLInputElement>(null);
+  const baseFileInputRef = React.useRef<HTMLInputElement>(null);
 
   // Textarea refs for preserving undo history
   const leftTextareaRef = React.useRef<HTMLTextAreaElement>(null);
@@ -283,6 +401,8 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
     if (activeFormat === 'json-validate') return ['.json'];
     // XML Validate → only accept .xml
     if (activeFormat === 'xml-validate') return ['.xml'];
+    // Text Merge → any text-based file, merges are often config files
+    if (activeFormat === 'text-merge') return ['.txt', '.text', '.json', '.xml', '.yaml', '.yml', '.ini', '.conf'];
 
     // Fallback to format-based logic
     return format === 'json' ? ['.json'] : format === 'xml' ? ['.xml'] : ['.text', '.txt'];
@@ -370,13 +490,118 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
         });
       }
     }, [rightDragDrop]),
-  }; 
+  };
 
-  const renderDiffLine = useCallback((line: DiffLineType) => {
+  // Drag and drop handlers for the common ancestor in three-way merge
+  const baseDragDrop = useDragAndDrop({
+    onDrop: useCallback((content: string, file: File) => {
+      if (file && !validateFileSize(file)) {
+        setIsUploadingBase(false);
+        return;
+      }
+      setIsUploadingBase(true);
+      setTimeout(() => {
+        setBaseInput(content);
+        setIsUploadingBase(false);
+      }, 100);
+    }, [setBaseInput, validateFileSize]),
+    accept: getAcceptedExtensions(),
+    maxSize: 2 * 1024 * 1024, // 2 MB
+    onError: (error) => {
+      setIsUploadingBase(false);
+      showAlertMessage('File Error', error);
+    },
+  });
+
+  const baseDragDropHandlers = {
+    ...baseDragDrop,
+    onDrop: useCallback((e: React.DragEvent<HTMLElement>) => {
+      setIsUploadingBase(true);
+      const dropPromise = baseDragDrop.onDrop(e) as Promise<void> | void;
+      if (dropPromise && typeof dropPromise.catch === 'function') {
+        dropPromise.catch(() => {
+          // Silent catch - error is already handled by onError callback in useDragAndDrop
+        });
+      }
+    }, [baseDragDrop]),
+  };
+
+  // Unchanged lines shown around each change; the rest collapse into an expand bar
+  const [contextLines, setContextLines] = useState<number>(DEFAULT_CONTEXT_LINES);
+  // Collapsed regions the user expanded, keyed by the index of the hunk they precede
+  const [expandedGaps, setExpandedGaps] = useState<Set<number>>(new Set());
+
+  const hunks = useMemo(
+    () => (diffResult ? computeHunks(diffResult, contextLines) : []),
+    [diffResult, contextLines]
+  );
+
+  useEffect(() => {
+    setExpandedGaps(new Set());
+  }, [hunks]);
+
+  const expandGap = useCallback((gapIndex: number) => {
+    setExpandedGaps((prev) => new Set(prev).add(gapIndex));
+  }, []);
+
+  // Blocks are copied line for line between the inputs, which is only possible
+  // when the diff is of the inputs as typed: not of normalized JSON or XML, not
+  // matched ignoring whitespace or case, and not of inputs edited since
+  const canCopyBlocks = useMemo(
+    () => !!diffResult && isExactDiffOf(diffResult, leftInput, rightInput, diffOptions),
+    [diffResult, leftInput, rightInput, diffOptions]
+  );
+
+  // Rows shared by both panels, with fillers opposite one-sided lines
+  const alignedRows = useMemo(
+    () => (diffResult ? buildAlignedRows(diffResult, hunks, expandedGaps, canCopyBlocks) : []),
+    [diffResult, hunks, expandedGaps, canCopyBlocks]
+  );
+
+  // Large diffs render only the rows in view; both panels share measured row heights
+  const isVirtualized = alignedRows.length > VIRTUALIZE_ROW_THRESHOLD;
+  // Measured heights are per row index, so a new row list starts a fresh cache
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const rowHeightCache = useMemo(() => createRowHeightCache(), [alignedRows]);
+  const leftScrollToRowRef = useRef<((index: number) => void) | null>(null);
+  const rightScrollToRowRef = useRef<((index: number) => void) | null>(null);
+
+  // Line briefly outlined after jumping to it from a moved block link
+  const [highlightedLine, setHighlightedLine] = useState<{ side: 'left' | 'right'; lineNumber: number } | null>(null);
+
+  useEffect(() => {
+    if (!highlightedLine) return;
+    const timeoutId = setTimeout(() => setHighlightedLine(null), 1500);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedLine]);
+
+  // Scroll a diff line into view in the given panel and highlight it
+  const jumpToLine = useCallback((side: 'left' | 'right', lineNumber: number) => {
+    if (isVirtualized) {
+      // The target row may not be rendered yet, so scroll to its position instead
+      const rowIndex = alignedRows.findIndex((row) => row.kind === 'line' && row[side]?.lineNumber === lineNumber);
+      const scrollToRow = side === 'left' ? leftScrollToRowRef.current : rightScrollToRowRef.current;
+      if (rowIndex !== -1) scrollToRow?.(rowIndex);
+    } else {
+      const element = document.getElementById(`diff-${side}-line-${lineNumber}`);
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+    setHighlightedLine({ side, lineNumber });
+  }, [isVirtualized, alignedRows]);
+
+  const renderDiffLine = useCallback((line: DiffLineType, side: 'left' | 'right') => {
     const isWordMode = format === 'text' && diffOptions.textCompareMode === 'word' && !!line.words;
+    const otherSide = side === 'left' ? 'right' : 'left';
+    const isHighlighted = highlightedLine?.side === side && highlightedLine.lineNumber === line.lineNumber;
 
     return (
-      <DiffLine key={`${line.lineNumber}-${line.type}`} type={line.type} $isWordMode={isWordMode}>
+      <DiffLine
+        key={`${line.lineNumber}-${line.type}`}
+        id={`diff-${side}-line-${line.lineNumber}`}
+        type={line.type}
+        $isWordMode={isWordMode}
+        $isHighlighted={isHighlighted}
+      >
         <DiffLineNumber type={line.type}>{line.lineNumber}</DiffLineNumber>
         <DiffLineContent type={line.type} $isWordMode={isWordMode}>
           {isWordMode ? (
@@ -407,13 +632,176 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
                 );
               })}
             </>
+          ) : line.charDiff ? (
+            line.charDiff.map((part, partIdx) =>
+              part.type === 'unchanged' ? (
+                <React.Fragment key={partIdx}>{part.value}</React.Fragment>
+              ) : (
+                <CharHighlight key={partIdx} $type={part.type}>
+                  {part.value}
+                </CharHighlight>
+              )
+            )
           ) : (
             line.content || ' '
           )}
         </DiffLineContent>
+        {line.type === 'moved' && line.movedTo !== undefined && (
+          <MoveLink
+            type="button"
+            onClick={() => jumpToLine(otherSide, line.movedTo!)}
+            title={`Moved ${side === 'left' ? 'to' : 'from'} line ${line.movedTo} on the ${otherSide}`}
+          >
+            {side === 'left' ? '→' : '←'} {line.movedTo}
+          </MoveLink>
+        )}
       </DiffLine>
     );
-  }, [format, diffOptions.textCompareMode, diffOptions.ignoreWhitespace]);
+  }, [format, diffOptions.textCompareMode, diffOptions.ignoreWhitespace, highlightedLine, jumpToLine]);
+
+  // Snapshots of both inputs taken before each block copy, most recent last
+  const [copyHistory, setCopyHistory] = useState<Array<{ leftInput: string; rightInput: string }>>([]);
+  // Set when a block copy or undo rewrote the inputs; the next compare identity re-runs the diff
+  const recompareRef = useRef(false);
+
+  useEffect(() => {
+    if (recompareRef.current) {
+      recompareRef.current = false;
+      compare();
+    }
+  }, [compare]);
+
+  // Repaired JSON waiting to be accepted; it only applies to the input it was made from
+  const [repairPreview, setRepairPreview] = useState<{ input: string; result: JSONRepairResult } | null>(null);
+
+  useEffect(() => {
+    setCopyHistory([]);
+    setRepairPreview(null);
+  }, [activeFormat]);
+
+  // Copy a change block to the other side, replacing that side's lines for the block
+  const handleCopyBlock = useCallback((block: ChangeBlock, target: 'left' | 'right') => {
+    if (!canCopyBlocks) return;
+
+    const rewritten = copyChangeBlock(leftInput, rightInput, block, target);
+    if (rewritten === (target === 'left' ? leftInput : rightInput)) return;
+
+    setCopyHistory((prev) => [...prev.slice(1 - MAX_COPY_HISTORY), { leftInput, rightInput }]);
+    recompareRef.current = true;
+    if (target === 'left') {
+      setLeftInput(rewritten);
+    } else {
+      setRightInput(rewritten);
+    }
+  }, [canCopyBlocks, leftInput, rightInput, setLeftInput, setRightInput]);
+
+  // Restore both inputs to how they were before the last block copy
+  const handleUndoCopy = useCallback(() => {
+    const previous = copyHistory[copyHistory.length - 1];
+    if (!previous) return;
+
+    setCopyHistory((prev) => prev.slice(0, -1));
+    if (previous.leftInput === leftInput && previous.rightInput === rightInput) return;
+
+    recompareRef.current = true;
+    setLeftInput(previous.leftInput);
+    setRightInput(previous.rightInput);
+  }, [copyHistory, leftInput, rightInput, setLeftInput, setRightInput]);
+
+  const handleRepair = useCallback(() => {
+    const result = repairJSON(leftInput);
+    if (result.repairs.length === 0) {
+      showAlertMessage(
+        'Nothing to Repair',
+        result.isValid ? 'The input is already valid JSON.' : 'No known mistake was found; see the validation error for details.'
+      );
+      return;
+    }
+    setRepairPreview({ input: leftInput, result });
+  }, [leftInput, showAlertMessage]);
+
+  // Replace the input with the repaired JSON and validate it again
+  const handleAcceptRepair = useCallback(() => {
+    if (!repairPreview) return;
+    setRepairPreview(null);
+    recompareRef.current = true;
+    setLeftInput(repairPreview.result.output);
+  }, [repairPreview, setLeftInput]);
+
+  const renderBlockActions = useCallback((block: ChangeBlock, side: 'left' | 'right', key: string) => (
+    <BlockActions key={key} $side={side}>
+      {side === 'left' ? (
+        <CopyBlockButton
+          type="button"
+          onClick={() => handleCopyBlock(block, 'right')}
+          title="Replace the right side of this change with the left side"
+        >
+          Copy to right →
+        </CopyBlockButton>
+      ) : (
+        <CopyBlockButton
+          type="button"
+          onClick={() => handleCopyBlock(block, 'left')}
+          title="Replace the left side of this change with the right side"
+        >
+          ← Copy to left
+        </CopyBlockButton>
+      )}
+    </BlockActions>
+  ), [handleCopyBlock]);
+
+  // While locked, scrolling one diff panel scrolls the other to the same row
+  const [syncScroll, setSyncScroll] = useState(true);
+  const panelScroll = useSyncedScroll(syncScroll);
+
+  // Render one side of an aligned row; both panels render the same rows so they stay in step
+  const renderAlignedRow = useCallback((row: AlignedRow, side: 'left' | 'right') => {
+    if (row.kind === 'collapsed') {
+      return (
+        <CollapsedLines key={row.key} type="button" onClick={() => expandGap(row.gapIndex)}>
+          ↕ Expand {row.hiddenCount} hidden line{row.hiddenCount !== 1 ? 's' : ''}
+        </CollapsedLines>
+      );
+    }
+    if (row.kind === 'block') {
+      return renderBlockActions(row.block, side, row.key);
+    }
+    const line = row[side];
+    if (!line) {
+      return (
+        <FillerLine key={row.key} aria-hidden="true">
+          <DiffLineContent> </DiffLineContent>
+        </FillerLine>
+      );
+    }
+    return <React.Fragment key={row.key}>{renderDiffLine(line, side)}</React.Fragment>;
+  }, [expandGap, renderDiffLine, renderBlockActions]);
+
+  const renderDiffPanel = useCallback((side: 'left' | 'right') => {
+    const scrollRef = side === 'left' ? panelScroll.leftRef : panelScroll.rightRef;
+    const onScroll = side === 'left' ? panelScroll.onLeftScroll : panelScroll.onRightScroll;
+
+    if (isVirtualized) {
+      return (
+        <VirtualDiffContent
+          itemCount={alignedRows.length}
+          renderItem={(index) => renderAlignedRow(alignedRows[index], side)}
+          getItemKey={(index) => alignedRows[index].key}
+          panelId={side}
+          heightCache={rowHeightCache}
+          scrollRef={scrollRef}
+          onScroll={onScroll}
+          onScrollToIndexRef={side === 'left' ? leftScrollToRowRef : rightScrollToRowRef}
+        />
+      );
+    }
+
+    return (
+      <DiffContent ref={scrollRef} onScroll={onScroll}>
+        {alignedRows.map((row) => renderAlignedRow(row, side))}
+      </DiffContent>
+    );
+  }, [isVirtualized, alignedRows, rowHeightCache, panelScroll, renderAlignedRow]);
 
   const getStatistics = useCallback(() => {
     if (!diffResult) return null;
@@ -449,26 +837,32 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
         }
       }
 
-      return { added, removed, changed: modified, unchanged: 0 };
+      // Moved lines carry no word diff, count them per line
+      const moved = diffResult.leftLines.filter((l) => l.type === 'moved').length;
+
+      return { added, removed, changed: modified, moved, unchanged: 0 };
     }
 
     // Line mode - count lines as before
     const added = diffResult.rightLines.filter((l) => l.type === 'added').length;
     const removed = diffResult.leftLines.filter((l) => l.type === 'removed').length;
     const changed = diffResult.leftLines.filter((l) => l.type === 'changed').length;
+    const moved = diffResult.leftLines.filter((l) => l.type === 'moved').length;
     const unchanged = diffResult.leftLines.filter((l) => l.type === 'unchanged').length;
 
-    return { added, removed, changed, unchanged };
+    return { added, removed, changed, moved, unchanged };
   }, [diffResult, format, diffOptions.textCompareMode]);
 
   const stats = useMemo(() => getStatistics(), [getStatistics]);
   const isValidationMode = mode === 'validate';
-  const totalDifferences = stats ? stats.added + stats.removed + stats.changed : 0;
+  const isMergeMode = mode === 'merge';
+  const totalDifferences = stats ? stats.added + stats.removed + stats.changed + stats.moved : 0;
 
-  const formatStatValue = (value: number, type: 'added' | 'removed' | 'changed') => {
+  const formatStatValue = (value: number, type: 'added' | 'removed' | 'changed' | 'moved') => {
     if (type === 'added') return `+${value}`;
     if (type === 'removed') return `-${value}`;
     if (type === 'changed') return `~${value}`;
+    if (type === 'moved') return `↕${value}`;
     return value;
   };
 
@@ -497,16 +891,13 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
   }, [leftInput, rightInput]);
 
   // Upload functionality for specific panel
-  const handleUpload = useCallback((panel: 'left' | 'right') => {
-    if (panel === 'left') {
-      leftFileInputRef.current?.click();
-    } else {
-      rightFileInputRef.current?.click();
-    }
+  const handleUpload = useCallback((panel: UploadTarget) => {
+    const inputRef = panel === 'left' ? leftFileInputRef : panel === 'base' ? baseFileInputRef : rightFileInputRef;
+    inputRef.current?.click();
   }, []);
 
   // Handle file upload
-  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>, target: 'left' | 'right') => {
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>, target: UploadTarget) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -516,37 +907,24 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
       return;
     }
 
-    // Validate file extension based on current format
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
-    let allowedExtensions: string[] = [];
-    let formatName = '';
-
-    if (format === 'json') {
-      allowedExtensions = ['json'];
-      formatName = 'JSON';
-    } else if (format === 'xml') {
-      allowedExtensions = ['xml'];
-      formatName = 'XML';
-    } else if (format === 'text') {
-      allowedExtensions = ['text', 'txt'];
-      formatName = 'Text';
-    }
-
-    if (!fileExtension || !allowedExtensions.includes(fileExtension)) {
+    // Validate the extension against the list the file picker offers
+    const allowedExtensions = getAcceptedExtensions();
+    const fileExtension = file.name.includes('.') ? `.${file.name.split('.').pop()?.toLowerCase()}` : '';
+    if (!allowedExtensions.includes(fileExtension)) {
+      const formatName = format === 'json' ? 'JSON' : format === 'xml' ? 'XML' : 'Text';
       showAlertMessage(
         'Invalid File Type',
-        `Only ${formatName} files (${allowedExtensions.map(ext => `.${ext}`).join(', ')}) are allowed for ${formatName} format.`
+        `Only ${allowedExtensions.join(', ')} files are allowed for ${formatName} format.`
       );
       e.target.value = '';
       return;
     }
 
+    const setInput = target === 'left' ? setLeftInput : target === 'base' ? setBaseInput : setRightInput;
+    const setUploading = target === 'left' ? setIsUploadingLeft : target === 'base' ? setIsUploadingBase : setIsUploadingRight;
+
     // Set loading state
-    if (target === 'left') {
-      setIsUploadingLeft(true);
-    } else {
-      setIsUploadingRight(true);
-    }
+    setUploading(true);
 
     try {
       const reader = new FileReader();
@@ -554,36 +932,23 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
         const content = event.target?.result as string;
         // Add small delay to ensure loading state is visible
         setTimeout(() => {
-          if (target === 'left') {
-            setLeftInput(content);
-            setIsUploadingLeft(false);
-          } else {
-            setRightInput(content);
-            setIsUploadingRight(false);
-          }
+          setInput(content);
+          setUploading(false);
         }, 100);
       };
       reader.onerror = () => {
-        if (target === 'left') {
-          setIsUploadingLeft(false);
-        } else {
-          setIsUploadingRight(false);
-        }
+        setUploading(false);
         showAlertMessage('Error Reading File', 'Failed to read the file. Please try again.');
       };
       reader.readAsText(file);
     } catch {
-      if (target === 'left') {
-        setIsUploadingLeft(false);
-      } else {
-        setIsUploadingRight(false);
-      }
+      setUploading(false);
       showAlertMessage('Error Uploading File', 'An error occurred while uploading the file.');
     }
 
     // Reset input value to allow selecting the same file again
     e.target.value = '';
-  }, [format, setLeftInput, setRightInput, showAlertMessage, validateFileSize]);
+  }, [format, getAcceptedExtensions, setLeftInput, setBaseInput, setRightInput, showAlertMessage, validateFileSize]);
 
   // Download functionality for specific panel
   const handleDownload = useCallback((panel: 'left' | 'right') => {
@@ -610,6 +975,166 @@ const DiffChecker: React.FC<DiffCheckerProps> = ({ activeFormat, onClearAllRef,
     }
   }, [leftInput, rightInput, format, showAlertMessage]);
 
+  // Copy the merged output of a three-way merge
+  const handleCopyMerged = useCallback(async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      showAlertMessage('Error Copying', 'Failed to copy the merged output. Please try again.');
+    }
+  }, [showAlertMessage]);
+
+  // Download the merged output of a three-way merge
+  const handleDownloadMerged = useCallback((text: string) => {
+    try {
+      const blob = new Blob([text], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'merged-content.txt';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch {
+      showAlertMessage('Error Downloading File', 'Failed to download the file. Please try again.');
+    }
+  }, [showAlertMessage]);
+
+  // Download the differences between the inputs as a unified diff (.patch)
+  // The patch must apply to the left input as typed, so when the comparison
+  // normalized the inputs or matched lines loosely it is diffed again exactly
+  const handleDownloadPatch = useCallback(() => {
+    if (!diffResult) {
+      return;
+    }
+
+    const exactDiff = isExactDiffOf(diffResult, leftInput, rightInput, diffOptions)
+      ? diffResult
+      : computeLineByLineDiff(leftInput, rightInput, { diffAlgorithm: diffOptions.diffAlgorithm });
+    if (!exactDiff.hasChanges) {
+      showAlertMessage('Nothing to Export', 'The inputs are identical.');
+      return;
+    }
+
+    try {
+      const extension = format === 'json' ? 'json' : format === 'xml' ? 'xml' : 'txt';
+      const patch = formatUnifiedDiff(exactDiff, {
+        leftName: `left-content.${extension}`,
+        rightName: `right-content.${extension}`,
+        contextLines,
+      });
+
+      const blob = new Blob([patch], { type: 'text/x-diff' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'comparison.patch';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch {
+      showAlertMessage('Error Downloading Patch', 'Failed to download the patch. Please try again.');
+    }
+  }, [diffResult, leftInput, rightInput, diffOptions, format, contextLines, showAlertMessage]);
+
+  // JSON Patch (RFC 6902) that turns the left JSON into the right one
+  // Always exact: comparison options such as ignoring key order do not apply to patches
+  const buildJSONPatch = useCallback((): string | null => {
+    try {
+      return formatJSONPatch(generateJSONPatch(parseJSONValue(leftInput), parseJSONValue(rightInput)));
+    } catch {
+      return null;
+    }
+  }, [leftInput, rightInput]);
+
+  const handleCopyJSONPatch = useCallback(async () => {
+    const patch = buildJSONPatch();
+    if (patch === null) {
+      showAlertMessage('Error Creating JSON Patch', 'Both inputs must be valid JSON.');
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(patch);
+    } catch {
+      showAlertMessage('Error Copying', 'Failed to copy the JSON Patch. Please try again.');
+    }
+  }, [buildJSONPatch, showAlertMessage]);
+
+  const handleDownloadJSONPatch = useCallback(() => {
+    const patch = buildJSONPatch();
+    if (patch === null) {
+      showAlertMessage('Error Creating JSON Patch', 'Both inputs must be valid JSON.');
+      return;
+    }
+
+    try {
+      const blob = new Blob([patch], { type: JSON_PATCH_MEDIA_TYPE });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'comparison.json-patch';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch {
+      showAlertMessage('Error Downloading Patch', 'Failed to download the JSON Patch. Please try again.');
+    }
+  }, [buildJSONPatch, showAlertMessage]);
+
+  // Apply patch functionality - opens modal via parent
+  const handleApplyPatchClick = useCallback(() => {
+    if (onShowPatchModal) {
+      onShowPatchModal();
+    }
+  }, [onShowPatchModal]);
+
+  // Apply a patch to the left input and put the patched text in the right panel
+  // JSON Patch and Merge Patch results are compared right away
+  const handleApplyPatch = useCallback((patchText: string, kind: PatchKind = 'unified'): PatchApplyResult => {
+    let result: PatchApplyResult;
+    try {
+      result = kind === 'unified' ? applyPatch(leftInput, patchText) : applyJSONPatchDocument(leftInput, patchText, kind);
+    } catch (error) {
+      // Report an unexpected failure like a patch that does not apply instead of breaking the page
+      return {
+        output: leftInput,
+        hunks: [],
+        appliedCount: 0,
+        rejectedCount: 0,
+        error: error instanceof Error ? error.message : 'Failed to apply the patch',
+      };
+    }
+    if (result.error) return result;
+
+    if (kind !== 'unified') {
+      if (result.output === rightInput) {
+        compare();
+      } else {
+        recompareRef.current = true;
+        setRightInput(result.output);
+      }
+    } else if (result.appliedCount > 0) {
+      setRightInput(result.output);
+    }
+    return result;
+  }, [leftInput, rightInput, setRightInput, compare]);
+
+  // Register the patch apply handler with parent
+  useEffect(() => {
+    if (onPatchApplyRef) {
+      onPatchApplyRef.current = handleApplyPatch;
+    }
+    return () => {
+      if (onPatchApplyRef) {
+        onPatchApplyRef.current = null;
+      }
+    };
+  }, [handleApplyPatch, onPatchApplyRef]);
+
   // Load URL functionality - opens modal via parent
   const handleLoadURLClick = useCallback(() => {
     if (onShowUrlModal) {
@@ -721,6 +1246,23 @@ Features:
 Created: ${new Date().toLocaleString()}`;
     }
 
+    // In merge mode, load the sample as base with a separate edit and one conflict on each side
+    if (isMergeMode) {
+      const title = 'This is a sample text document.';
+      setBaseInput(sampleData);
+      setLeftInput(
+        sampleData
+          .replace(title, 'This is a sample text document, edited on the left.')
+          .replace('- Case sensitive option', '- Case sensitive and insensitive options')
+      );
+      setRightInput(
+        sampleData
+          .replace(title, 'This is a sample text document, edited on the right.')
+          .replace('- Whitespace handling', '- Whitespace handling\n- Three-way merge')
+      );
+      return;
+    }
+
     // Load sample into left panel
     setLeftInput(sampleData);
 
@@ -728,7 +1270,7 @@ Created: ${new Date().toLocaleString()}`;
     if (!isValidationMode) {
       setRightInput(sampleData);
     }
-  }, [format, isValidationMode, setLeftInput, setRightInput]);
+  }, [format, isValidationMode, isMergeMode, setLeftInput, setRightInput, setBaseInput]);
 
   // getSampleUrl moved to index.tsx
 
@@ -742,6 +1284,7 @@ Created: ${new Date().toLocaleString()}`;
       'text-compare': 'Text Compare',
       'json-validate': 'JSON Validate',
       'xml-validate': 'XML Validate',
+      'text-merge': 'Text Merge',
     };
 
     return formatMap[componentType] || (isValidationMode ? 'Validation Options' : 'Comparison Options');
@@ -751,7 +1294,39 @@ Created: ${new Date().toLocaleString()}`;
   const rightError = rightValidation && !rightValidation.isValid ? rightValidation.error : null;
   const leftSuccess = leftValidation?.isValid || false;
   const rightSuccess = rightValidation?.isValid || false;
+  const leftWarnings = leftValidation?.isValid ? leftValidation.warnings ?? [] : [];
+  const rightWarnings = rightValidation?.isValid ? rightValidation.warnings ?? [] : [];
+  const leftErrorLocation = useMemo(() => currentErrorLocation(leftValidation, leftInput), [leftValidation, leftInput]);
+  const rightErrorLocation = useMemo(() => currentErrorLocation(rightValidation, rightInput), [rightValidation, rightInput]);
+  const leftHint = leftValidation && !leftValidation.isValid ? leftValidation.errors?.[0]?.hint : undefined;
+  const rightHint = rightValidation && !rightValidation.isValid ? rightValidation.errors?.[0]?.hint : undefined;
+
+  // Put the cursor on the offending character
+  const goToError = useCallback(
+    (textareaRef: React.RefObject<HTMLTextAreaElement | null>, error: ValidationError) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(error.offset, Math.min(error.offset + 1, textarea.value.length));
+    },
+    []
+  );
+
 
+  // Shown after block copies, also once the copies made both sides identical
+  const undoCopyButton = copyHistory.length > 0 && (
+    <ActionButton
+      onClick={handleUndoCopy}
+      title="Undo the last copied change"
+      aria-label="Undo the last copied change"
+    >
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polyline points="1 4 1 10 7 10"></polyline>
+        <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path>
+      </svg>
+      <span>Undo Copy ({copyHistory.length})</span>
+    </ActionButton>
+  );
 
   // Early return check AFTER all hooks (React Rules of Hooks requirement)
   if (!activeFormat) {
@@ -788,22 +1363,32 @@ Created: ${new Date().toLocaleString()}`;
                     </svg>
                     <span>Sample</span>
                   </ActionButton>
-                  {/* this Semantic is for feature purpose
-                {!isValidationMode && (
-                  <ToggleLabel>
-                    <ToggleSwitch
-                      checked={isSemantic}
-                      onChange={(e) => setIsSemantic(e.target.checked)}
-                    />
-                    <span>Semantic</span>
-                  </ToggleLabel>
-                )} */}
+                  {!isMergeMode && (
+                    <ActionButton onClick={handleApplyPatchClick} title="Apply a unified diff patch to the left input">
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+                        <polyline points="14 2 14 8 20 8"></polyline>
+                        <line x1="12" y1="11" x2="12" y2="17"></line>
+                        <line x1="9" y1="14" x2="15" y2="14"></line>
+                      </svg>
+                      <span>Apply Patch</span>
+                    </ActionButton>
+                  )}
+                  {format === 'json' && !isMergeMode && (
+                    <ToggleLabel title="Also list the changes by JSONPath">
+                      <ToggleSwitch
+                        checked={isSemantic}
+                        onChange={(e) => setIsSemantic(e.target.checked)}
+                      />
+                      <span>Semantic</span>
+                    </ToggleLabel>
+                  )}
                   <Button
                     onClick={handleCompare}
                     disabled={!canCompare || isComparing}
                     variant="primary"
                   >
-                    {isValidationMode ? 'Validate' : 'Compare'}
+                    {isValidationMode ? 'Validate' : isMergeMode ? 'Merge' : 'Compare'}
                   </Button>
                   <Button
                     onClick={handleReset}
@@ -817,39 +1402,109 @@ Created: ${new Date().toLocaleString()}`;
               </OptionsHeader>
               <OptionsContent>
                 <ToggleGroup>
-                  <ToggleLabel>
-                    <ToggleSwitch
-                      checked={diffOptions.ignoreWhitespace}
-                      onChange={(e) =>
-                        setDiffOptions({ ignoreWhitespace: e.target.checked })
-                      }
-                    />
-                    <span>Ignore Whitespace</span>
-                  </ToggleLabel>
-                  <ToggleLabel>
-                    <ToggleSwitch
-                      checked={diffOptions.caseSensitive}
-                      onChange={(e) =>
-                        setDiffOptions({ caseSensitive: e.target.checked })
-                      }
+                  {!isMergeMode && (
+                    <>
+                      <ToggleLabel>
+                        <ToggleSwitch
+                          checked={diffOptions.ignoreWhitespace}
+                          onChange={(e) =>
+                            setDiffOptions({ ignoreWhitespace: e.target.checked })
+                          }
+                        />
+                        <span>Ignore Whitespace</span>
+                      </ToggleLabel>
+                      <ToggleLabel>
+                        <ToggleSwitch
+                          checked={diffOptions.caseSensitive}
+                          onChange={(e) =>
+                            setDiffOptions({ caseSensitive: e.target.checked })
+                          }
+                        />
+                        <span>Case Sensitive</span>
+                      </ToggleLabel>
+                    </>
+                  )}
+                  <ToggleLabel style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                    <span>Algorithm:</span>
+                    <CustomSelect
+                      value={diffOptions.diffAlgorithm || 'myers'}
+                      options={[
+                        { value: 'myers', label: 'Myers' },
+                        { value: 'patience', label: 'Patience' },
+                        { value: 'histogram', label: 'Histogram' },
+                      ]}
+                      onChange={(value) => {
+                        setDiffOptions({ diffAlgorithm: value as DiffAlgorithm });
+                      }}
                     />
-                    <span>Case Sensitive</span>
                   </ToggleLabel>
-                  {format === 'text' && (
-                    <ToggleLabel style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
-                      <span>Compare Mode:</span>
-                      <CustomSelect
-                        value={diffOptions.textCompareMode || 'line'}
-                        options={[
-                          { value: 'line', label: 'Line Mode' },
-                          { value: 'word', label: 'Word Mode' },
-                        ]}
-                        onChange={(value) => {
-                          const mode = value as TextCompareMode;
-                          setDiffOptions({ textCompareMode: mode });
-                        }}
-                      />
-                    </ToggleLabel>
+                  {!isMergeMode && (
+                    <>
+                      <ToggleLabel style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                        <span>Context:</span>
+                        <CustomSelect
+                          value={Number.isFinite(contextLines) ? String(contextLines) : 'all'}
+                          options={[
+                            { value: '3', label: '3 lines' },
+                            { value: '5', label: '5 lines' },
+                            { value: '10', label: '10 lines' },
+                            { value: 'all', label: 'Show all' },
+                          ]}
+                          onChange={(value) => {
+                            setContextLines(value === 'all' ? Infinity : Number(value));
+                          }}
+                        />
+                      </ToggleLabel>
+                      <ToggleLabel title="Re-compare automatically while you type">
+                        <ToggleSwitch
+                          checked={liveDiff}
+                          onChange={(e) => setLiveDiff(e.target.checked)}
+                        />
+                        <span>Live Diff</span>
+                      </ToggleLabel>
+                      <ToggleLabel>
+                        <ToggleSwitch
+                          checked={!!diffOptions.detectMoves}
+                          onChange={(e) =>
+                            setDiffOptions({ detectMoves: e.target.checked })
+                          }
+                        />
+                        <span>Detect Moves</span>
+                      </ToggleLabel>
+                      {diffOptions.detectMoves && (
+                        <ToggleLabel style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                          <span>Min Block:</span>
+                          <CustomSelect
+                            value={String(diffOptions.minMoveSize || 3)}
+                            options={[
+                              { value: '2', label: '2 lines' },
+                              { value: '3', label: '3 lines' },
+                              { value: '5', label: '5 lines' },
+                              { value: '10', label: '10 lines' },
+                            ]}
+                            onChange={(value) => {
+                              setDiffOptions({ minMoveSize: Number(value) });
+                            }}
+                          />
+                        </ToggleLabel>
+                      )}
+                      {format === 'text' && (
+                        <ToggleLabel style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                          <span>Compare Mode:</span>
+                          <CustomSelect
+                            value={diffOptions.textCompareMode || 'line'}
+                            options={[
+                              { value: 'line', label: 'Line Mode' },
+                              { value: 'word', label: 'Word Mode' },
+                            ]}
+                            onChange={(value) => {
+                              const mode = value as TextCompareMode;
+                              setDiffOptions({ textCompareMode: mode });
+                            }}
+                          />
+                        </ToggleLabel>
+                      )}
+                    </>
                   )}
                   {format === 'json' && (
                     <>
@@ -871,6 +1526,73 @@ Created: ${new Date().toLocaleString()}`;
                         />
                         <span>Ignore Array Order</span>
                       </ToggleLabel>
+                      <PathRulesInput
+                        label="Identity Keys:"
+                        value={formatArrayIdentityKeys(diffOptions.arrayIdentityKeys || [])}
+                        placeholder="$.users[*]=id"
+                        title="Match array elements by a key member instead of by position, e.g. $.users[*]=id, $.orders[*]=orderId"
+                        onCommit={(text) => {
+                          const { rules, invalid } = parseArrayIdentityKeys(text);
+                          const changed = formatArrayIdentityKeys(rules) !== formatArrayIdentityKeys(diffOptions.arrayIdentityKeys || []);
+                          if (invalid.length === 0 && changed) {
+                            setDiffOptions({ arrayIdentityKeys: rules });
+                          }
+                          return invalid;
+                        }}
+                      />
+                      <PathRulesInput
+                        label="Ignore Paths:"
+                        value={formatIgnoredPaths(diffOptions.ignoredPaths || [])}
+                        placeholder="$..updatedAt, $.meta.*"
+                        title="Leave matching nodes out of the comparison; JSONPath or glob patterns such as $..updatedAt, $.meta.* or **.requestId"
+                        onCommit={(text) => {
+                          const { paths, invalid } = parseIgnoredPaths(text);
+                          const changed = formatIgnoredPaths(paths) !== formatIgnoredPaths(diffOptions.ignoredPaths || []);
+                          if (invalid.length === 0 && changed) {
+                            setDiffOptions({ ignoredPaths: paths });
+                          }
+                          return invalid;
+                        }}
+                      />
+                      <ToggleLabel title={'Treat 1, 1.0 and "1" as equal'}>
+                        <ToggleSwitch
+                          checked={!!diffOptions.looseTypes}
+                          onChange={(e) =>
+                            setDiffOptions({ looseTypes: e.target.checked })
+                          }
+                        />
+                        <span>Loose Types</span>
+                      </ToggleLabel>
+                      <ToggleLabel title="Treat a member set to null like a missing member">
+                        <ToggleSwitch
+                          checked={!!diffOptions.nullEqualsMissing}
+                          onChange={(e) =>
+                            setDiffOptions({ nullEqualsMissing: e.target.checked })
+                          }
+                        />
+                        <span>Null = Missing</span>
+                      </ToggleLabel>
+                      {(['absolute', 'relative'] as const).map((kind) => (
+                        <PathRulesInput
+                          key={kind}
+                          label={kind === 'absolute' ? 'Abs Tolerance:' : 'Rel Tolerance:'}
+                          value={diffOptions.numericTolerance?.[kind] ? String(diffOptions.numericTolerance[kind]) : ''}
+                          placeholder={kind === 'absolute' ? '1e-9' : '0.01'}
+                          title={kind === 'absolute'
+                            ? 'Numbers that differ by at most this much are equal'
+                            : 'Numbers that differ by at most this fraction of the larger one are equal'}
+                          width="90px"
+                          onCommit={(text) => {
+                            const value = text.trim() === '' ? 0 : Number(text);
+                            if (!Number.isFinite(value) || value < 0) return [text];
+                            const tolerance = { absolute: 0, relative: 0, ...diffOptions.numericTolerance, [kind]: value };
+                            setDiffOptions({
+                              numericTolerance: tolerance.absolute > 0 || tolerance.relative > 0 ? tolerance : undefined,
+                            });
+                            return [];
+                          }}
+                        />
+                      ))}
                     </>
                   )}
                   {format === 'xml' && (
@@ -913,6 +1635,18 @@ Created: ${new Date().toLocaleString()}`;
                     </svg>
                     <span>Sample</span>
                   </ActionButton>
+                  {format === 'json' && (
+                    <ActionButton
+                      onClick={handleRepair}
+                      disabled={!leftInput.trim()}
+                      title="Fix trailing commas, quotes, comments, missing commas and brackets"
+                    >
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z"></path>
+                      </svg>
+                      <span>Repair</span>
+                    </ActionButton>
+                  )}
                   <Button
                     onClick={handleCompare}
                     disabled={!canCompare || isComparing}
@@ -946,6 +1680,14 @@ Created: ${new Date().toLocaleString()}`;
               onChange={(e) => handleFileChange(e, 'right')}
             />
           )}
+          {isMergeMode && (
+            <HiddenFileInput
+              ref={baseFileInputRef}
+              type="file"
+              accept={getAcceptedExtensions().join(',')}
+              onChange={(e) => handleFileChange(e, 'base')}
+            />
+          )}
           <InputSection>
             <InputPanelWrapper>
               <InputPanel
@@ -1004,6 +1746,7 @@ Created: ${new Date().toLocaleString()}`;
                       <Loading />
                     </div>
                   )}
+                  <ErrorLineHighlight textareaRef={leftTextareaRef} text={leftInput} error={leftErrorLocation} />
                   <TextArea
                     ref={leftTextareaRef}
                     value={leftInput}
@@ -1019,11 +1762,78 @@ Created: ${new Date().toLocaleString()}`;
                   {leftSuccess && <StatusText type="success">Valid</StatusText>}
                 </PanelFooter>
               </InputPanel>
-              {leftError && <ErrorMessage>{leftError}</ErrorMessage>}
+              {leftError && (
+                <ErrorMessage>
+                  <div>
+                    {leftError}
+                    {leftHint && <ErrorHint>Hint: {leftHint}</ErrorHint>}
+                  </div>
+                  {leftErrorLocation && (
+                    <ErrorLocationButton type="button" onClick={() => goToError(leftTextareaRef, leftErrorLocation)}>
+                      Line {leftErrorLocation.line}, column {leftErrorLocation.column}
+                    </ErrorLocationButton>
+                  )}
+                </ErrorMessage>
+              )}
+              {leftWarnings.length > 0 && (
+                <WarningMessage>
+                  {leftWarnings.length === 1 ? '1 warning' : `${leftWarnings.length} warnings`}
+                  <ul>
+                    {leftWarnings.map((warning) => <li key={warning}>{warning}</li>)}
+                  </ul>
+                </WarningMessage>
+              )}
               {leftSuccess && !isValidationMode && rightError && (
                 <SuccessMessage>Left Panel {format === 'json' ? 'JSON' : format === 'xml' ? 'XML' : 'Text'} Content is valid</SuccessMessage>
               )}
             </InputPanelWrapper>
+            {isMergeMode && (
+              <InputPanelWrapper>
+                <InputPanel
+                  $isDragOver={baseDragDropHandlers.isDragOver}
+                  onDragEnter={baseDragDropHandlers.onDragEnter}
+                  onDragOver={baseDragDropHandlers.onDragOver}
+                  onDragLeave={baseDragDropHandlers.onDragLeave}
+                  onDrop={baseDragDropHandlers.onDrop}
+                >
+                  {baseDragDropHandlers.isDragOver && (
+                    <DragOverlay>
+                      <div>Drop file here to load content</div>
+                    </DragOverlay>
+                  )}
+                  <PanelHeader>
+                    <span>BASE</span>
+                    <PanelActions>
+                      <ActionButton onClick={() => handleUpload('base')} title="Upload file">
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                          <polyline points="17 8 12 3 7 8"></polyline>
+                          <line x1="12" y1="3" x2="12" y2="15"></line>
+                        </svg>
+                        <span>Upload</span>
+                      </ActionButton>
+                    </PanelActions>
+                  </PanelHeader>
+                  <TextAreaContainer>
+                    {isUploadingBase && (
+                      <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', zIndex: 10 }}>
+                        <Loading />
+                      </div>
+                    )}
+                    <TextArea
+                      value={baseInput}
+                      onChange={(e) => setBaseInput(e.target.value)}
+                      placeholder="Paste the common ancestor of both versions here... (or drag and drop a file)"
+                      spellCheck={false}
+                      style={{ opacity: isUploadingBase ? 0.5 : 1 }}
+                    />
+                  </TextAreaContainer>
+                  <PanelFooter>
+                    <span>Size: {formatSize(baseInput)}</span>
+                  </PanelFooter>
+                </InputPanel>
+              </InputPanelWrapper>
+            )}
             {!isValidationMode && (
               <InputPanelWrapper>
                 <InputPanel
@@ -1082,6 +1892,7 @@ Created: ${new Date().toLocaleString()}`;
                         <Loading />
                       </div>
                     )}
+                    <ErrorLineHighlight textareaRef={rightTextareaRef} text={rightInput} error={rightErrorLocation} />
                     <TextArea
                       ref={rightTextareaRef}
                       value={rightInput}
@@ -1097,7 +1908,27 @@ Created: ${new Date().toLocaleString()}`;
                     {rightSuccess && <StatusText type="success">Valid</StatusText>}
                   </PanelFooter>
                 </InputPanel>
-                {rightError && <ErrorMessage>{rightError}</ErrorMessage>}
+                {rightError && (
+                  <ErrorMessage>
+                    <div>
+                      {rightError}
+                      {rightHint && <ErrorHint>Hint: {rightHint}</ErrorHint>}
+                    </div>
+                    {rightErrorLocation && (
+                      <ErrorLocationButton type="button" onClick={() => goToError(rightTextareaRef, rightErrorLocation)}>
+                        Line {rightErrorLocation.line}, column {rightErrorLocation.column}
+                      </ErrorLocationButton>
+                    )}
+                  </ErrorMessage>
+                )}
+                {rightWarnings.length > 0 && (
+                  <WarningMessage>
+                    {rightWarnings.length === 1 ? '1 warning' : `${rightWarnings.length} warnings`}
+                    <ul>
+                      {rightWarnings.map((warning) => <li key={warning}>{warning}</li>)}
+                    </ul>
+                  </WarningMessage>
+                )}
                 {rightSuccess && leftError && (
                   <SuccessMessage>Right Panel {format === 'json' ? 'JSON' : format === 'xml' ? 'XML' : 'Text'} Content is valid</SuccessMessage>
                 )}
@@ -1105,16 +1936,30 @@ Created: ${new Date().toLocaleString()}`;
             )}
           </InputSection>
 
+          {isValidationMode && repairPreview && repairPreview.input === leftInput && (
+            <RepairView
+              input={repairPreview.input}
+              result={repairPreview.result}
+              onAccept={handleAcceptRepair}
+              onDiscard={() => setRepairPreview(null)}
+            />
+          )}
           {isValidationMode && leftSuccess && leftInput.trim() && (
             <NoDifferencesMessage>
               Valid {format === 'json' ? 'JSON' : format === 'xml' ? 'XML' : 'Text'} - The content is valid and properly formatted.
             </NoDifferencesMessage>
           )}
+          {!isValidationMode && structuralDiff && <ChangesView result={structuralDiff} />}
+          {!isValidationMode && mergePatch && diffResult?.hasChanges && (
+            <MergePatchView result={mergePatch} onShowAlert={showAlertMessage} />
+          )}
           {!isValidationMode && diffResult && (
             <>
               {!diffResult.hasChanges ? (
                 <NoDifferencesMessage>
                   No Differences Found - The {format === 'json' ? 'JSON' : format === 'xml' ? 'XML' : 'text'} objects are identical.
+                  {!!ignoredDifferences && ` ${ignoredDifferences} difference${ignoredDifferences !== 1 ? 's' : ''} in ignored paths.`}
+                  {undoCopyButton}
                 </NoDifferencesMessage>
               ) : (
                 <>
@@ -1136,30 +1981,106 @@ Created: ${new Date().toLocaleString()}`;
                         <StatLabel>CHANGED</StatLabel>
                         <StatValue type="changed">{formatStatValue(stats?.changed || 0, 'changed')}</StatValue>
                       </StatItem>
+                      {!!stats?.moved && (
+                        <StatItem>
+                          <StatLabel>MOVED</StatLabel>
+                          <StatValue type="moved">{formatStatValue(stats.moved, 'moved')}</StatValue>
+                        </StatItem>
+                      )}
+                      {!!ignoredDifferences && (
+                        <StatItem title="Differences inside ignored paths, left out of the results">
+                          <StatLabel>IGNORED</StatLabel>
+                          <StatValue>{ignoredDifferences}</StatValue>
+                        </StatItem>
+                      )}
+                      <ActionButton
+                        onClick={handleDownloadPatch}
+                        title="Download the differences between the inputs as typed as a unified diff"
+                        aria-label="Download comparison as a patch file"
+                      >
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                          <polyline points="7 10 12 15 17 10"></polyline>
+                          <line x1="12" y1="15" x2="12" y2="3"></line>
+                        </svg>
+                        <span>Download .patch</span>
+                      </ActionButton>
+                      {format === 'json' && (
+                        <>
+                          <ActionButton
+                            onClick={handleCopyJSONPatch}
+                            title="Copy an RFC 6902 JSON Patch that turns the left JSON into the right one"
+                          >
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                              <rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect>
+                              <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
+                            </svg>
+                            <span>Copy JSON Patch</span>
+                          </ActionButton>
+                          <ActionButton
+                            onClick={handleDownloadJSONPatch}
+                            title="Download an RFC 6902 JSON Patch that turns the left JSON into the right one"
+                          >
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                              <polyline points="7 10 12 15 17 10"></polyline>
+                              <line x1="12" y1="15" x2="12" y2="3"></line>
+                            </svg>
+                            <span>Download JSON Patch</span>
+                          </ActionButton>
+                        </>
+                      )}
+                      <ActionButton
+                        onClick={() => setSyncScroll((prev) => !prev)}
+                        title={syncScroll ? 'Scroll the panels independently' : 'Scroll both panels together'}
+                        aria-pressed={syncScroll}
+                      >
+                        {syncScroll ? (
+                          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                            <path d="M7 11V7a5 5 0 0 1 10 0v4"></path>
+                          </svg>
+                        ) : (
+                          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                            <path d="M7 11V7a5 5 0 0 1 9.9-1"></path>
+                          </svg>
+                        )}
+                        <span>{syncScroll ? 'Scroll Locked' : 'Scroll Unlocked'}</span>
+                      </ActionButton>
+                      {undoCopyButton}
                     </SummaryStats>
                   </SummaryBar>
                   <ComparisonSection>
                     <DiffPanel>
                       <DiffHeader>Left</DiffHeader>
-                      <DiffContent>
-                        {diffResult.leftLines.map(renderDiffLine)}
-                      </DiffContent>
+                      {renderDiffPanel('left')}
                     </DiffPanel>
                     <DiffPanel>
                       <DiffHeader>Right</DiffHeader>
-                      <DiffContent>
-                        {diffResult.rightLines.map(renderDiffLine)}
-                      </DiffContent>
+                      {renderDiffPanel('right')}
                     </DiffPanel>
                   </ComparisonSection>
                 </>
               )}
             </>
           )}
+          {isMergeMode && mergeResult && (
+            <MergeView result={mergeResult} onCopy={handleCopyMerged} onDownload={handleDownloadMerged} />
+          )}
         </MainContent>
       </Container>
       {isComparing && (
-        <Loading message={isValidationMode ? 'Validating...' : 'Comparing...'} />
+        <Loading
+          message={
+            isValidationMode ? 'Validating...'
+              : isMergeMode ? 'Merging...'
+              : progress ? COMPARISON_PHASE_LABELS[progress.phase]
+              : 'Comparing...'
+          }
+          progress={progress?.percent}
+          onCancel={cancelCompare}
+        />
       )}
     </>
   );
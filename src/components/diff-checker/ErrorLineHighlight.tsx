@@ -0,0 +1,82 @@
+/**
+ * Error Line Highlight Component
+ *
+ * Marks the line of a syntax error in an input textarea. A backdrop behind
+ * the (transparent) textarea lays out the text up to the error the same way,
+ * so the mark lands on the right line even when long lines wrap; it follows
+ * the textarea's scroll position. When the error moves, an error outside the
+ * visible area is scrolled into view.
+ */
+
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { EditorBackdrop, ErrorLineMark } from './DiffChecker.styles';
+import type { ValidationError } from '../../types/common';
+
+interface ErrorLineHighlightProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  text: string;
+  error: ValidationError | null;
+}
+
+export const ErrorLineHighlight: React.FC<ErrorLineHighlightProps> = ({ textareaRef, text, error }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const markRef = useRef<HTMLDivElement>(null);
+
+  // The text before the error line and the line itself
+  const location = useMemo(() => {
+    if (!error) return null;
+    const offset = Math.min(error.offset, text.length);
+    const start = text.lastIndexOf('\n', offset - 1) + 1;
+    const end = text.indexOf('\n', offset);
+    return {
+      before: text.slice(0, start),
+      line: text.slice(start, end === -1 ? text.length : end),
+    };
+  }, [text, error]);
+
+  const hasError = location !== null;
+
+  const syncScroll = useCallback(() => {
+    const textarea = textareaRef.current;
+    const backdrop = backdropRef.current;
+    if (!textarea || !backdrop) return;
+    backdrop.scrollTop = textarea.scrollTop;
+    backdrop.scrollLeft = textarea.scrollLeft;
+  }, [textareaRef]);
+
+  useLayoutEffect(() => {
+    syncScroll();
+  });
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !hasError) return;
+    textarea.addEventListener('scroll', syncScroll);
+    return () => textarea.removeEventListener('scroll', syncScroll);
+  }, [textareaRef, syncScroll, hasError]);
+
+  // Scroll to a new error unless it is already in view
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    const mark = markRef.current;
+    if (!textarea || !mark) return;
+    const top = mark.offsetTop;
+    const bottom = top + mark.offsetHeight;
+    if (top < textarea.scrollTop || bottom > textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+      syncScroll();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [error?.line, error?.message]);
+
+  if (!error || !location) return null;
+
+  return (
+    <EditorBackdrop ref={backdropRef} aria-hidden="true">
+      {location.before}
+      <ErrorLineMark ref={markRef}>
+        {location.line || ' '}
+      </ErrorLineMark>
+    </EditorBackdrop>
+  );
+};
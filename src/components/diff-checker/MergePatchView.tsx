@@ -0,0 +1,128 @@
+/**
+ * Merge Patch View Component
+ *
+ * Shows the JSON Merge Patch (RFC 7386) that turns the left JSON into the
+ * right one, with copy/download actions and the changes it cannot express
+ */
+
+import React, { useCallback, useMemo } from 'react';
+import {
+  SummaryBar,
+  SummaryTitle,
+  SummaryStats,
+  DifferencesBadge,
+  ActionButton,
+  ChangesSection,
+  ChangesList,
+  ChangeRow,
+  ChangeTypeTag,
+  ChangePath,
+  ChangeValues,
+  MergePatchCode,
+} from './DiffChecker.styles';
+import {
+  formatMergePatch,
+  JSON_MERGE_PATCH_MEDIA_TYPE,
+  MergePatchLimitationType,
+  MergePatchResult,
+} from '../../utils/jsonMergePatch';
+
+interface MergePatchViewProps {
+  result: MergePatchResult;
+  onShowAlert: (title: string, message: string) => void;
+}
+
+const LIMITATION_DETAILS: Record<MergePatchLimitationType, { label: string; description: string }> = {
+  arrayReplaced: {
+    label: 'Array',
+    description: 'Array elements cannot be patched one by one; the patch replaces the whole array',
+  },
+  nullValue: {
+    label: 'Null',
+    description: 'A null in a merge patch deletes the member, so this null value is left out of the patch',
+  },
+};
+
+export const MergePatchView: React.FC<MergePatchViewProps> = ({ result, onShowAlert }) => {
+  const text = useMemo(() => formatMergePatch(result.patch), [result]);
+  const count = result.limitations.length;
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      onShowAlert('Error Copying', 'Failed to copy the Merge Patch. Please try again.');
+    }
+  }, [text, onShowAlert]);
+
+  const handleDownload = useCallback(() => {
+    try {
+      const blob = new Blob([text], { type: JSON_MERGE_PATCH_MEDIA_TYPE });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'comparison.merge-patch.json';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch {
+      onShowAlert('Error Downloading Patch', 'Failed to download the Merge Patch. Please try again.');
+    }
+  }, [text, onShowAlert]);
+
+  return (
+    <>
+      <SummaryBar>
+        <SummaryTitle>Merge Patch</SummaryTitle>
+        <SummaryStats>
+          <DifferencesBadge>
+            {count === 0
+              ? 'Expresses every change'
+              : `${count} limitation${count !== 1 ? 's' : ''}${result.isExact ? '' : ' — not exact'}`}
+          </DifferencesBadge>
+          <ActionButton
+            onClick={handleCopy}
+            title="Copy an RFC 7386 Merge Patch that turns the left JSON into the right one"
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect>
+              <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
+            </svg>
+            <span>Copy Merge Patch</span>
+          </ActionButton>
+          <ActionButton
+            onClick={handleDownload}
+            title="Download an RFC 7386 Merge Patch that turns the left JSON into the right one"
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+              <polyline points="7 10 12 15 17 10"></polyline>
+              <line x1="12" y1="15" x2="12" y2="3"></line>
+            </svg>
+            <span>Download Merge Patch</span>
+          </ActionButton>
+        </SummaryStats>
+      </SummaryBar>
+      <ChangesSection>
+        <MergePatchCode aria-label="Merge patch">{text}</MergePatchCode>
+        {count > 0 && (
+          <ChangesList aria-label="Merge patch limitations">
+            {result.limitations.map((limitation, index) => (
+              <ChangeRow
+                key={`${limitation.path}-${index}`}
+                $type={limitation.type === 'nullValue' ? 'removed' : 'valueChanged'}
+              >
+                <ChangeTypeTag $type={limitation.type === 'nullValue' ? 'removed' : 'valueChanged'}>
+                  {LIMITATION_DETAILS[limitation.type].label}
+                </ChangeTypeTag>
+                <ChangePath>{limitation.path}</ChangePath>
+                <ChangeValues>{LIMITATION_DETAILS[limitation.type].description}</ChangeValues>
+              </ChangeRow>
+            ))}
+          </ChangesList>
+        )}
+      </ChangesSection>
+    </>
+  );
+};
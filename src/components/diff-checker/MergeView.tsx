@@ -0,0 +1,289 @@
+/**
+ * Merge View Component
+ *
+ * Renders the regions of a three-way merge with per-conflict controls
+ * (take left / right / both, or edit by hand) and the resulting merged output
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  SummaryBar,
+  SummaryTitle,
+  SummaryStats,
+  DifferencesBadge,
+  StatItem,
+  StatLabel,
+  StatValue,
+  ActionButton,
+  PanelActions,
+  DiffPanel,
+  DiffHeader,
+  DiffContent,
+  CollapsedLines,
+  MergeSection,
+  MergeRegionList,
+  MergeBlock,
+  MergeBlockHeader,
+  MergeLines,
+  ConflictColumns,
+  ConflictColumn,
+  ConflictColumnTitle,
+  ConflictActions,
+  ConflictButton,
+  ConflictEditor,
+} from './DiffChecker.styles';
+import {
+  buildMergedText,
+  resolveRegion,
+  ConflictChoice,
+  ConflictResolution,
+  MergeRegion,
+  MergeResult,
+} from '../../utils/threeWayMerge';
+import { DEFAULT_CONTEXT_LINES } from '../../utils/diffHunks';
+
+interface MergeViewProps {
+  result: MergeResult;
+  onCopy: (text: string) => void;
+  onDownload: (text: string) => void;
+}
+
+const REGION_LABELS: Record<Exclude<MergeRegion['type'], 'unchanged' | 'conflict'>, string> = {
+  left: 'Changed in left',
+  right: 'Changed in right',
+  both: 'Same change in both',
+};
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  left: 'Take Left',
+  right: 'Take Right',
+  both: 'Take Both',
+  edit: 'Edit',
+};
+
+const formatLines = (lines: string[]): string => (lines.length > 0 ? lines.join('\n') : ' ');
+
+export const MergeView: React.FC<MergeViewProps> = ({ result, onCopy, onDownload }) => {
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({});
+  const [editing, setEditing] = useState<{ conflictIndex: number; text: string } | null>(null);
+  const [expandedRegions, setExpandedRegions] = useState<Set<number>>(new Set());
+
+  // A new merge invalidates every previous resolution
+  useEffect(() => {
+    setResolutions({});
+    setEditing(null);
+    setExpandedRegions(new Set());
+  }, [result]);
+
+  const mergedText = useMemo(() => buildMergedText(result, resolutions), [result, resolutions]);
+  const resolvedCount = Object.keys(resolutions).length;
+  const unresolvedCount = result.conflictCount - resolvedCount;
+
+  const autoMerged = useMemo(() => {
+    const counts = { left: 0, right: 0, both: 0 };
+    result.regions.forEach((region) => {
+      if (region.type === 'left' || region.type === 'right' || region.type === 'both') {
+        counts[region.type]++;
+      }
+    });
+    return counts;
+  }, [result]);
+
+  const handleChoice = useCallback((region: MergeRegion, choice: ConflictChoice) => {
+    const conflictIndex = region.conflictIndex!;
+    if (choice === 'edit') {
+      const current = resolveRegion(region, resolutions[conflictIndex]);
+      setEditing({ conflictIndex, text: current.join('\n') });
+      return;
+    }
+    setEditing(null);
+    setResolutions((prev) => ({ ...prev, [conflictIndex]: { choice } }));
+  }, [resolutions]);
+
+  const handleSaveEdit = useCallback(() => {
+    if (!editing) return;
+    setResolutions((prev) => ({
+      ...prev,
+      [editing.conflictIndex]: { choice: 'edit', text: editing.text },
+    }));
+    setEditing(null);
+  }, [editing]);
+
+  const handleUndoResolution = useCallback((conflictIndex: number) => {
+    setResolutions((prev) => {
+      const next = { ...prev };
+      delete next[conflictIndex];
+      return next;
+    });
+  }, []);
+
+  const renderUnchanged = (region: MergeRegion, regionIndex: number) => {
+    const lines = region.base;
+    const isFirst = regionIndex === 0;
+    const isLast = regionIndex === result.regions.length - 1;
+    const context = DEFAULT_CONTEXT_LINES;
+    const keepBefore = isFirst ? 0 : context;
+    const keepAfter = isLast ? 0 : context;
+    const hidden = lines.length - keepBefore - keepAfter;
+
+    if (hidden <= 0 || expandedRegions.has(regionIndex)) {
+      return <MergeLines>{formatLines(lines)}</MergeLines>;
+    }
+
+    return (
+      <>
+        {keepBefore > 0 && <MergeLines>{lines.slice(0, keepBefore).join('\n')}</MergeLines>}
+        <CollapsedLines
+          onClick={() => setExpandedRegions((prev) => new Set(prev).add(regionIndex))}
+          title="Show hidden unchanged lines"
+        >
+          ↕ Expand {hidden} unchanged line{hidden !== 1 ? 's' : ''}
+        </CollapsedLines>
+        {keepAfter > 0 && <MergeLines>{lines.slice(lines.length - keepAfter).join('\n')}</MergeLines>}
+      </>
+    );
+  };
+
+  const renderConflict = (region: MergeRegion) => {
+    const conflictIndex = region.conflictIndex!;
+    const resolution = resolutions[conflictIndex];
+    const isEditing = editing?.conflictIndex === conflictIndex;
+
+    return (
+      <>
+        <MergeBlockHeader>
+          <span>
+            Conflict {conflictIndex + 1}
+            {resolution ? ` — resolved (${CHOICE_LABELS[resolution.choice].toLowerCase()})` : ''}
+          </span>
+          <ConflictActions>
+            {(Object.keys(CHOICE_LABELS) as ConflictChoice[]).map((choice) => (
+              <ConflictButton
+                key={choice}
+                type="button"
+                $active={isEditing ? choice === 'edit' : resolution?.choice === choice}
+                onClick={() => handleChoice(region, choice)}
+              >
+                {CHOICE_LABELS[choice]}
+              </ConflictButton>
+            ))}
+            {resolution && (
+              <ConflictButton type="button" onClick={() => handleUndoResolution(conflictIndex)}>
+                Undo
+              </ConflictButton>
+            )}
+          </ConflictActions>
+        </MergeBlockHeader>
+        <ConflictColumns>
+          <ConflictColumn>
+            <ConflictColumnTitle>Left</ConflictColumnTitle>
+            <MergeLines>{formatLines(region.left)}</MergeLines>
+          </ConflictColumn>
+          <ConflictColumn $muted>
+            <ConflictColumnTitle>Base</ConflictColumnTitle>
+            <MergeLines>{formatLines(region.base)}</MergeLines>
+          </ConflictColumn>
+          <ConflictColumn>
+            <ConflictColumnTitle>Right</ConflictColumnTitle>
+            <MergeLines>{formatLines(region.right)}</MergeLines>
+          </ConflictColumn>
+        </ConflictColumns>
+        {isEditing && (
+          <>
+            <ConflictEditor
+              value={editing.text}
+              onChange={(e) => setEditing({ conflictIndex, text: e.target.value })}
+              spellCheck={false}
+              autoFocus
+            />
+            <MergeBlockHeader>
+              <span />
+              <ConflictActions>
+                <ConflictButton type="button" onClick={() => setEditing(null)}>
+                  Cancel
+                </ConflictButton>
+                <ConflictButton type="button" $active onClick={handleSaveEdit}>
+                  Save
+                </ConflictButton>
+              </ConflictActions>
+            </MergeBlockHeader>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <SummaryBar>
+        <SummaryTitle>Merge Results</SummaryTitle>
+        <SummaryStats>
+          <DifferencesBadge>
+            {result.conflictCount === 0
+              ? 'No conflicts'
+              : `${unresolvedCount} of ${result.conflictCount} conflict${result.conflictCount !== 1 ? 's' : ''} unresolved`}
+          </DifferencesBadge>
+          <StatItem>
+            <StatLabel>FROM LEFT</StatLabel>
+            <StatValue type="added">{autoMerged.left}</StatValue>
+          </StatItem>
+          <StatItem>
+            <StatLabel>FROM RIGHT</StatLabel>
+            <StatValue type="added">{autoMerged.right}</StatValue>
+          </StatItem>
+          <StatItem>
+            <StatLabel>BOTH</StatLabel>
+            <StatValue type="moved">{autoMerged.both}</StatValue>
+          </StatItem>
+          <StatItem>
+            <StatLabel>CONFLICTS</StatLabel>
+            <StatValue type={unresolvedCount > 0 ? 'removed' : undefined}>{result.conflictCount}</StatValue>
+          </StatItem>
+        </SummaryStats>
+      </SummaryBar>
+      <MergeSection>
+        <MergeRegionList>
+          {result.regions.map((region, regionIndex) => (
+            <MergeBlock key={regionIndex} $type={region.type}>
+              {region.type === 'unchanged' && renderUnchanged(region, regionIndex)}
+              {region.type === 'conflict' && renderConflict(region)}
+              {(region.type === 'left' || region.type === 'right' || region.type === 'both') && (
+                <>
+                  <MergeBlockHeader>{REGION_LABELS[region.type]}</MergeBlockHeader>
+                  <MergeLines>{formatLines(resolveRegion(region))}</MergeLines>
+                </>
+              )}
+            </MergeBlock>
+          ))}
+        </MergeRegionList>
+        <DiffPanel>
+          <DiffHeader>
+            <MergeBlockHeader style={{ padding: 0 }}>
+              <span>Merged Output{unresolvedCount > 0 ? ' (contains conflict markers)' : ''}</span>
+              <PanelActions>
+                <ActionButton onClick={() => onCopy(mergedText)} title="Copy merged output to clipboard">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect>
+                    <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
+                  </svg>
+                  <span>Copy</span>
+                </ActionButton>
+                <ActionButton onClick={() => onDownload(mergedText)} title="Download merged output">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                    <polyline points="7 10 12 15 17 10"></polyline>
+                    <line x1="12" y1="15" x2="12" y2="3"></line>
+                  </svg>
+                  <span>Download</span>
+                </ActionButton>
+              </PanelActions>
+            </MergeBlockHeader>
+          </DiffHeader>
+          <DiffContent>
+            <MergeLines>{mergedText}</MergeLines>
+          </DiffContent>
+        </DiffPanel>
+      </MergeSection>
+    </>
+  );
+};
@@ -0,0 +1,59 @@
+/**
+ * Path Rules Input Component
+ *
+ * Text field for comparison options that are typed in and parsed, such as
+ * lists of JSONPath rules or tolerances. The text is committed on blur or
+ * Enter; entries the parser rejects are marked on the field and the option
+ * stays as it was.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ToggleLabel, OptionTextInput } from './DiffChecker.styles';
+
+interface PathRulesInputProps {
+  label: string;
+  value: string; // The committed rules, formatted
+  placeholder: string;
+  title?: string;
+  width?: string;
+  onCommit: (text: string) => string[]; // Returns the invalid entries
+}
+
+export const PathRulesInput: React.FC<PathRulesInputProps> = ({ label, value, placeholder, title, width, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+  const [invalid, setInvalid] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraft(value);
+    setInvalid([]);
+  }, [value]);
+
+  const commit = () => {
+    if (draft === value) return;
+    setInvalid(onCommit(draft));
+  };
+
+  return (
+    <ToggleLabel title={title} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+      <span>{label}</span>
+      <OptionTextInput
+        type="text"
+        value={draft}
+        placeholder={placeholder}
+        spellCheck={false}
+        style={width ? { width } : undefined}
+        $invalid={invalid.length > 0}
+        aria-invalid={invalid.length > 0}
+        title={invalid.length > 0 ? `Invalid: ${invalid.join(', ')}` : undefined}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setInvalid([]);
+        }}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+      />
+    </ToggleLabel>
+  );
+};
@@ -0,0 +1,135 @@
+/**
+ * Repair View Component
+ *
+ * Shows the repairs the JSON corrector suggests for an invalid input: the
+ * list of fixes and a unified diff of the input against the repaired text.
+ * Accepting replaces the input with the repaired text.
+ */
+
+import React, { useMemo } from 'react';
+import {
+  SummaryBar,
+  SummaryTitle,
+  SummaryStats,
+  DifferencesBadge,
+  ActionButton,
+  ChangesSection,
+  ChangesList,
+  ChangeRow,
+  ChangeTypeTag,
+  ChangePath,
+  ChangeValues,
+  RepairDiff,
+  RepairHunkHeader,
+  RepairDiffLine,
+} from './DiffChecker.styles';
+import { computeLineByLineDiff } from '../../utils/diffChecker';
+import { buildDiffRows, groupRowsIntoHunks } from '../../utils/diffHunks';
+import type { JSONRepairResult, JSONRepairType } from '../../utils/jsonRepair';
+
+interface RepairViewProps {
+  input: string;
+  result: JSONRepairResult;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+// Unchanged lines shown around each repair
+const CONTEXT_LINES = 2;
+
+const REPAIR_DETAILS: Record<JSONRepairType, { label: string; tag: 'added' | 'removed' | 'valueChanged' }> = {
+  trailingComma: { label: 'Comma', tag: 'removed' },
+  singleQuotes: { label: 'Quotes', tag: 'valueChanged' },
+  unquotedKey: { label: 'Key', tag: 'valueChanged' },
+  comment: { label: 'Comment', tag: 'removed' },
+  missingComma: { label: 'Comma', tag: 'added' },
+  controlCharacter: { label: 'Escape', tag: 'valueChanged' },
+  pythonLiteral: { label: 'Literal', tag: 'valueChanged' },
+  truncated: { label: 'Truncated', tag: 'added' },
+};
+
+export const RepairView: React.FC<RepairViewProps> = ({ input, result, onAccept, onDiscard }) => {
+  const hunks = useMemo(() => {
+    const rows = buildDiffRows(computeLineByLineDiff(input, result.output));
+    return groupRowsIntoHunks(rows, CONTEXT_LINES);
+  }, [input, result]);
+
+  const count = result.repairs.length;
+
+  return (
+    <>
+      <SummaryBar>
+        <SummaryTitle>Suggested Repair</SummaryTitle>
+        <SummaryStats>
+          <DifferencesBadge>
+            {`${count} repair${count !== 1 ? 's' : ''}`}
+            {result.isValid ? '' : ' — still not valid JSON'}
+          </DifferencesBadge>
+          <ActionButton onClick={onAccept} title="Replace the input with the repaired JSON">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="20 6 9 17 4 12"></polyline>
+            </svg>
+            <span>Accept Repair</span>
+          </ActionButton>
+          <ActionButton onClick={onDiscard} title="Keep the input as it is">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+            <span>Discard</span>
+          </ActionButton>
+        </SummaryStats>
+      </SummaryBar>
+      <ChangesSection>
+        <RepairDiff aria-label="Repaired JSON compared to the input">
+          {hunks.map((hunk) => (
+            <React.Fragment key={`${hunk.leftStart}-${hunk.rightStart}`}>
+              <RepairHunkHeader>
+                @@ -{hunk.leftStart},{hunk.leftCount} +{hunk.rightStart},{hunk.rightCount} @@
+              </RepairHunkHeader>
+              {hunk.lines.map((row, index) => {
+                if (row.left && row.right && row.left.type === 'unchanged') {
+                  return (
+                    <RepairDiffLine key={index} $type="unchanged">
+                      <span>{row.left.lineNumber}</span>
+                      <span>{` ${row.left.content}`}</span>
+                    </RepairDiffLine>
+                  );
+                }
+                return (
+                  <React.Fragment key={index}>
+                    {row.left && (
+                      <RepairDiffLine $type="removed">
+                        <span>{row.left.lineNumber}</span>
+                        <span>{`-${row.left.content}`}</span>
+                      </RepairDiffLine>
+                    )}
+                    {row.right && (
+                      <RepairDiffLine $type="added">
+                        <span>{row.right.lineNumber}</span>
+                        <span>{`+${row.right.content}`}</span>
+                      </RepairDiffLine>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </RepairDiff>
+        {count > 0 && (
+          <ChangesList aria-label="Repairs">
+            {result.repairs.map((repair, index) => (
+              <ChangeRow key={`${repair.line}-${repair.column}-${index}`} $type={REPAIR_DETAILS[repair.type].tag}>
+                <ChangeTypeTag $type={REPAIR_DETAILS[repair.type].tag}>{REPAIR_DETAILS[repair.type].label}</ChangeTypeTag>
+                <ChangePath>
+                  Line {repair.line}, column {repair.column}
+                </ChangePath>
+                <ChangeValues>{repair.description}</ChangeValues>
+              </ChangeRow>
+            ))}
+          </ChangesList>
+        )}
+      </ChangesSection>
+    </>
+  );
+};
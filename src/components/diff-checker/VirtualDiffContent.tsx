@@ -1,79 +1,46 @@
 /**
  * Virtual Diff Content Component
- * 
+ *
  * Implements native virtual scrolling without external libraries
- * Only renders visible lines for optimal performance
+ * Only renders visible rows for optimal performance. Row heights are measured
+ * after render, so wrapped lines of any height are supported; panels that share
+ * a RowHeightCache give every row the height of its tallest side and therefore
+ * stay aligned row for row.
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
 import styled from 'styled-components';
-import type { DiffLine as DiffLineType } from '../../utils/diffChecker';
+import { DiffContent } from './DiffChecker.styles';
 
-const ITEM_HEIGHT = 24; // Height of each line in pixels
+const ITEM_HEIGHT = 24; // Estimated height of a row that has not been measured yet
 const BUFFER_SIZE = 20; // Number of extra items to render above/below viewport
-const SCROLL_THROTTLE = 16; // ~60fps
 
-interface VirtualScrollContainerProps {
-  $height: number;
+/**
+ * Row heights measured by every panel rendering the same rows
+ * Create one per row list with createRowHeightCache and pass it to each panel
+ */
+export interface RowHeightCache {
+  measured: Map<string, Map<number, number>>; // Panel id -> row index -> measured height
+  listeners: Set<() => void>;
 }
 
-const ScrollContainer = styled.div<VirtualScrollContainerProps>`
-  height: ${props => props.$height}px;
-  overflow-y: auto;
-  overflow-x: auto;
-  position: relative;
-  will-change: scroll-position;
-  contain: layout style paint;
-  background-color: ${(props) => props.theme.colors.cardBackground};
-  border: 1px solid ${(props) => props.theme.colors.border};
-  border-radius: ${(props) => props.theme.radii.md};
-  
-  /* Smooth scrolling optimization */
-  -webkit-overflow-scrolling: touch;
-  scroll-behavior: auto;
-  
-  /* Hardware acceleration */
-  transform: translateZ(0);
-  backface-visibility: hidden;
-  
-  @media (max-width: 480px) {
-    border-radius: ${(props) => props.theme.radii.sm};
-  }
-  
-  &::-webkit-scrollbar {
-    width: 8px;
-    height: 8px;
-    
-    @media (max-width: 480px) {
-      width: 6px;
-      height: 6px;
-    }
-  }
-
-  &::-webkit-scrollbar-track {
-    background: ${({ theme }) => theme.colors.background};
-    border-radius: ${(props) => props.theme.radii.sm};
-  }
-
-  &::-webkit-scrollbar-thumb {
-    background: ${({ theme }) => theme.colors.border};
-    border-radius: ${(props) => props.theme.radii.sm};
-  }
+export const createRowHeightCache = (): RowHeightCache => ({
+  measured: new Map(),
+  listeners: new Set(),
+});
 
-  &::-webkit-scrollbar-thumb:hover {
-    background: ${({ theme }) => theme.colors.textSecondary};
-  }
-`;
-
-interface VirtualContentProps {
-  $totalHeight: number;
-  $offsetY: number;
-}
+// Height of a row: the tallest measurement any panel made for it
+const getRowHeight = (cache: RowHeightCache, index: number, estimate: number): number => {
+  let height = 0;
+  cache.measured.forEach((heights) => {
+    height = Math.max(height, heights.get(index) || 0);
+  });
+  return height || estimate;
+};
 
-const VirtualContent = styled.div<VirtualContentProps>`
+const VirtualContent = styled.div<{ $totalHeight: number }>`
   height: ${props => props.$totalHeight}px;
   position: relative;
-  contain: layout style paint;
 `;
 
 const VisibleItems = styled.div<{ $offsetY: number }>`
@@ -83,218 +50,212 @@ const VisibleItems = styled.div<{ $offsetY: number }>`
   right: 0;
   transform: translateY(${props => props.$offsetY}px);
   will-change: transform;
-  contain: layout style paint;
-`;
-
-interface DiffLineProps {
-  $type: 'unchanged' | 'added' | 'removed' | 'changed';
-}
-
-const DiffLine = styled.div<DiffLineProps>`
-  display: flex;
-  height: ${ITEM_HEIGHT}px;
-  padding: 4px 12px;
-  font-family: 'Courier New', monospace;
-  font-size: 0.875rem;
-  line-height: 1.5;
-  white-space: pre-wrap;
-  word-break: break-all;
-  contain: layout style paint;
-  will-change: auto;
-  
-  @media (max-width: 768px) {
-    font-size: 0.8125rem;
-    padding: 4px 8px;
-  }
-  
-  @media (max-width: 480px) {
-    font-size: 0.75rem;
-    padding: 2px 6px;
-    line-height: 1.4;
-  }
-  
-  ${(props) => {
-    switch (props.$type) {
-      case 'added':
-        return `
-          background-color: ${props.theme.colors.diffAddedBg};
-          color: ${props.theme.colors.diffAddedText};
-          border-left: 3px solid ${props.theme.colors.diffAddedText};
-        `;
-      case 'removed':
-        return `
-          background-color: ${props.theme.colors.diffRemovedBg};
-          color: ${props.theme.colors.diffRemovedText};
-          border-left: 3px solid ${props.theme.colors.error};
-        `;
-      case 'changed':
-        return `
-          background-color: ${props.theme.colors.diffChangedBg};
-          color: ${props.theme.colors.diffChangedText};
-          border-left: 3px solid ${props.theme.colors.diffChangedText};
-        `;
-      default:
-        return `
-          background-color: ${props.theme.colors.surface};
-          color: ${props.theme.colors.text};
-        `;
-    }
-  }}
-`;
-
-const LineNumber = styled.span`
-  display: inline-block;
-  width: 50px;
-  text-align: right;
-  margin-right: 8px;
-  color: ${(props) => props.theme.colors.subtleText};
-  user-select: none;
-  flex-shrink: 0;
-  
-  @media (max-width: 768px) {
-    width: 42px;
-    margin-right: 6px;
-  }
-  
-  @media (max-width: 480px) {
-    width: 38px;
-    margin-right: 4px;
-  }
 `;
 
 interface VirtualDiffContentProps {
-  lines: DiffLineType[];
-  containerHeight?: number;
+  itemCount: number;
+  renderItem: (index: number) => React.ReactNode;
+  getItemKey?: (index: number) => React.Key;
+  panelId?: string; // Identifies this panel in a shared height cache
+  heightCache?: RowHeightCache;
+  estimatedItemHeight?: number;
+  scrollRef?: React.MutableRefObject<HTMLDivElement | null>; // Exposes the scroll container, e.g. for synced scrolling
+  onScroll?: (e: React.UIEvent<HTMLDivElement>) => void;
+  onScrollToIndexRef?: React.MutableRefObject<((index: number) => void) | null>;
 }
 
-// Calculate responsive height based on viewport
-const getResponsiveHeight = (): number => {
-  if (typeof window === 'undefined') return 600;
-  
-  const viewportHeight = window.innerHeight;
-  const viewportWidth = window.innerWidth;
-  
-  if (viewportWidth <= 480) {
-    return Math.max(250, viewportHeight * 0.35);
-  } else if (viewportWidth <= 768) {
-    return Math.max(350, viewportHeight * 0.4);
-  } else if (viewportWidth <= 1024) {
-    return Math.max(450, viewportHeight * 0.45);
+/**
+ * Index of the last row starting at or before the given offset
+ */
+const findRowAt = (offsets: Float64Array, offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
   }
-  
-  return 600;
+  return Math.max(0, low);
 };
 
-export const VirtualDiffContent: React.FC<VirtualDiffContentProps> = ({ 
-  lines, 
-  containerHeight 
+export const VirtualDiffContent: React.FC<VirtualDiffContentProps> = ({
+  itemCount,
+  renderItem,
+  getItemKey,
+  panelId = 'default',
+  heightCache,
+  estimatedItemHeight = ITEM_HEIGHT,
+  scrollRef,
+  onScroll,
+  onScrollToIndexRef,
 }) => {
-  const [responsiveHeight, setResponsiveHeight] = useState<number>(
-    containerHeight || (typeof window !== 'undefined' ? getResponsiveHeight() : 600)
-  );
+  const ownCache = useMemo(() => createRowHeightCache(), []);
+  const cache = heightCache || ownCache;
+
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  // Bumped whenever any panel sharing the cache measures a new height
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const scrollContainerRef = useRef<HTMLDivElement | null>(null);
+  const rafRef = useRef<number>();
 
+  const setScrollContainer = useCallback((element: HTMLDivElement | null) => {
+    scrollContainerRef.current = element;
+    if (scrollRef) scrollRef.current = element;
+  }, [scrollRef]);
+
+  // Re-render when another panel sharing the cache measures a row
   useEffect(() => {
-    if (containerHeight) {
-      setResponsiveHeight(containerHeight);
-      return;
-    }
-    
-    const updateHeight = () => {
-      setResponsiveHeight(getResponsiveHeight());
+    const listener = () => setMeasureVersion((version) => version + 1);
+    cache.listeners.add(listener);
+    return () => {
+      cache.listeners.delete(listener);
     };
-    
-    if (typeof window !== 'undefined') {
-      updateHeight();
-    window.addEventListener('resize', updateHeight);
-      
-      return () => {
-        window.removeEventListener('resize', updateHeight);
-      };
+  }, [cache]);
+
+  // offsets[i] is the top of row i; offsets[itemCount] is the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(itemCount + 1);
+    for (let i = 0; i < itemCount; i++) {
+      result[i + 1] = result[i] + getRowHeight(cache, i, estimatedItemHeight);
     }
-  }, [containerHeight]);
-  
-  const [scrollTop, setScrollTop] = useState(0);
-  const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const rafRef = useRef<number>();
-  const lastScrollTime = useRef(0);
+    return result;
+    // measureVersion invalidates the offsets after new measurements
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cache, itemCount, estimatedItemHeight, measureVersion]);
+
+  const totalHeight = offsets[itemCount];
 
-  const totalHeight = lines.length * ITEM_HEIGHT;
-  
   // Calculate visible range with buffer
-  const startIndex = Math.max(0, Math.floor(scrollTop / ITEM_HEIGHT) - BUFFER_SIZE);
-  const endIndex = Math.min(
-    lines.length,
-    Math.ceil((scrollTop + responsiveHeight) / ITEM_HEIGHT) + BUFFER_SIZE
-  );
-  
-  const visibleLines = lines.slice(startIndex, endIndex);
-  const offsetY = startIndex * ITEM_HEIGHT;
+  const startIndex = Math.max(0, findRowAt(offsets, scrollTop) - BUFFER_SIZE);
+  const endIndex = Math.min(itemCount, findRowAt(offsets, scrollTop + viewportHeight) + 1 + BUFFER_SIZE);
+  const offsetY = offsets[startIndex];
 
-  // Throttled scroll handler with RAF
-  const handleScroll = useCallback((e: Event) => {
-    const target = e.target as HTMLDivElement;
-    const now = Date.now();
-    
-    // Throttle to ~60fps
-    if (now - lastScrollTime.current < SCROLL_THROTTLE) {
+  // Track the viewport size; the container fills its panel
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight || 600);
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight || 600));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Measure the rendered rows; heights that changed are shared with the other panels
+  const measureRef = useRef<ResizeObserver | null>(null);
+  const pendingNotify = useRef(false);
+
+  const notifyMeasured = useCallback(() => {
+    if (pendingNotify.current) return;
+    pendingNotify.current = true;
+    requestAnimationFrame(() => {
+      pendingNotify.current = false;
+      cache.listeners.forEach((listener) => listener());
+    });
+  }, [cache]);
+
+  const recordHeight = useCallback((element: Element) => {
+    const index = Number((element as HTMLElement).dataset.index);
+    const height = element.getBoundingClientRect().height;
+    if (Number.isNaN(index) || height <= 0) return;
+
+    let heights = cache.measured.get(panelId);
+    if (!heights) {
+      heights = new Map();
+      cache.measured.set(panelId, heights);
+    }
+    if (heights.get(index) !== height) {
+      heights.set(index, height);
+      notifyMeasured();
+    }
+  }, [cache, panelId, notifyMeasured]);
+
+  useEffect(() => {
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver((entries) => entries.forEach((entry) => recordHeight(entry.target)));
+    measureRef.current = observer;
+    return () => {
+      observer.disconnect();
+      measureRef.current = null;
+    };
+  }, [recordHeight]);
+
+  // Observe exactly the rows rendered now; observing reports their initial size
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const observer = measureRef.current;
+    if (!container) return;
+    const rows = container.querySelectorAll('[data-index]');
+    if (!observer) {
+      rows.forEach(recordHeight);
       return;
     }
-    
-    lastScrollTime.current = now;
-    
+    observer.disconnect();
+    rows.forEach((row) => observer.observe(row));
+  });
+
+  // Scroll handler coalesced to one state update per frame
+  const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+    const target = e.currentTarget;
     if (rafRef.current) {
       cancelAnimationFrame(rafRef.current);
     }
-    
     rafRef.current = requestAnimationFrame(() => {
       setScrollTop(target.scrollTop);
     });
+    onScroll?.(e);
+  }, [onScroll]);
+
+  useEffect(() => () => {
+    if (rafRef.current) {
+      cancelAnimationFrame(rafRef.current);
+    }
   }, []);
 
-  // Attach scroll listener
+  // Let the parent scroll a row into the middle of the viewport
   useEffect(() => {
-    const container = scrollContainerRef.current;
-    if (!container) return;
-
-    container.addEventListener('scroll', handleScroll, { passive: true });
-    
+    if (!onScrollToIndexRef) return;
+    onScrollToIndexRef.current = (index: number) => {
+      const container = scrollContainerRef.current;
+      if (!container || index < 0 || index >= itemCount) return;
+      const rowHeight = offsets[index + 1] - offsets[index];
+      container.scrollTop = Math.max(0, offsets[index] - (container.clientHeight - rowHeight) / 2);
+    };
     return () => {
-      container.removeEventListener('scroll', handleScroll);
-      if (rafRef.current) {
-        cancelAnimationFrame(rafRef.current);
-      }
+      onScrollToIndexRef.current = null;
     };
-  }, [handleScroll]);
+  }, [onScrollToIndexRef, offsets, itemCount]);
 
-  // Reset scroll on new content
-  useEffect(() => {
-    if (scrollContainerRef.current) {
-      scrollContainerRef.current.scrollTop = 0;
-      setScrollTop(0);
-    }
-  }, [lines.length]);
+  const items: React.ReactNode[] = [];
+  for (let index = startIndex; index < endIndex; index++) {
+    const rowHeight = offsets[index + 1] - offsets[index];
+    items.push(
+      // The outer box takes the shared row height; the inner box is measured at its natural height
+      <div key={getItemKey ? getItemKey(index) : index} style={{ minHeight: rowHeight }}>
+        <div data-index={index}>
+          {renderItem(index)}
+        </div>
+      </div>
+    );
+  }
 
   return (
-    <ScrollContainer 
-      ref={scrollContainerRef} 
-      $height={responsiveHeight}
+    <DiffContent
+      ref={setScrollContainer}
+      onScroll={handleScroll}
       role="region"
       aria-label="Virtual diff content"
     >
-      <VirtualContent $totalHeight={totalHeight} $offsetY={0}>
+      <VirtualContent $totalHeight={totalHeight}>
         <VisibleItems $offsetY={offsetY}>
-          {visibleLines.map((line, index) => {
-            const actualIndex = startIndex + index;
-            return (
-              <DiffLine key={actualIndex} $type={line.type}>
-                <LineNumber>{line.lineNumber}</LineNumber>
-                <span>{line.content || ' '}</span>
-              </DiffLine>
-            );
-          })}
+          {items}
         </VisibleItems>
       </VirtualContent>
-    </ScrollContainer>
+    </DiffContent>
   );
 };
-
@@ -4,14 +4,19 @@
  * Manages state and logic for the diff checker functionality
  */
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { validateJSON } from '../utils/jsonValidation';
-import { validateXML } from '../utils/xmlValidation';
-import { validateText } from '../utils/textValidation';
-import { compareJSON } from '../utils/jsonComparison';
-import { compareXML } from '../utils/xmlComparison';
-import { compareText } from '../utils/textComparison';
+import {
+  validateInput,
+  runComparison,
+  createComparisonCache,
+  ComparisonCancelledError,
+  ComparisonRunResult,
+  ComparisonProgress,
+} from '../utils/comparisonPipeline';
+import { unpackDiffResult } from '../utils/diffTransfer';
 import { DiffResult } from '../utils/diffChecker';
-import { normalizeXML } from '../utils/xmlValidation';
+import { invertStructuralDiff, StructuralDiffResult } from '../utils/jsonStructuralDiff';
+import type { MergePatchResult } from '../utils/jsonMergePatch';
+import { mergeThreeWay, MergeResult } from '../utils/threeWayMerge';
 import {
   clearSessionData
 } from '@/services/sessionStorage';
@@ -20,18 +25,26 @@ import {
   loadFormatData
 } from '@/services/formatStorage';
 import type { FormatType, ModeType, ValidationResult, DiffOptions, componentType } from '../types/common';
+import type { DiffWorkerRequest, DiffWorkerResponse } from '../types/diffWorker';
 
 export interface DiffState {
   leftInput: string;
   rightInput: string;
+  baseInput: string; // Common ancestor, merge mode only
   format: FormatType;
   mode: ModeType;
   leftValidation: ValidationResult | null;
   rightValidation: ValidationResult | null;
   diffResult: DiffResult | null;
+  structuralDiff: StructuralDiffResult | null; // Semantic JSON comparison only
+  mergePatch: MergePatchResult | null; // JSON comparison only
+  ignoredDifferences: number | null; // JSON comparison with ignored paths only
+  mergeResult: MergeResult | null;
   isComparing: boolean;
+  progress: ComparisonProgress | null; // Reported by the worker while a large comparison runs
   diffOptions: DiffOptions;
   isSemantic: boolean;
+  liveDiff: boolean; // Re-compare automatically shortly after every edit
 }
 
 const defaultDiffOptions: DiffOptions = {
@@ -40,22 +53,61 @@ const defaultDiffOptions: DiffOptions = {
   ignoreKeyOrder: false,
   ignoreAttributeOrder: false,
   ignoreArrayOrder: false,
+  diffAlgorithm: 'myers',
+  detectMoves: true,
+  minMoveSize: 3,
+};
+
+// Inputs larger than this (in characters) are compared in the Web Worker
+const WORKER_THRESHOLD = 10000;
+
+const CANCELLED_ERROR = 'Comparison cancelled';
+
+// A worker comparison still running after this long is stopped
+const WORKER_TIMEOUT = 30000;
+
+export const COMPARISON_TIMEOUT_ERROR = 'The comparison did not finish within 30 seconds and was stopped';
+
+// The worker could not run at all; only then the comparison runs on the main thread
+const WORKER_FAILED_ERROR = 'Worker failed';
+
+// Pause in typing after which live diff re-compares
+const LIVE_DIFF_DELAY = 300;
+
+const createDiffWorker = (): Worker | null => {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('../workers/diff.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
 };
 
 export const useDiffChecker = (tabId: componentType) => {
   const [state, setState] = useState<DiffState>({
     leftInput: '',
     rightInput: '',
+    baseInput: '',
     format: 'json',
     mode: 'compare',
     leftValidation: null,
     rightValidation: null,
     diffResult: null,
+    structuralDiff: null,
+    mergePatch: null,
+    ignoredDifferences: null,
+    mergeResult: null,
     isComparing: false,
+    progress: null,
     diffOptions: defaultDiffOptions,
     isSemantic: false,
+    liveDiff: false,
   });
   const workerRef = useRef<Worker | null>(null);
+  const workerRequestIdRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Results of the previous main thread comparison, reused by live diff
+  const comparisonCacheRef = useRef(createComparisonCache());
   const currentTabIdRef = useRef<componentType>(tabId);
   const isInitialMountRef = useRef<boolean>(true);
   const isInitialLoadCompleteRef = useRef<boolean>(false);
@@ -66,13 +118,12 @@ export const useDiffChecker = (tabId: componentType) => {
     stateRef.current = state;
   }, [state]);
 
-  // Initialize Web Worker (optional - for large files)
+  // Initialize Web Worker for large inputs
   useEffect(() => {
-    // Create worker if needed for large file processing
-    // For now, we'll use direct processing
-    const worker = workerRef.current;
+    workerRef.current = createDiffWorker();
     return () => {
-      worker?.terminate();
+      workerRef.current?.terminate();
+      workerRef.current = null;
     };
   }, []);
 
@@ -87,12 +138,13 @@ export const useDiffChecker = (tabId: componentType) => {
       // Save current content to formatStorage before clearing (if not initial mount)
       if (!isInitialMountRef.current) {
         // Save to formatStorage based on previous tabId
-        if (currentState.leftInput || currentState.rightInput) {
+        if (currentState.leftInput || currentState.rightInput || currentState.baseInput) {
           try {
             saveFormatData(
               previousTabId,
               currentState.leftInput,
-              currentState.rightInput
+              currentState.rightInput,
+              currentState.baseInput
             );
           } catch (err) {
             // Errors are already handled in saveFormatData, but we catch here
@@ -104,14 +156,21 @@ export const useDiffChecker = (tabId: componentType) => {
       }
       
       // Clear state (localStorage persists)
+      abortControllerRef.current?.abort();
       setState(prev => ({
         ...prev,
         leftInput: '',
         rightInput: '',
+        baseInput: '',
         leftValidation: null,
         rightValidation: null,
         diffResult: null,
+        structuralDiff: null,
+        mergePatch: null,
+        ignoredDifferences: null,
+        mergeResult: null,
         isComparing: false,
+        progress: null,
       }));
     }
   }, [tabId]);
@@ -125,13 +184,14 @@ export const useDiffChecker = (tabId: componentType) => {
         
         // Load data for current tabId
         const savedData = loadFormatData(currentTabIdRef.current);
-        if (savedData && (savedData.leftInput || savedData.rightInput)) {
+        if (savedData && (savedData.leftInput || savedData.rightInput || savedData.baseInput)) {
           // eslint-disable-next-line no-console
           console.log(`📂 Loaded saved format data for ${currentTabIdRef.current}`);
           setState(prev => ({
             ...prev,
             leftInput: savedData.leftInput,
             rightInput: savedData.rightInput,
+            baseInput: savedData.baseInput || '',
             // Don't override format - it's controlled by parent via activeFormat prop
             // format will be set by DiffChecker component's useLayoutEffect
           }));
@@ -162,12 +222,13 @@ export const useDiffChecker = (tabId: componentType) => {
     // Debounce saves to avoid excessive localStorage writes
     const timeoutId = setTimeout(() => {
       // Only save if there's actual content
-      if (state.leftInput || state.rightInput) {
+      if (state.leftInput || state.rightInput || state.baseInput) {
         try {
           saveFormatData(
             tabId,
             state.leftInput,
-            state.rightInput
+            state.rightInput,
+            state.baseInput
           );
         } catch (err) {
           // Errors are already handled in saveFormatData, but we catch here
@@ -183,27 +244,61 @@ export const useDiffChecker = (tabId: componentType) => {
     tabId,
     state.leftInput,
     state.rightInput,
+    state.baseInput,
   ]);
 
-  // Update left input
+  // Cancel the comparison in flight, if any; its result is discarded
+  const cancelCompare = useCallback(() => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
+    setState((prev) => ({
+      ...prev,
+      isComparing: false,
+      progress: null,
+    }));
+  }, []);
+
+  // Update left input; editing cancels a comparison of the old content
   const setLeftInput = useCallback((input: string) => {
+    cancelCompare();
     setState((prev) => ({
       ...prev,
       leftInput: input,
-      leftValidation: null,
-      diffResult: null,
+      // In live mode the previous result stays on screen until the next one replaces it
+      leftValidation: prev.liveDiff ? prev.leftValidation : null,
+      diffResult: prev.liveDiff ? prev.diffResult : null,
+      structuralDiff: prev.liveDiff ? prev.structuralDiff : null,
+      mergePatch: prev.liveDiff ? prev.mergePatch : null,
+      ignoredDifferences: prev.liveDiff ? prev.ignoredDifferences : null,
+      mergeResult: null,
     }));
-  }, []);
+  }, [cancelCompare]);
 
-  // Update right input
+  // Update right input; editing cancels a comparison of the old content
   const setRightInput = useCallback((input: string) => {
+    cancelCompare();
     setState((prev) => ({
       ...prev,
       rightInput: input,
-      rightValidation: null,
-      diffResult: null,
+      rightValidation: prev.liveDiff ? prev.rightValidation : null,
+      diffResult: prev.liveDiff ? prev.diffResult : null,
+      structuralDiff: prev.liveDiff ? prev.structuralDiff : null,
+      mergePatch: prev.liveDiff ? prev.mergePatch : null,
+      ignoredDifferences: prev.liveDiff ? prev.ignoredDifferences : null,
+      mergeResult: null,
     }));
-  }, []);
+  }, [cancelCompare]);
+
+  // Update base input (common ancestor for merge mode)
+  const setBaseInput = useCallback((input: string) => {
+    cancelCompare();
+    setState((prev) => ({
+      ...prev,
+      baseInput: input,
+      mergeResult: null,
+    }));
+  }, [cancelCompare]);
 
   // Set format
   const setFormat = useCallback((format: FormatType) => {
@@ -213,10 +308,13 @@ export const useDiffChecker = (tabId: componentType) => {
       leftValidation: null,
       rightValidation: null,
       diffResult: null,
+      structuralDiff: null,
+      mergePatch: null,
+      ignoredDifferences: null,
     }));
   }, []);
 
-  // Set mode (compare or validate)
+  // Set mode (compare, validate or merge)
   const setMode = useCallback((mode: ModeType) => {
     setState((prev) => ({
       ...prev,
@@ -224,6 +322,10 @@ export const useDiffChecker = (tabId: componentType) => {
       leftValidation: null,
       rightValidation: null,
       diffResult: null,
+      structuralDiff: null,
+      mergePatch: null,
+      ignoredDifferences: null,
+      mergeResult: null,
     }));
   }, []);
 
@@ -233,6 +335,10 @@ export const useDiffChecker = (tabId: componentType) => {
       ...prev,
       diffOptions: { ...prev.diffOptions, ...options },
       diffResult: null, // Clear result to trigger re-comparison
+      structuralDiff: null,
+      mergePatch: null,
+      ignoredDifferences: null,
+      mergeResult: null,
     }));
   }, []);
 
@@ -241,21 +347,25 @@ export const useDiffChecker = (tabId: componentType) => {
     setState((prev) => ({
       ...prev,
       isSemantic,
+      diffResult: null, // Clear result to trigger re-comparison
+      structuralDiff: null,
+      mergePatch: null,
+      ignoredDifferences: null,
+    }));
+  }, []);
+
+  // Toggle live diff
+  const setLiveDiff = useCallback((liveDiff: boolean) => {
+    setState((prev) => ({
+      ...prev,
+      liveDiff,
     }));
   }, []);
 
 
   // Validate format
   const validateFormat = useCallback(
-    (input: string, format: FormatType): ValidationResult => {
-      if (format === 'json') {
-        return validateJSON(input);
-      } else if (format === 'xml') {
-        return validateXML(input);
-      } else {
-        return validateText(input);
-      }
-    },
+    (input: string, format: FormatType): ValidationResult => validateInput(input, format),
     []
   );
 
@@ -278,11 +388,29 @@ export const useDiffChecker = (tabId: componentType) => {
   }, [state.leftInput, state.rightInput, state.format, validateFormat]);
 
   // Compare inputs and generate diff
-  const compare = useCallback(async () => {
-    setState((prev) => ({ ...prev, isComparing: true }));
+  // Live comparisons run in the background: no loading state, and only the
+  // lines around the edits since the previous comparison are diffed again
+  const compare = useCallback(async ({ live = false }: { live?: boolean } = {}) => {
+    // A new comparison supersedes the one in flight
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+    const cancelled = { success: false, error: CANCELLED_ERROR };
+    // The comparison itself broke down, as opposed to invalid inputs; the caller reports it
+    const failed = (error: unknown) => {
+      setState((prev) => ({ ...prev, isComparing: false, progress: null }));
+      abortControllerRef.current = null;
+      return { success: false, error: error instanceof Error ? error.message : 'The comparison failed', failed: true };
+    };
+
+    if (!live) {
+      setState((prev) => ({ ...prev, isComparing: true, progress: null }));
+    }
 
     // Yield to browser to show loading state
     await new Promise((resolve) => setTimeout(resolve, 0));
+    if (signal.aborted) return cancelled;
 
     // Validation mode
     if (state.mode === 'validate') {
@@ -293,8 +421,12 @@ export const useDiffChecker = (tabId: componentType) => {
         leftValidation,
         rightValidation: null,
         diffResult: null,
+        structuralDiff: null,
+        mergePatch: null,
+        ignoredDifferences: null,
         isComparing: false,
       }));
+      abortControllerRef.current = null;
 
       return {
         success: leftValidation.isValid,
@@ -302,206 +434,250 @@ export const useDiffChecker = (tabId: componentType) => {
       };
     }
 
-    // Comparison mode
-    const leftValidation = validateFormat(state.leftInput, state.format);
-    const rightValidation = validateFormat(state.rightInput, state.format);
+    // Merge mode - left and right are merged against the common ancestor
+    if (state.mode === 'merge') {
+      const leftValidation = validateFormat(state.leftInput, state.format);
+      const rightValidation = validateFormat(state.rightInput, state.format);
+
+      if (!leftValidation.isValid || !rightValidation.isValid) {
+        setState((prev) => ({
+          ...prev,
+          leftValidation,
+          rightValidation,
+          mergeResult: null,
+          isComparing: false,
+        }));
+        abortControllerRef.current = null;
+
+        return { success: false, error: 'Invalid input' };
+      }
+
+      const baseValidation = validateFormat(state.baseInput, state.format);
+      const mergeResult = mergeThreeWay(
+        baseValidation.formatted ?? state.baseInput,
+        leftValidation.formatted ?? state.leftInput,
+        rightValidation.formatted ?? state.rightInput,
+        { diffAlgorithm: state.diffOptions.diffAlgorithm }
+      );
+
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      if (signal.aborted) return cancelled;
 
-    if (!leftValidation.isValid || !rightValidation.isValid) {
       setState((prev) => ({
         ...prev,
         leftValidation,
         rightValidation,
         diffResult: null,
+        structuralDiff: null,
+        mergePatch: null,
+        ignoredDifferences: null,
+        mergeResult,
         isComparing: false,
       }));
+      abortControllerRef.current = null;
 
-      return { success: false, error: 'Invalid input' };
-    }
-
-    // For JSON and XML, when ignoreWhitespace is false, we need to pass original input to preserve formatting
-    // For other formats or when ignoreWhitespace is true, use formatted version
-    let leftText: string;
-    let rightText: string;
-    
-    if ((state.format === 'json' || state.format === 'xml') && !state.diffOptions.ignoreWhitespace) {
-      // For JSON/XML with ignoreWhitespace=false, use original input to preserve formatting differences
-      // The comparison functions will handle the original input correctly
-      leftText = state.leftInput;
-      rightText = state.rightInput;
-    } else {
-      // For other cases, use formatted version
-      leftText = leftValidation.formatted || state.leftInput;
-      rightText = rightValidation.formatted || state.rightInput;
+      return { success: true, mergeResult };
     }
 
-    // JSON key order and array order normalization
-    // Note: This is now handled in compareJSON function, but we keep this
-    // for backward compatibility and to ensure normalization happens before
-    // the comparison function is called
-    if ((state.diffOptions.ignoreKeyOrder || state.diffOptions.ignoreArrayOrder) && state.format === 'json') {
-      try {
-        await new Promise((resolve) => setTimeout(resolve, 0));
-        // This normalization will be done again in compareJSON, but it's safe to do it here too
-        // The compareJSON function will handle it properly
-      } catch {
-        // Use original text if parsing fails
-      }
-    }
-
-    // XML attribute order normalization
-    // Note: This is now handled in compareXML function, but we keep this
-    // for backward compatibility. However, we skip it when ignoreWhitespace is false
-    // to avoid double processing
-    if (state.diffOptions.ignoreAttributeOrder && state.format === 'xml' && state.diffOptions.ignoreWhitespace) {
-      try {
-        await new Promise((resolve) => setTimeout(resolve, 0));
-        leftText = normalizeXML(leftText);
-        rightText = normalizeXML(rightText);
-      } catch {
-        // Use original text if normalization fails
-      }
-    }
-
-    // Use Web Worker for files larger than 10KB
-    const isLargeFile = leftText.length > 10000 || rightText.length > 10000;
+    // Comparison mode - large inputs are validated, normalized and diffed in the worker
+    const isLargeFile = state.leftInput.length > WORKER_THRESHOLD || state.rightInput.length > WORKER_THRESHOLD;
+    let run: ComparisonRunResult | null = null;
 
     if (isLargeFile && workerRef.current) {
+      const worker = workerRef.current;
+      const id = ++workerRequestIdRef.current;
       try {
-        const diffResult = await new Promise<DiffResult>((resolve, reject) => {
-          const timeoutId = setTimeout(() => {
-            reject(new Error('Worker timeout'));
-          }, 30000); // 30 second timeout
-
-          const handleMessage = (e: MessageEvent) => {
+        run = await new Promise<ComparisonRunResult>((resolve, reject) => {
+          const cleanup = () => {
             clearTimeout(timeoutId);
+            worker.removeEventListener('message', handleMessage);
+            worker.removeEventListener('error', handleError);
+            signal.removeEventListener('abort', handleAbort);
+          };
+
+          const timeoutId = setTimeout(() => {
+            cleanup();
+            reject(new Error(COMPARISON_TIMEOUT_ERROR));
+          }, WORKER_TIMEOUT);
+
+          const handleMessage = (e: MessageEvent<DiffWorkerResponse>) => {
+            if (e.data.id !== id) return;
+            if (e.data.type === 'PROGRESS') {
+              const { progress } = e.data;
+              if (!live) setState((prev) => ({ ...prev, progress }));
+              return;
+            }
+            cleanup();
             if (e.data.success) {
-              resolve(e.data.result);
+              const { leftValidation, rightValidation, diff, structuralDiff, mergePatch, ignoredDifferences } = e.data.result;
+              resolve({
+                leftValidation,
+                rightValidation,
+                diffResult: diff ? unpackDiffResult(diff) : null,
+                structuralDiff,
+                mergePatch,
+                ignoredDifferences,
+              });
             } else {
               reject(new Error(e.data.error));
             }
-            workerRef.current?.removeEventListener('message', handleMessage);
           };
 
-          workerRef.current?.addEventListener('message', handleMessage);
-          workerRef.current?.postMessage({
+          const handleError = () => {
+            cleanup();
+            reject(new Error(WORKER_FAILED_ERROR));
+          };
+
+          // The diff cannot be interrupted from outside, so stop the whole worker
+          const handleAbort = () => {
+            cleanup();
+            reject(new Error(CANCELLED_ERROR));
+          };
+
+          worker.addEventListener('message', handleMessage);
+          worker.addEventListener('error', handleError);
+          signal.addEventListener('abort', handleAbort);
+          const request: DiffWorkerRequest = {
             type: 'COMPUTE_DIFF',
+            id,
             payload: {
-              left: leftText,
-              right: rightText,
+              leftInput: state.leftInput,
+              rightInput: state.rightInput,
+              format: state.format,
               options: state.diffOptions,
+              incremental: live,
+              semantic: state.isSemantic,
             },
-          });
+          };
+          worker.postMessage(request);
         });
-
-        await new Promise((resolve) => requestAnimationFrame(resolve));
-
-        setState((prev) => ({
-          ...prev,
-          leftValidation,
-          rightValidation,
-          diffResult,
-          isComparing: false,
-        }));
-
-        return { success: true, diffResult };
-      } catch {
-        // Worker diff failed, falling back to async processing
+      } catch (error) {
+        // A worker that timed out or was cancelled, including by a newer live request,
+        // is still busy with the old request, so replace it; the new one starts without a cache
+        worker.terminate();
+        workerRef.current = createDiffWorker();
+        if (signal.aborted) return cancelled;
+
+        // A comparison that timed out or failed in the worker would only block the page
+        // on the main thread, so it is reported instead
+        if (!(error instanceof Error) || error.message !== WORKER_FAILED_ERROR) {
+          return failed(error);
+        }
         // eslint-disable-next-line no-console
         console.error('Worker diff failed, falling back to async processing');
         // Fall through to async processing
       }
     }
 
-    // Async diff processing for smoother UI
-    await new Promise((resolve) => setTimeout(resolve, 0));
-
-    let diffResult: DiffResult;
-
-    if (state.format === 'json') {
-      const result = compareJSON(leftText, rightText, {
-        ignoreKeyOrder: state.diffOptions.ignoreKeyOrder,
-        ignoreArrayOrder: state.diffOptions.ignoreArrayOrder,
-        ignoreWhitespace: state.diffOptions.ignoreWhitespace,
-        caseSensitive: state.diffOptions.caseSensitive,
-      });
-      diffResult = result.diff || {
-        leftLines: [],
-        rightLines: [],
-        hasChanges: false,
-      };
-    } else if (state.format === 'xml') {
-      const result = compareXML(leftText, rightText, {
-        ignoreAttributeOrder: state.diffOptions.ignoreAttributeOrder,
-        ignoreWhitespace: state.diffOptions.ignoreWhitespace,
-        caseSensitive: state.diffOptions.caseSensitive,
-      });
-      diffResult = result.diff || {
-        leftLines: [],
-        rightLines: [],
-        hasChanges: false,
-      };
-    } else {
-      const result = compareText(leftText, rightText, {
-        ignoreWhitespace: state.diffOptions.ignoreWhitespace,
-        caseSensitive: state.diffOptions.caseSensitive,
-        textCompareMode: state.diffOptions.textCompareMode || 'line',
-      });
-      diffResult = result.diff || {
-        leftLines: [],
-        rightLines: [],
-        hasChanges: false,
-      };
+    if (!run) {
+      // Async diff processing for smoother UI
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (signal.aborted) return cancelled;
+      // A full comparison diffs every line again but still refreshes the cache
+      const cache = comparisonCacheRef.current;
+      if (!live) {
+        cache.lines.snapshot = null;
+      }
+      try {
+        run = runComparison(state.leftInput, state.rightInput, state.format, state.diffOptions, {
+          cache,
+          semantic: state.isSemantic,
+          signal,
+        });
+      } catch (error) {
+        if (error instanceof ComparisonCancelledError) return cancelled;
+        return failed(error);
+      }
     }
 
     // Use requestAnimationFrame for smooth state update
     await new Promise((resolve) => requestAnimationFrame(resolve));
+    if (signal.aborted) return cancelled;
 
+    const { leftValidation, rightValidation, diffResult, structuralDiff, mergePatch, ignoredDifferences } = run;
     setState((prev) => ({
       ...prev,
       leftValidation,
       rightValidation,
       diffResult,
+      structuralDiff,
+      mergePatch,
+      ignoredDifferences,
       isComparing: false,
+      progress: null,
     }));
+    abortControllerRef.current = null;
+
+    if (!diffResult) {
+      return { success: false, error: 'Invalid input' };
+    }
 
     return { success: true, diffResult };
   }, [
     state.leftInput,
     state.rightInput,
+    state.baseInput,
     state.format,
     state.mode,
     state.diffOptions,
+    state.isSemantic,
     validateFormat,
   ]);
 
+  // Live diff: re-compare once typing pauses; each edit restarts the delay
+  useEffect(() => {
+    if (!state.liveDiff || state.mode !== 'compare') return;
+    if (!state.leftInput.trim() || !state.rightInput.trim()) return;
+
+    const timeoutId = setTimeout(() => {
+      compare({ live: true });
+    }, LIVE_DIFF_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [state.liveDiff, state.mode, state.leftInput, state.rightInput, compare]);
+
   // Clear all inputs and results (Reset button)
   // Only clears state, does NOT touch localStorage
   const clear = useCallback(() => {
+    abortControllerRef.current?.abort();
     // Clear state only - localStorage remains intact
     setState((prev) => ({
       ...prev,
       leftInput: '',
       rightInput: '',
+      baseInput: '',
       leftValidation: null,
       rightValidation: null,
       diffResult: null,
+      structuralDiff: null,
+      mergePatch: null,
+      ignoredDifferences: null,
+      mergeResult: null,
       isComparing: false,
+      progress: null,
     }));
   }, []);
 
   // Reset to initial state and clear session storage
   const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
     setState({
       leftInput: '',
       rightInput: '',
+      baseInput: '',
       format: 'json',
       mode: 'compare',
       leftValidation: null,
       rightValidation: null,
       diffResult: null,
+      structuralDiff: null,
+      mergePatch: null,
+      ignoredDifferences: null,
+      mergeResult: null,
       isComparing: false,
+      progress: null,
       diffOptions: defaultDiffOptions,
       isSemantic: false,
+      liveDiff: false,
     });
     
     // Clear session storage data for this tab
@@ -523,6 +699,11 @@ export const useDiffChecker = (tabId: componentType) => {
             hasChanges: prev.diffResult.hasChanges,
           }
         : null,
+      structuralDiff: prev.structuralDiff ? invertStructuralDiff(prev.structuralDiff) : null,
+      // A merge patch cannot be reversed without the documents; the next compare rebuilds it
+      mergePatch: null,
+      ignoredDifferences: prev.ignoredDifferences,
+      mergeResult: null,
     }));
   }, []);
 
@@ -542,12 +723,15 @@ export const useDiffChecker = (tabId: componentType) => {
     ...state,
     setLeftInput,
     setRightInput,
+    setBaseInput,
     setFormat,
     setMode,
     setDiffOptions,
     setIsSemantic,
+    setLiveDiff,
     validateInputs,
     compare,
+    cancelCompare,
     clear,
     reset,
     swap,
@@ -0,0 +1,57 @@
+import { useRef, useCallback, useEffect, UIEvent, MutableRefObject } from 'react';
+
+export type ScrollSide = 'left' | 'right';
+
+export interface UseSyncedScrollReturn {
+  leftRef: MutableRefObject<HTMLDivElement | null>;
+  rightRef: MutableRefObject<HTMLDivElement | null>;
+  onLeftScroll: (e: UIEvent<HTMLDivElement>) => void;
+  onRightScroll: (e: UIEvent<HTMLDivElement>) => void;
+}
+
+/**
+ * Custom hook that mirrors the scroll position of one diff panel onto the other
+ * Both panels render the same aligned rows, so equal offsets keep corresponding
+ * lines side by side. Works with any scroll container, including virtualized ones.
+ */
+export const useSyncedScroll = (enabled: boolean): UseSyncedScrollReturn => {
+  const leftRef = useRef<HTMLDivElement | null>(null);
+  const rightRef = useRef<HTMLDivElement | null>(null);
+  // Panels whose next scroll event was caused by the sync itself and must not echo back
+  const echoRef = useRef<Set<ScrollSide>>(new Set());
+
+  const handleScroll = useCallback((source: ScrollSide, element: HTMLDivElement) => {
+    if (echoRef.current.delete(source)) return;
+    if (!enabled) return;
+
+    const targetSide: ScrollSide = source === 'left' ? 'right' : 'left';
+    const target = targetSide === 'left' ? leftRef.current : rightRef.current;
+    if (!target) return;
+
+    const { scrollTop, scrollLeft } = target;
+    target.scrollTop = element.scrollTop;
+    target.scrollLeft = element.scrollLeft;
+    // Only a position that actually changed fires a scroll event on the target
+    if (target.scrollTop !== scrollTop || target.scrollLeft !== scrollLeft) {
+      echoRef.current.add(targetSide);
+    }
+  }, [enabled]);
+
+  // Re-align the right panel with the left one when the lock is switched on
+  useEffect(() => {
+    if (enabled && leftRef.current) {
+      handleScroll('left', leftRef.current);
+    }
+  }, [enabled, handleScroll]);
+
+  const onLeftScroll = useCallback(
+    (e: UIEvent<HTMLDivElement>) => handleScroll('left', e.currentTarget),
+    [handleScroll]
+  );
+  const onRightScroll = useCallback(
+    (e: UIEvent<HTMLDivElement>) => handleScroll('right', e.currentTarget),
+    [handleScroll]
+  );
+
+  return { leftRef, rightRef, onLeftScroll, onRightScroll };
+};
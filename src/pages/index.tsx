@@ -19,9 +19,15 @@ import type { ThemeMode, componentType } from '../types/common';
 import { Header } from '../components/Header';
 import { Alert } from '../components/Alert';
 import { UrlModal } from '../components/UrlModal';
+import { PatchModal } from '../components/PatchModal';
+import type { PatchKind } from '../components/PatchModal';
+import type { PatchApplyResult } from '../utils/patchApply';
 import { loadActiveTab, saveActiveTab } from '../services/appStorage';
 
 // Modern styled components with enhanced visual design
+// JSON documents can also be patched with RFC 6902 and RFC 7386 patches
+const JSON_PATCH_KINDS: PatchKind[] = ['unified', 'json-patch', 'merge-patch'];
+
 const PageContainer = styled.div`
   min-height: 100vh;
   overflow-y: auto;
@@ -96,6 +102,10 @@ export default function Home() {
   const [showUrlModal, setShowUrlModal] = useState(false);
   const urlLoadHandlerRef = useRef<((url: string) => Promise<void>) | null>(null);
 
+  // PatchModal state - rendered here for the same z-index reason as UrlModal
+  const [showPatchModal, setShowPatchModal] = useState(false);
+  const patchApplyHandlerRef = useRef<((patchText: string, kind: PatchKind) => PatchApplyResult) | null>(null);
+
   // Alert handler to pass to DiffChecker
   const handleShowAlert = useCallback((title: string, message: string) => {
     setAlertTitle(title);
@@ -115,6 +125,16 @@ export default function Home() {
     }
   }, []);
 
+  // PatchModal handler to pass to DiffChecker
+  const handleShowPatchModal = useCallback(() => {
+    setShowPatchModal(true);
+  }, []);
+
+  // Handle patch apply from modal - delegates to DiffChecker's handler
+  const handlePatchApply = useCallback((patchText: string, kind: PatchKind) => {
+    return patchApplyHandlerRef.current ? patchApplyHandlerRef.current(patchText, kind) : null;
+  }, []);
+
   // Get sample URL based on active view
   const getSampleUrl = useCallback(() => {
     if (activeView?.includes('json')) {
@@ -139,7 +159,7 @@ export default function Home() {
 
     // Load active tab from appStorage service (with migration from old key)
     let storedTab = loadActiveTab();
-    const validFormats: componentType[] = ['json-compare', 'xml-compare', 'text-compare', 'json-validate', 'xml-validate'];
+    const validFormats: componentType[] = ['json-compare', 'xml-compare', 'text-compare', 'json-validate', 'xml-validate', 'text-merge'];
 
     // Migrate from old key if new key doesn't exist
     if (!storedTab) {
@@ -238,6 +258,8 @@ export default function Home() {
                 onShowAlert={handleShowAlert}
                 onShowUrlModal={handleShowUrlModal}
                 onUrlLoadRef={urlLoadHandlerRef}
+                onShowPatchModal={handleShowPatchModal}
+                onPatchApplyRef={patchApplyHandlerRef}
               />
             )}
           </ContentContainer>
@@ -252,6 +274,14 @@ export default function Home() {
             viewType={activeView || undefined}
           />
 
+          {/* PatchModal rendered at PageContainer level - properly covers Header */}
+          <PatchModal
+            show={showPatchModal}
+            onClose={() => setShowPatchModal(false)}
+            onApply={handlePatchApply}
+            kinds={activeView === 'json-compare' ? JSON_PATCH_KINDS : undefined}
+          />
+
           {/* Alert rendered at PageContainer level - properly covers Header */}
           <Alert
             show={showAlert}
@@ -37,6 +37,7 @@ export class EncryptedStorage {
     'xml-validate': 'xml_validate_session',
     'xml-compare': 'xml_compare_session',
     'text-compare': 'text_compare_session',
+    'text-merge': 'text_merge_session',
   } as const;
 
   private static getStorageKey(componentType: componentType): string {
@@ -4,7 +4,8 @@
  * Used to persist content across tab switches and page refreshes
  * Uses plain localStorage (no encryption) with keys matching the pattern:
  * - diffchecker_input_1_{format}_{mode} (left input for compare, single input for validate)
- * - diffchecker_input_2_{format}_{mode} (right input for compare only)
+ * - diffchecker_input_2_{format}_{mode} (right input for compare and merge)
+ * - diffchecker_input_base_{format}_{mode} (common ancestor for merge only)
  */
 
 import type { componentType } from '../types/common';
@@ -21,7 +22,8 @@ function getStorageKeys(tabId: componentType) {
   
   return {
     LEFT_INPUT: `diffchecker_input_1_${format}_${mode}`, // Left input for compare, single input for validate
-    RIGHT_INPUT: `diffchecker_input_2_${format}_${mode}`, // Right input for compare only
+    RIGHT_INPUT: `diffchecker_input_2_${format}_${mode}`, // Right input for compare and merge
+    BASE_INPUT: `diffchecker_input_base_${format}_${mode}`, // Common ancestor for merge only
   } as const;
 }
 
@@ -29,6 +31,7 @@ function getStorageKeys(tabId: componentType) {
 export interface SavedFormatData {
   leftInput: string;
   rightInput: string;
+  baseInput?: string;
 }
 
 /**
@@ -57,11 +60,13 @@ function checkInputSize(input: string, inputName: string): void {
  * - Text compare: diffchecker_input_1_text_compare, diffchecker_input_2_text_compare
  * - JSON validate: diffchecker_input_1_json_validate
  * - XML validate: diffchecker_input_1_xml_validate
+ * - Text merge: diffchecker_input_1_text_merge, diffchecker_input_2_text_merge, diffchecker_input_base_text_merge
  */
 export function saveFormatData(
   tabId: componentType,
   leftInput: string,
-  rightInput: string
+  rightInput: string,
+  baseInput: string = ''
 ): void {
   if (!isLocalStorageAvailable()) {
     return;
@@ -71,6 +76,7 @@ export function saveFormatData(
   try {
     checkInputSize(leftInput, 'Left input');
     checkInputSize(rightInput, 'Right input');
+    checkInputSize(baseInput, 'Base input');
   } catch (error) {
     // eslint-disable-next-line no-console
     console.warn(`Cannot save format data for ${tabId}:`, error instanceof Error ? error.message : error);
@@ -84,8 +90,8 @@ export function saveFormatData(
     // e.g., for XML: diffchecker_input_1_xml_compare (will NOT touch JSON keys)
     localStorage.setItem(keys.LEFT_INPUT, leftInput);
 
-    // Save right input only for compare mode (not for validate mode)
-    const isCompareMode = tabId.includes('-compare');
+    // Save right input only for compare and merge modes (not for validate mode)
+    const isCompareMode = !tabId.includes('-validate');
     if (isCompareMode) {
       // Only writes to format-specific key
       // e.g., for XML: diffchecker_input_2_xml_compare (will NOT touch JSON keys)
@@ -95,6 +101,11 @@ export function saveFormatData(
       localStorage.removeItem(keys.RIGHT_INPUT);
     }
 
+    // Save the common ancestor only for merge mode
+    if (tabId.includes('-merge')) {
+      localStorage.setItem(keys.BASE_INPUT, baseInput);
+    }
+
     // eslint-disable-next-line no-console
     console.log(`✅ Format data saved for ${tabId} (keys: ${keys.LEFT_INPUT}, ${keys.RIGHT_INPUT})`);
   } catch (error) {
@@ -137,8 +148,8 @@ export function loadFormatData(tabId: componentType): SavedFormatData | null {
       leftInput = '';
     }
 
-    // Only load right input for compare mode
-    const isCompareMode = tabId.includes('-compare');
+    // Only load right input for compare and merge modes
+    const isCompareMode = !tabId.includes('-validate');
     if (isCompareMode) {
       try {
         const rightResult = localStorage.getItem(keys.RIGHT_INPUT);
@@ -150,12 +161,24 @@ export function loadFormatData(tabId: componentType): SavedFormatData | null {
       }
     }
 
+    // Only load the common ancestor for merge mode
+    let baseInput = '';
+    if (tabId.includes('-merge')) {
+      try {
+        baseInput = localStorage.getItem(keys.BASE_INPUT) || '';
+      } catch (baseError) {
+        // eslint-disable-next-line no-console
+        console.warn(`Failed to load base input for ${tabId}:`, baseError);
+      }
+    }
+
     // Return data even if only one input loaded successfully
     // This allows partial restoration if one input is corrupted
-    if (leftInput || rightInput) {
+    if (leftInput || rightInput || baseInput) {
       return {
         leftInput,
         rightInput,
+        baseInput,
       };
     }
 
@@ -178,6 +201,7 @@ export function clearFormatData(tabId: componentType): void {
     const keys = getStorageKeys(tabId);
     localStorage.removeItem(keys.LEFT_INPUT);
     localStorage.removeItem(keys.RIGHT_INPUT);
+    localStorage.removeItem(keys.BASE_INPUT);
     // eslint-disable-next-line no-console
     console.log(`✅ Format data cleared for ${tabId}`);
   } catch (error) {
@@ -200,6 +224,7 @@ export function clearAllFormatData(): void {
       'xml-compare',
       'xml-validate',
       'text-compare',
+      'text-merge',
     ];
 
     allTabs.forEach(tabId => {
@@ -216,6 +216,7 @@ export function clearAllSessionData(): void {
       'xml-compare',
       'xml-validate',
       'text-compare',
+      'text-merge',
     ];
 
     allTabs.forEach(tabId => {
@@ -245,6 +246,7 @@ export function getSessionStorageSize(): number {
       'xml-compare',
       'xml-validate',
       'text-compare',
+      'text-merge',
     ];
     
     // Calculate size of all DiffChecker-related keys for all tabs
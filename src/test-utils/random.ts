@@ -0,0 +1,151 @@
+/**
+ * Seeded Random Inputs
+ *
+ * Deterministic pseudo-random generators for the property tests, so that a
+ * failing case can be reproduced from its seed.
+ */
+
+export type Random = () => number;
+
+/**
+ * mulberry32: a small, fast generator returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomInt(random: Random, max: number): number {
+  return Math.floor(random() * max);
+}
+
+export function pick<T>(random: Random, items: readonly T[]): T {
+  return items[randomInt(random, items.length)];
+}
+
+/**
+ * Sequence of up to maxLength symbols drawn from an alphabet of the given size
+ * Small alphabets produce many repeated elements
+ */
+export function randomSequence(random: Random, maxLength: number, alphabetSize: number): string[] {
+  const length = randomInt(random, maxLength + 1);
+  return Array.from({ length }, () => String.fromCharCode(97 + randomInt(random, alphabetSize)));
+}
+
+/**
+ * Copy of a sequence with a few random insertions, deletions and replacements
+ */
+export function mutateSequence(random: Random, sequence: readonly string[], edits: number, alphabetSize: number): string[] {
+  const result = [...sequence];
+  for (let i = 0; i < edits; i++) {
+    const index = randomInt(random, result.length + 1);
+    const symbol = String.fromCharCode(97 + randomInt(random, alphabetSize));
+    const kind = randomInt(random, 3);
+    if (kind === 0 || result.length === 0) {
+      result.splice(index, 0, symbol);
+    } else if (kind === 1) {
+      result.splice(Math.min(index, result.length - 1), 1);
+    } else {
+      result[Math.min(index, result.length - 1)] = symbol;
+    }
+  }
+  return result;
+}
+
+/**
+ * Length of the longest common subsequence, by dynamic programming
+ */
+export function lcsLength<T>(left: readonly T[], right: readonly T[]): number {
+  let previous = new Array<number>(right.length + 1).fill(0);
+  for (let i = 1; i <= left.length; i++) {
+    const current = new Array<number>(right.length + 1).fill(0);
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = left[i - 1] === right[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[right.length];
+}
+
+const KEYS = ['a', 'b', 'c', 'id', 'name', 'x/y', 'm~n', ''];
+
+const STRINGS = ['', 'text', 'Text', ' two  words ', 'quote " and \\ backslash', 'line\nbreak', 'ünï', '1', '2.5'];
+
+const NUMBERS = [0, -0, 1, -1, 2.5, 1e21, 1e-7, 123456789, -0.001, 9007199254740991];
+
+/**
+ * JSON value of up to the given depth, as JSON.parse would return it
+ * Keys, strings and numbers come from small pools so that values repeat
+ */
+export function randomJSONValue(random: Random, depth: number): unknown {
+  const kind = randomInt(random, depth > 0 ? 7 : 5);
+  switch (kind) {
+    case 0:
+      return null;
+    case 1:
+      return random() < 0.5;
+    case 2:
+      return pick(random, NUMBERS);
+    case 3:
+    case 4:
+      return pick(random, STRINGS);
+    case 5:
+      return Array.from({ length: randomInt(random, 5) }, () => randomJSONValue(random, depth - 1));
+    default: {
+      const object: Record<string, unknown> = {};
+      const size = randomInt(random, 5);
+      for (let i = 0; i < size; i++) {
+        object[pick(random, KEYS)] = randomJSONValue(random, depth - 1);
+      }
+      return object;
+    }
+  }
+}
+
+/**
+ * Copy of a JSON value with a few members or elements added, removed or
+ * replaced at random depths; a scalar root is replaced as a whole
+ */
+export function mutateJSONValue(random: Random, value: unknown, edits: number): unknown {
+  let root: unknown = JSON.parse(JSON.stringify(value));
+  for (let i = 0; i < edits; i++) {
+    if (root === null || typeof root !== 'object') {
+      root = randomJSONValue(random, 2);
+      continue;
+    }
+    // Walk down to a random container
+    let container = root as Record<string, unknown> | unknown[];
+    for (;;) {
+      const children = (Array.isArray(container) ? container : Object.values(container)).filter(
+        (child) => child !== null && typeof child === 'object'
+      );
+      if (children.length === 0 || random() < 0.4) break;
+      container = pick(random, children) as Record<string, unknown> | unknown[];
+    }
+    const kind = randomInt(random, 3);
+    if (Array.isArray(container)) {
+      const index = randomInt(random, container.length + 1);
+      if (kind === 0 || container.length === 0) {
+        container.splice(index, 0, randomJSONValue(random, 2));
+      } else if (kind === 1) {
+        container.splice(Math.min(index, container.length - 1), 1);
+      } else {
+        container[Math.min(index, container.length - 1)] = randomJSONValue(random, 2);
+      }
+    } else {
+      const keys = Object.keys(container);
+      if (kind === 1 && keys.length > 0) {
+        delete container[pick(random, keys)];
+      } else {
+        container[kind === 0 || keys.length === 0 ? pick(random, KEYS) : pick(random, keys)] = randomJSONValue(random, 2);
+      }
+    }
+  }
+  return root;
+}
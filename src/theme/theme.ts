@@ -27,6 +27,8 @@ export const lightTheme = {
     diffRemovedText: '#dc2626',
     diffChangedBg: 'rgba(245, 158, 11, 0.15)',
     diffChangedText: '#d97706',
+    diffMovedBg: 'rgba(59, 130, 246, 0.12)',
+    diffMovedText: '#2563eb',
 
     // UI Elements
     inputBackground: 'rgba(255, 255, 255, 0.5)',
@@ -90,6 +92,8 @@ export const darkTheme = {
     diffRemovedText: '#F87171', // Soft red
     diffChangedBg: 'rgba(245, 158, 11, 0.1)',
     diffChangedText: '#FBBF24', // Bright yellow/orange
+    diffMovedBg: 'rgba(96, 165, 250, 0.1)',
+    diffMovedText: '#60A5FA', // Soft blue
 
     // UI Elements
     inputBackground: '#0F1219', // Very dark input background
@@ -151,6 +155,8 @@ export type AppTheme = {
     diffRemovedText: string;
     diffChangedBg: string;
     diffChangedText: string;
+    diffMovedBg: string;
+    diffMovedText: string;
     inputBackground: string;
     inputBorder: string;
     cardBackground: string;
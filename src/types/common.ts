@@ -4,8 +4,14 @@
 
 // Diff Checker Types
 export type FormatType = 'json' | 'xml' | 'text';
-export type ModeType = 'compare' | 'validate';
-export type componentType = 'json-compare' | 'xml-compare' | 'text-compare' | 'json-validate' | 'xml-validate';
+export type ModeType = 'compare' | 'validate' | 'merge';
+export type componentType =
+  | 'json-compare'
+  | 'xml-compare'
+  | 'text-compare'
+  | 'json-validate'
+  | 'xml-validate'
+  | 'text-merge';
 // Session Storage Types
 export interface SessionData {
   input?: string;
@@ -17,6 +23,19 @@ export interface SessionData {
   componentType: componentType;
 }
 export type TextCompareMode = 'line' | 'word';
+export type DiffAlgorithm = 'myers' | 'patience' | 'histogram';
+
+// Elements of the arrays at path (JSONPath, e.g. $.users[*]) are matched by their key member
+export interface ArrayIdentityKey {
+  path: string;
+  key: string;
+}
+
+// Numbers are equal when they differ by at most absolute, or by at most relative times the larger magnitude
+export interface NumericTolerance {
+  absolute: number;
+  relative: number;
+}
 
 export interface DiffOptions {
   ignoreWhitespace: boolean;
@@ -25,12 +44,36 @@ export interface DiffOptions {
   ignoreAttributeOrder: boolean;
   ignoreArrayOrder: boolean;
   textCompareMode?: TextCompareMode;
+  diffAlgorithm?: DiffAlgorithm;
+  detectMoves?: boolean;
+  minMoveSize?: number;
+  arrayIdentityKeys?: ArrayIdentityKey[]; // JSON only
+  ignoredPaths?: string[]; // JSON only: JSONPath or glob patterns of nodes left out of the diff
+  numericTolerance?: NumericTolerance; // JSON only
+  looseTypes?: boolean; // JSON only: 1, 1.0 and "1" are equal
+  nullEqualsMissing?: boolean; // JSON only: a member set to null is the same as no member
+}
+
+/**
+ * Location and cause of a syntax error
+ */
+export interface ValidationError {
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number; // 0-based character offset
+  expected: string; // e.g. '"," or "}"'
+  found: string; // e.g. '"\'"' or 'end of input'
+  hint?: string; // Likely fix of a common mistake
+  sourceFingerprint: string; // fingerprintText of the validated text, which line, column and offset refer to
 }
 
 export interface ValidationResult {
   isValid: boolean;
   formatted?: string;
   error?: string;
+  errors?: ValidationError[]; // Structured syntax errors, JSON only
+  warnings?: string[]; // Valid but suspicious input, e.g. duplicate JSON keys
 }
 
 export type ThemeMode = 'light' | 'dark';
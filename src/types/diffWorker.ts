@@ -0,0 +1,38 @@
+/**
+ * Messages exchanged with the diff Web Worker
+ */
+import type { FormatType, DiffOptions, ValidationResult } from './common';
+import type { PackedDiffResult } from '../utils/diffTransfer';
+import type { ComparisonProgress } from '../utils/comparisonPipeline';
+import type { StructuralDiffResult } from '../utils/jsonStructuralDiff';
+import type { MergePatchResult } from '../utils/jsonMergePatch';
+
+export interface DiffWorkerRequest {
+  type: 'COMPUTE_DIFF';
+  id: number; // Echoed in every response so concurrent requests cannot be mixed up
+  payload: {
+    leftInput: string;
+    rightInput: string;
+    format: FormatType;
+    options: DiffOptions;
+    incremental?: boolean; // Reuse the worker's results for the previous inputs (live diff)
+    semantic?: boolean; // Also diff JSON inputs structurally
+  };
+}
+
+export type DiffWorkerResponse =
+  | { id: number; type: 'PROGRESS'; progress: ComparisonProgress }
+  | {
+      id: number;
+      type: 'RESULT';
+      success: true;
+      result: {
+        leftValidation: ValidationResult;
+        rightValidation: ValidationResult;
+        diff: PackedDiffResult | null; // null when either input is invalid
+        structuralDiff: StructuralDiffResult | null;
+        mergePatch: MergePatchResult | null;
+        ignoredDifferences: number | null;
+      };
+    }
+  | { id: number; type: 'RESULT'; success: false; error: string };
@@ -0,0 +1,59 @@
+import { runComparison, createComparisonCache, ComparisonCancelledError, ComparisonProgress } from './comparisonPipeline';
+import type { DiffOptions } from '../types/common';
+
+const options: DiffOptions = {
+  ignoreWhitespace: false,
+  caseSensitive: true,
+  ignoreKeyOrder: false,
+  ignoreAttributeOrder: false,
+  ignoreArrayOrder: false,
+};
+
+describe('runComparison', () => {
+  it('validates, normalizes and diffs both inputs', () => {
+    const progress: ComparisonProgress[] = [];
+    const run = runComparison('{"a": 1}', '{"a": 2}', 'json', options, { onProgress: (p) => progress.push(p) });
+    expect(run.leftValidation.isValid).toBe(true);
+    expect(run.diffResult?.hasChanges).toBe(true);
+    expect(progress.map((p) => p.phase)).toEqual(expect.arrayContaining(['validate', 'normalize', 'diff']));
+    expect(progress[progress.length - 1].percent).toBe(100);
+  });
+
+  it('stops with ComparisonCancelledError once the signal is aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => runComparison('a', 'b', 'text', options, { signal: controller.signal })).toThrow(ComparisonCancelledError);
+  });
+
+  it('stops between phases when aborted while running', () => {
+    const controller = new AbortController();
+    const cache = createComparisonCache();
+    const onProgress = (progress: ComparisonProgress) => {
+      if (progress.phase === 'normalize') controller.abort();
+    };
+    expect(() => runComparison('a\nb', 'a\nc', 'text', options, { signal: controller.signal, onProgress, cache })).toThrow(
+      ComparisonCancelledError
+    );
+    // The next run is not affected by the cancelled one
+    expect(runComparison('a\nb', 'a\nc', 'text', options, { cache }).diffResult?.hasChanges).toBe(true);
+  });
+
+  it('keeps every digit of big numbers whatever the JSON options', () => {
+    const left = '{"id": 9007199254740993, "note": "a"}';
+    const right = '{"id": 9007199254740992, "note": "a"}';
+    const variants: Partial<DiffOptions>[] = [
+      {},
+      { ignoredPaths: ['$.note'] },
+      { looseTypes: true },
+      { nullEqualsMissing: true },
+      { arrayIdentityKeys: [{ path: '$.items[*]', key: 'id' }] },
+      { numericTolerance: { absolute: 0.01, relative: 0 } },
+    ];
+    for (const variant of variants) {
+      const run = runComparison(left, right, 'json', { ...options, ...variant }, { semantic: true });
+      expect(run.diffResult?.hasChanges).toBe(true);
+      expect(run.structuralDiff?.changes.map((change) => change.path)).toEqual(['$.id']);
+      expect(run.mergePatch?.patch).toEqual({ type: 'object', members: [{ key: 'id', value: { type: 'number', raw: '9007199254740992' } }] });
+    }
+  });
+});
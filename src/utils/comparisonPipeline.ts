@@ -0,0 +1,296 @@
+/**
+ * Comparison Pipeline
+ *
+ * Validation, normalization and diffing of two inputs in one call, free of
+ * React and DOM dependencies so it runs the same on the main thread and in
+ * the diff Web Worker. Callers that compare edited versions of the same inputs
+ * repeatedly can pass a ComparisonCache: unchanged sides then skip validation
+ * and normalization, and only the edited lines are diffed again.
+ */
+
+import { validateJSON } from './jsonValidation';
+import { validateXML, normalizeXML } from './xmlValidation';
+import { validateText } from './textValidation';
+import { alignJSONForComparison, prepareJSONForComparison, restoreRightLines } from './jsonComparison';
+import { prepareXMLForComparison } from './xmlComparison';
+import { prepareTextForComparison } from './textComparison';
+import { computeLineByLineDiff, DiffResult } from './diffChecker';
+import { createLineDiffCache, LineDiffCache } from './incrementalDiff';
+import { parseJSONValue } from './jsonParser';
+import { countIgnoredDifferences, diffJSONValues, StructuralDiffResult, StructuralDiffOptions } from './jsonStructuralDiff';
+import { generateMergePatch, MergePatchResult } from './jsonMergePatch';
+import type { FormatType, ValidationResult, DiffOptions } from '../types/common';
+
+export type ComparisonPhase = 'validate' | 'normalize' | 'diff';
+
+export interface ComparisonProgress {
+  phase: ComparisonPhase;
+  percent: number; // Progress of the whole run, 0-100
+}
+
+export type ComparisonProgressCallback = (progress: ComparisonProgress) => void;
+
+// Share of the whole run at which each phase starts; diffing takes the rest
+const PHASE_START: Record<ComparisonPhase, number> = {
+  validate: 0,
+  normalize: 20,
+  diff: 40,
+};
+
+export interface ComparisonRunResult {
+  leftValidation: ValidationResult;
+  rightValidation: ValidationResult;
+  diffResult: DiffResult | null; // null when either input is invalid
+  structuralDiff: StructuralDiffResult | null; // Semantic JSON comparisons only
+  mergePatch: MergePatchResult | null; // JSON comparisons only
+  ignoredDifferences: number | null; // JSON comparisons with ignored paths only
+}
+
+// One input with its validation and, once both sides were valid, its normalized text
+interface CachedSide {
+  input: string;
+  format: FormatType;
+  validation: ValidationResult;
+  normalized?: { key: string; text?: string };
+}
+
+/**
+ * Results of the previous run, reused by the next one where inputs and
+ * options did not change. Create one per pair of inputs with createComparisonCache
+ */
+export interface ComparisonCache {
+  left: CachedSide | null;
+  right: CachedSide | null;
+  lines: LineDiffCache;
+}
+
+export const createComparisonCache = (): ComparisonCache => ({
+  left: null,
+  right: null,
+  lines: createLineDiffCache(),
+});
+
+export interface ComparisonRunOptions {
+  onProgress?: ComparisonProgressCallback;
+  cache?: ComparisonCache;
+  semantic?: boolean; // Also diff JSON inputs structurally
+  signal?: AbortSignal; // Checked between phases; an aborted run throws ComparisonCancelledError
+}
+
+export class ComparisonCancelledError extends Error {
+  constructor() {
+    super('Comparison cancelled');
+    this.name = 'ComparisonCancelledError';
+  }
+}
+
+const EMPTY_DIFF: DiffResult = {
+  leftLines: [],
+  rightLines: [],
+  hasChanges: false,
+};
+
+/**
+ * Validate (and format) one input in the given format
+ */
+export function validateInput(input: string, format: FormatType): ValidationResult {
+  if (format === 'json') {
+    return validateJSON(input);
+  } else if (format === 'xml') {
+    return validateXML(input);
+  }
+  return validateText(input);
+}
+
+/**
+ * Text of a valid input as it is line diffed: formatted when whitespace is
+ * ignored, then normalized according to the options
+ * undefined when the format-specific validation rejects it
+ */
+const normalizeForDiff = (
+  input: string,
+  validation: ValidationResult,
+  format: FormatType,
+  options: DiffOptions
+): string | undefined => {
+  // For JSON and XML, when ignoreWhitespace is false, we need to pass original input to preserve formatting
+  // For other formats or when ignoreWhitespace is true, use formatted version
+  let text = (format === 'json' || format === 'xml') && !options.ignoreWhitespace
+    ? input
+    : validation.formatted || input;
+
+  if (format === 'json') {
+    return prepareJSONForComparison(text, {
+      ignoreKeyOrder: options.ignoreKeyOrder,
+      ignoreArrayOrder: options.ignoreArrayOrder,
+      arrayIdentityKeys: options.arrayIdentityKeys,
+      ignoredPaths: options.ignoredPaths,
+      looseTypes: options.looseTypes,
+      nullEqualsMissing: options.nullEqualsMissing,
+      ignoreWhitespace: options.ignoreWhitespace,
+    }).text;
+  }
+
+  if (format === 'xml') {
+    // XML attribute order normalization of the formatted text
+    // (prepareXMLForComparison handles the case where whitespace is preserved)
+    if (options.ignoreAttributeOrder && options.ignoreWhitespace) {
+      text = normalizeXML(text);
+    }
+    return prepareXMLForComparison(text, {
+      ignoreAttributeOrder: options.ignoreAttributeOrder,
+      ignoreWhitespace: options.ignoreWhitespace,
+      caseSensitive: options.caseSensitive,
+    }).text;
+  }
+
+  return prepareTextForComparison(text).text;
+};
+
+/**
+ * Validate both inputs and, when both are valid, normalize and diff them
+ * Progress is reported whenever the overall percentage changes
+ */
+export function runComparison(
+  leftInput: string,
+  rightInput: string,
+  format: FormatType,
+  options: DiffOptions,
+  { onProgress, cache, semantic = false, signal }: ComparisonRunOptions = {}
+): ComparisonRunResult {
+  const checkCancelled = () => {
+    if (signal?.aborted) throw new ComparisonCancelledError();
+  };
+
+  let lastPhase: ComparisonPhase | null = null;
+  let lastPercent = -1;
+  const report = (phase: ComparisonPhase, percent: number) => {
+    const rounded = Math.floor(percent);
+    if (phase === lastPhase && rounded === lastPercent) return;
+    lastPhase = phase;
+    lastPercent = rounded;
+    onProgress?.({ phase, percent: rounded });
+  };
+
+  // Validation only depends on the input and its format
+  const getSide = (cached: CachedSide | null, input: string): CachedSide =>
+    cached && cached.input === input && cached.format === format
+      ? cached
+      : { input, format, validation: validateInput(input, format) };
+
+  checkCancelled();
+  report('validate', PHASE_START.validate);
+  const left = getSide(cache?.left ?? null, leftInput);
+  checkCancelled();
+  report('validate', (PHASE_START.validate + PHASE_START.normalize) / 2);
+  const right = getSide(cache?.right ?? null, rightInput);
+  if (cache) {
+    cache.left = left;
+    cache.right = right;
+  }
+
+  const leftValidation = left.validation;
+  const rightValidation = right.validation;
+
+  if (!leftValidation.isValid || !rightValidation.isValid) {
+    return { leftValidation, rightValidation, diffResult: null, structuralDiff: null, mergePatch: null, ignoredDifferences: null };
+  }
+
+  checkCancelled();
+  report('normalize', PHASE_START.normalize);
+
+  // Normalization depends on the options that change the text, not on how it is diffed
+  const normalizeKey = [
+    options.ignoreWhitespace,
+    options.caseSensitive,
+    options.ignoreKeyOrder,
+    options.ignoreArrayOrder,
+    options.ignoreAttributeOrder,
+    JSON.stringify(options.arrayIdentityKeys || []),
+    JSON.stringify(options.ignoredPaths || []),
+    options.looseTypes,
+    options.nullEqualsMissing,
+  ].join('|');
+  const getText = (side: CachedSide): string | undefined => {
+    if (side.normalized?.key !== normalizeKey) {
+      side.normalized = {
+        key: normalizeKey,
+        text: normalizeForDiff(side.input, side.validation, format, options),
+      };
+    }
+    return side.normalized.text;
+  };
+  let leftText = getText(left);
+  checkCancelled();
+  let rightText = getText(right);
+
+  if (leftText === undefined || rightText === undefined) {
+    return { leftValidation, rightValidation, diffResult: EMPTY_DIFF, structuralDiff: null, mergePatch: null, ignoredDifferences: null };
+  }
+
+  // The numeric tolerance depends on both sides, so it is applied after the per-side normalization
+  let rightDisplay = rightText;
+  if (format === 'json') {
+    ({ left: leftText, right: rightText, rightDisplay } = alignJSONForComparison(leftText, rightText, {
+      numericTolerance: options.numericTolerance,
+      arrayIdentityKeys: options.arrayIdentityKeys,
+    }));
+  }
+
+  checkCancelled();
+
+  // Line diff progress fills the rest of the run
+  const diffShare = 100 - PHASE_START.diff;
+  const onDiffProgress = (processed: number, total: number) =>
+    report('diff', PHASE_START.diff + (total > 0 ? (processed / total) * diffShare : diffShare));
+
+  const lineOptions = {
+    ignoreWhitespace: options.ignoreWhitespace || false,
+    caseSensitive: options.caseSensitive !== false, // default true
+  };
+  const lineDiff = computeLineByLineDiff(leftText, rightText, {
+    ...lineOptions,
+    // Word level highlighting is a text comparison feature
+    textCompareMode: format === 'text' ? options.textCompareMode || 'line' : 'line',
+    diffAlgorithm: options.diffAlgorithm,
+    detectMoves: options.detectMoves || false,
+    minMoveSize: options.minMoveSize,
+    onProgress: onDiffProgress,
+    cache: cache?.lines,
+  });
+
+  if (format !== 'json') {
+    return { leftValidation, rightValidation, diffResult: lineDiff, structuralDiff: null, mergePatch: null, ignoredDifferences: null };
+  }
+
+  // Numbers within the tolerance were compared as equal; the right side shows them as entered
+  const diffResult = restoreRightLines(lineDiff, rightDisplay, lineOptions);
+
+  checkCancelled();
+  // Parsed losslessly: numbers keep every digit they are written with
+  const leftValue = parseJSONValue(leftInput);
+  const rightValue = parseJSONValue(rightInput);
+
+  // Key order never matters to the structural diff: objects are compared key by key
+  const structuralOptions: StructuralDiffOptions = {
+    ignoreArrayOrder: options.ignoreArrayOrder,
+    ignoreWhitespace: options.ignoreWhitespace,
+    caseSensitive: options.caseSensitive,
+    arrayIdentityKeys: options.arrayIdentityKeys,
+    ignoredPaths: options.ignoredPaths,
+    numericTolerance: options.numericTolerance,
+    looseTypes: options.looseTypes,
+    nullEqualsMissing: options.nullEqualsMissing,
+  };
+  const structuralDiff = semantic ? diffJSONValues(leftValue, rightValue, structuralOptions) : null;
+
+  // Differences hidden by the ignore rules are still counted
+  const ignoredDifferences = options.ignoredPaths?.length
+    ? countIgnoredDifferences(leftValue, rightValue, structuralOptions)
+    : null;
+
+  // The merge patch turns the documents as entered into each other, whatever the options
+  const mergePatch = generateMergePatch(leftValue, rightValue);
+
+  return { leftValidation, rightValidation, diffResult, structuralDiff, mergePatch, ignoredDifferences };
+}
@@ -6,20 +6,35 @@
  */
 
 import { compareWords, splitIntoWords } from './wordComparison';
+import { myersDiff, MatchPair, DiffProgressCallback } from './myersDiff';
+import { patienceDiff } from './patienceDiff';
+import { histogramDiff } from './histogramDiff';
+import { detectMovedBlocks } from './moveDetection';
+import { matchLinesIncrementally, LineDiffCache } from './incrementalDiff';
+import { hasNumericTolerance } from './jsonTolerance';
+import type { DiffAlgorithm, NumericTolerance } from '../types/common';
 
-export type DiffType = 'added' | 'removed' | 'changed' | 'unchanged';
+export type DiffType = 'added' | 'removed' | 'changed' | 'unchanged' | 'moved';
 
 export interface WordDiff {
   word: string;
   type: DiffType;
 }
 
+export interface CharDiff {
+  value: string;
+  type: 'added' | 'removed' | 'unchanged';
+}
+
 export interface DiffLine {
   type: DiffType;
   content: string;
   lineNumber: number;
   correspondingLine?: number; // Line number in the other input
   words?: WordDiff[]; // Word-level diff for word mode
+  charDiff?: CharDiff[]; // Character-level diff of a changed line in line mode
+  moveId?: number; // Shared by all lines of one moved block (type 'moved')
+  movedTo?: number; // Line number of the moved line in the other input
 }
 
 export interface DiffResult {
@@ -34,8 +49,39 @@ export interface DiffOptions {
   ignoreKeyOrder?: boolean; // For JSON comparison
   ignoreAttributeOrder?: boolean; // For XML comparison
   textCompareMode?: 'line' | 'word'; // For text comparison
+  diffAlgorithm?: DiffAlgorithm; // Line matching strategy (default: myers)
+  detectMoves?: boolean; // Report relocated blocks as 'moved' instead of removed + added
+  minMoveSize?: number; // Minimum lines in a block for it to count as moved
+  onProgress?: DiffProgressCallback; // Lines matched so far, for progress reporting
+  cache?: LineDiffCache; // Previous matches to reuse when re-diffing edited inputs
 }
 
+// Default minimum block size for moved block detection
+export const DEFAULT_MIN_MOVE_SIZE = 3;
+
+/**
+ * Line matching strategy: returns matching index pairs between two
+ * sequences of interned line ids, sorted by index
+ * Strategies may report progress; those that do not are reported as done on return
+ */
+export type DiffStrategy = (
+  left: readonly number[],
+  right: readonly number[],
+  onProgress?: DiffProgressCallback
+) => MatchPair[];
+
+/**
+ * Registry of available diff algorithms
+ * - myers: minimal edit script, best general-purpose default
+ * - patience: anchors on unique lines, most readable for code and JSON
+ * - histogram: patience variant that also anchors on low-frequency lines
+ */
+export const diffStrategies: Record<DiffAlgorithm, DiffStrategy> = {
+  myers: myersDiff,
+  patience: patienceDiff,
+  histogram: histogramDiff,
+};
+
 /**
  * Normalize a line based on diff options
  */
@@ -92,8 +138,10 @@ export const sortObjectKeys = (obj: any): any => {
 };
 
 /**
- * Performs a simple line-by-line diff between two strings
- * Uses a basic LCS (Longest Common Subsequence) inspired algorithm
+ * Performs a line-by-line diff between two strings
+ * Matches normalized lines with the selected strategy (Myers by default),
+ * optionally detects moved blocks, then pairs the remaining removed/added
+ * lines at the same position as "changed"
  */
 export const computeDiff = (
   left: string, 
@@ -103,209 +151,155 @@ export const computeDiff = (
   const leftLines = left.split('\n');
   const rightLines = right.split('\n');
 
+  // Intern normalized lines so the diff compares small integers instead of strings
+  const lineIds = new Map<string, number>();
+  const toLineId = (normalized: string): number => {
+    let id = lineIds.get(normalized);
+    if (id === undefined) {
+      id = lineIds.size;
+      lineIds.set(normalized, id);
+    }
+    return id;
+  };
+  const leftNormalized = leftLines.map((line) => normalizeLine(line, options));
+  const rightNormalized = rightLines.map((line) => normalizeLine(line, options));
+  const leftIds = leftNormalized.map(toLineId);
+  const rightIds = rightNormalized.map(toLineId);
+
+  const algorithm = options.diffAlgorithm || 'myers';
+  const strategy = diffStrategies[algorithm] || myersDiff;
+  const totalLines = leftIds.length + rightIds.length;
+  options.onProgress?.(0, totalLines);
+  const matches = options.cache
+    ? matchLinesIncrementally(
+        options.cache,
+        algorithm,
+        strategy,
+        leftNormalized,
+        rightNormalized,
+        leftIds,
+        rightIds,
+        options.onProgress
+      )
+    : strategy(leftIds, rightIds, options.onProgress);
+  options.onProgress?.(totalLines, totalLines);
+
+  let moves: ReturnType<typeof detectMovedBlocks> | null = null;
+  if (options.detectMoves) {
+    const blankIds = new Set<number>();
+    lineIds.forEach((id, normalized) => {
+      if (normalized.trim() === '') blankIds.add(id);
+    });
+    moves = detectMovedBlocks(
+      leftIds,
+      rightIds,
+      matches,
+      options.minMoveSize || DEFAULT_MIN_MOVE_SIZE,
+      blankIds
+    );
+  }
+
   const leftResult: DiffLine[] = [];
   const rightResult: DiffLine[] = [];
-
   let hasChanges = false;
+
   let leftIndex = 0;
   let rightIndex = 0;
 
-  // Maximum distance to search ahead for matching lines
-  // This prevents performance issues with large files (1000+ lines)
-  // and ensures accurate line-by-line diff by only matching nearby lines
-  // 100 lines is sufficient for most real-world edits while maintaining performance
-  const MAX_SEARCH_DISTANCE = 100;
-
-  // Helper function to compare lines based on options
-  const linesMatch = (leftLine: string, rightLine: string): boolean => {
-    const normalizedLeft = normalizeLine(leftLine, options);
-    const normalizedRight = normalizeLine(rightLine, options);
-    return normalizedLeft === normalizedRight;
-  };
-
-  // Simple diff algorithm
-  while (leftIndex < leftLines.length || rightIndex < rightLines.length) {
-    const leftLine = leftLines[leftIndex];
-    const rightLine = rightLines[rightIndex];
-
-    if (leftIndex >= leftLines.length) {
-      // Only right lines remain - they are added
-      rightResult.push({
-        type: 'added',
-        content: rightLine,
-        lineNumber: rightIndex + 1,
-      });
+  // Emit the unmatched lines before the next match (or the end of both inputs)
+  const emitGap = (leftEnd: number, rightEnd: number) => {
+    if (leftIndex < leftEnd || rightIndex < rightEnd) {
       hasChanges = true;
-      rightIndex++;
-    } else if (rightIndex >= rightLines.length) {
-      // Only left lines remain - they are removed
-      leftResult.push({
-        type: 'removed',
-        content: leftLine,
-        lineNumber: leftIndex + 1,
-      });
-      hasChanges = true;
-      leftIndex++;
-    } else if (linesMatch(leftLine, rightLine)) {
-      // Lines are identical
-      leftResult.push({
-        type: 'unchanged',
-        content: leftLine,
-        lineNumber: leftIndex + 1,
-        correspondingLine: rightIndex + 1,
-      });
-      rightResult.push({
-        type: 'unchanged',
-        content: rightLine,
-        lineNumber: rightIndex + 1,
-        correspondingLine: leftIndex + 1,
-      });
-      leftIndex++;
-      rightIndex++;
-    } else {
-      // Lines are different - check if next lines match within MAX_SEARCH_DISTANCE
-      // This limits search to prevent performance issues and ensures accurate line-by-line matching
-      const searchEndRight = Math.min(rightIndex + MAX_SEARCH_DISTANCE + 1, rightLines.length);
-      const searchEndLeft = Math.min(leftIndex + MAX_SEARCH_DISTANCE + 1, leftLines.length);
-      
-      let leftNextMatch = -1;
-      for (let idx = rightIndex + 1; idx < searchEndRight; idx++) {
-        if (linesMatch(leftLine, rightLines[idx])) {
-          leftNextMatch = idx;
-          break;
-        }
-      }
-      
-      let rightNextMatch = -1;
-      for (let idx = leftIndex + 1; idx < searchEndLeft; idx++) {
-        if (linesMatch(rightLine, leftLines[idx])) {
-          rightNextMatch = idx;
-          break;
-        }
-      }
+    }
 
-      if (leftNextMatch !== -1 && (rightNextMatch === -1 || leftNextMatch < rightNextMatch)) {
-        // Right line was added
-        rightResult.push({
-          type: 'added',
-          content: rightLine,
-          lineNumber: rightIndex + 1,
+    // Moved lines are reported on their own; the remaining lines at the same
+    // position in the gap are treated as changed, any surplus as removed/added
+    const leftPending: number[] = [];
+    const rightPending: number[] = [];
+    for (let i = leftIndex; i < leftEnd; i++) {
+      if (!moves?.leftMoves.has(i)) leftPending.push(i);
+    }
+    for (let j = rightIndex; j < rightEnd; j++) {
+      if (!moves?.rightMoves.has(j)) rightPending.push(j);
+    }
+    const pairedCount = Math.min(leftPending.length, rightPending.length);
+
+    let pendingIndex = 0;
+    for (; leftIndex < leftEnd; leftIndex++) {
+      const move = moves?.leftMoves.get(leftIndex);
+      if (move) {
+        leftResult.push({
+          type: 'moved',
+          content: leftLines[leftIndex],
+          lineNumber: leftIndex + 1,
+          moveId: move.moveId,
+          movedTo: move.counterpartIndex + 1,
+        });
+      } else if (pendingIndex < pairedCount) {
+        leftResult.push({
+          type: 'changed',
+          content: leftLines[leftIndex],
+          lineNumber: leftIndex + 1,
+          correspondingLine: rightPending[pendingIndex++] + 1,
         });
-        hasChanges = true;
-        rightIndex++;
-      } else if (rightNextMatch !== -1) {
-        // Left line was removed
+      } else {
         leftResult.push({
           type: 'removed',
-          content: leftLine,
+          content: leftLines[leftIndex],
           lineNumber: leftIndex + 1,
         });
-        hasChanges = true;
-        leftIndex++;
+      }
+    }
+
+    pendingIndex = 0;
+    for (; rightIndex < rightEnd; rightIndex++) {
+      const move = moves?.rightMoves.get(rightIndex);
+      if (move) {
+        rightResult.push({
+          type: 'moved',
+          content: rightLines[rightIndex],
+          lineNumber: rightIndex + 1,
+          moveId: move.moveId,
+          movedTo: move.counterpartIndex + 1,
+        });
+      } else if (pendingIndex < pairedCount) {
+        rightResult.push({
+          type: 'changed',
+          content: rightLines[rightIndex],
+          lineNumber: rightIndex + 1,
+          correspondingLine: leftPending[pendingIndex++] + 1,
+        });
       } else {
-        // Lines are different and no future matches found within search distance
-        // When lines are at the same position but different, they should default to "CHANGED"
-        // REMOVED/ADDED should only be used when documents are structurally very different
-        
-        // Check if we're near the end of one document - if so, treat as removed/added
-        const leftRemaining = leftLines.length - leftIndex;
-        const rightRemaining = rightLines.length - rightIndex;
-        const isNearEnd = leftRemaining <= 2 || rightRemaining <= 2;
-        
-        // If near the end of one document, prefer removed/added over changed
-        if (isNearEnd) {
-          leftResult.push({
-            type: 'removed',
-            content: leftLine,
-            lineNumber: leftIndex + 1,
-          });
-          rightResult.push({
-            type: 'added',
-            content: rightLine,
-            lineNumber: rightIndex + 1,
-          });
-          hasChanges = true;
-          leftIndex++;
-          rightIndex++;
-        } else {
-          // Use a balanced look-ahead window to determine structural similarity
-          // Increased from 3 to 10 for better accuracy while maintaining performance
-          const lookAheadWindow = 10;
-          const leftWindow = leftLines.slice(leftIndex + 1, leftIndex + 1 + lookAheadWindow);
-          const rightWindow = rightLines.slice(rightIndex + 1, rightIndex + 1 + lookAheadWindow);
-          
-          // Quick check: if windows are empty, treat as removed/added
-          if (leftWindow.length === 0 || rightWindow.length === 0) {
-            leftResult.push({
-              type: 'removed',
-              content: leftLine,
-              lineNumber: leftIndex + 1,
-            });
-            rightResult.push({
-              type: 'added',
-              content: rightLine,
-              lineNumber: rightIndex + 1,
-            });
-            hasChanges = true;
-            leftIndex++;
-            rightIndex++;
-          } else {
-            // Count matches efficiently to determine structural similarity
-            let matches = 0;
-            const checkedRight = new Set<number>();
-            for (let i = 0; i < leftWindow.length; i++) {
-              for (let j = 0; j < rightWindow.length; j++) {
-                if (!checkedRight.has(j) && linesMatch(leftWindow[i], rightWindow[j])) {
-                  matches++;
-                  checkedRight.add(j);
-                  break;
-                }
-              }
-            }
-            
-            // Calculate match rate based on the smaller window for more conservative assessment
-            // Only treat as removed/added if documents are VERY structurally different (< 10% match rate)
-            // Otherwise, default to "changed" since lines are at the same position
-            const matchRate = matches / Math.min(leftWindow.length, rightWindow.length, 1);
-            const isStructurallyDifferent = matchRate < 0.1;
-            
-            if (isStructurallyDifferent) {
-              // Documents are completely structurally different - prefer removed/added
-              leftResult.push({
-                type: 'removed',
-                content: leftLine,
-                lineNumber: leftIndex + 1,
-              });
-              rightResult.push({
-                type: 'added',
-                content: rightLine,
-                lineNumber: rightIndex + 1,
-              });
-            } else {
-              // Lines are at the same position but different - this is a "CHANGED" line
-              // This is the default case for line-by-line comparison
-              leftResult.push({
-                type: 'changed',
-                content: leftLine,
-                lineNumber: leftIndex + 1,
-                correspondingLine: rightIndex + 1,
-              });
-              rightResult.push({
-                type: 'changed',
-                content: rightLine,
-                lineNumber: rightIndex + 1,
-                correspondingLine: leftIndex + 1,
-              });
-            }
-            hasChanges = true;
-            leftIndex++;
-            rightIndex++;
-          }
-        }
+        rightResult.push({
+          type: 'added',
+          content: rightLines[rightIndex],
+          lineNumber: rightIndex + 1,
+        });
       }
     }
+  };
+
+  for (const match of matches) {
+    emitGap(match.leftIndex, match.rightIndex);
+
+    leftResult.push({
+      type: 'unchanged',
+      content: leftLines[leftIndex],
+      lineNumber: leftIndex + 1,
+      correspondingLine: rightIndex + 1,
+    });
+    rightResult.push({
+      type: 'unchanged',
+      content: rightLines[rightIndex],
+      lineNumber: rightIndex + 1,
+      correspondingLine: leftIndex + 1,
+    });
+    leftIndex++;
+    rightIndex++;
   }
 
+  emitGap(leftLines.length, rightLines.length);
+
   return {
     leftLines: leftResult,
     rightLines: rightResult,
@@ -324,12 +318,22 @@ export function computeLineByLineDiff(
     ignoreWhitespace?: boolean;
     caseSensitive?: boolean;
     textCompareMode?: 'line' | 'word';
+    diffAlgorithm?: DiffAlgorithm;
+    detectMoves?: boolean;
+    minMoveSize?: number;
+    onProgress?: DiffProgressCallback;
+    cache?: LineDiffCache;
   } = {}
 ): DiffResult {
   const result = computeDiff(leftText, rightText, {
     ignoreWhitespace: options.ignoreWhitespace || false,
     caseSensitive: options.caseSensitive !== false, // default true
     textCompareMode: options.textCompareMode || 'line',
+    diffAlgorithm: options.diffAlgorithm || 'myers',
+    detectMoves: options.detectMoves || false,
+    minMoveSize: options.minMoveSize,
+    onProgress: options.onProgress,
+    cache: options.cache,
   });
   
   // If word mode, add word-level diff to each line
@@ -369,58 +373,159 @@ export function computeLineByLineDiff(
         rightLine.words = words.map(w => ({ word: w, type: 'added' as const }));
       }
     }
+  } else {
+    // Line mode: highlight the characters that differ within each changed pair
+    for (const leftLine of result.leftLines) {
+      if (leftLine.type !== 'changed' || leftLine.correspondingLine === undefined) continue;
+      // Right lines are stored in order, so line N sits at index N - 1
+      const rightLine = result.rightLines[leftLine.correspondingLine - 1];
+      const charDiff = computeLineDiff(leftLine.content, rightLine.content, {
+        ignoreWhitespace: options.ignoreWhitespace || false,
+        caseSensitive: options.caseSensitive !== false,
+      });
+      // Nothing in common: highlighting every character adds no information
+      if (charDiff.leftParts.some((part) => part.type === 'unchanged' && part.value.trim() !== '')) {
+        leftLine.charDiff = charDiff.leftParts;
+        rightLine.charDiff = charDiff.rightParts;
+      }
+    }
   }
   
   return result;
 }
 
+/**
+ * Whether a diff was computed on exactly these texts, line for line and
+ * with exact line matching (not ignoring whitespace, case or close numbers)
+ * Diffs of normalized JSON or XML, or of inputs edited since, are not
+ */
+export function isExactDiffOf(
+  diff: DiffResult,
+  leftText: string,
+  rightText: string,
+  options: { ignoreWhitespace?: boolean; caseSensitive?: boolean; numericTolerance?: NumericTolerance }
+): boolean {
+  if (options.ignoreWhitespace || options.caseSensitive === false || hasNumericTolerance(options.numericTolerance)) {
+    return false;
+  }
+  // Compared in place, stopping at the first difference, as this runs on every edit
+  const sameText = (lines: DiffLine[], text: string) => {
+    let start = 0;
+    for (let index = 0; index < lines.length; index++) {
+      const end = index === lines.length - 1 ? text.length : text.indexOf('\n', start);
+      const content = lines[index].content;
+      if (end === -1 || end - start !== content.length || !text.startsWith(content, start)) return false;
+      start = end + 1;
+    }
+    return start === text.length + 1;
+  };
+  return sameText(diff.leftLines, leftText) && sameText(diff.rightLines, rightText);
+}
+
 // Export DiffLineType as alias for DiffType for compatibility
 export type DiffLineType = DiffType;
 
+// Lines longer than this (in characters) only get their common prefix and suffix trimmed
+export const MAX_CHAR_DIFF_LENGTH = 2000;
+
 /**
- * Computes character-level diff for a single line
- * Useful for highlighting specific changes within a line
+ * Computes character-level diff for a pair of changed lines
+ * Matches characters with Myers, then absorbs short coincidental matches
+ * between edits so a rewritten word is highlighted as a whole instead of
+ * letter by letter. Each side gets its own parts: unchanged + removed on the
+ * left, unchanged + added on the right.
  */
-export const computeLineDiff = (left: string, right: string): { same: boolean; parts: Array<{ value: string; added?: boolean; removed?: boolean }> } => {
+export const computeLineDiff = (
+  left: string,
+  right: string,
+  options: { ignoreWhitespace?: boolean; caseSensitive?: boolean } = {}
+): { same: boolean; leftParts: CharDiff[]; rightParts: CharDiff[] } => {
   if (left === right) {
-    return { same: true, parts: [{ value: left }] };
+    return {
+      same: true,
+      leftParts: [{ value: left, type: 'unchanged' }],
+      rightParts: [{ value: right, type: 'unchanged' }],
+    };
   }
 
-  // Simple character-level diff
-  const parts: Array<{ value: string; added?: boolean; removed?: boolean }> = [];
-  let i = 0;
-  let j = 0;
-
-  while (i < left.length || j < right.length) {
-    if (i < left.length && j < right.length && left[i] === right[j]) {
-      // Characters match
-      let matchStr = '';
-      while (i < left.length && j < right.length && left[i] === right[j]) {
-        matchStr += left[i];
-        i++;
-        j++;
-      }
-      parts.push({ value: matchStr });
-    } else {
-      // Characters differ
-      let removedStr = '';
-      let addedStr = '';
-      
-      if (i < left.length) {
-        removedStr = left[i];
-        i++;
-      }
-      
-      if (j < right.length) {
-        addedStr = right[j];
-        j++;
+  // Split on code points so surrogate pairs are never cut in half
+  const leftChars = Array.from(left);
+  const rightChars = Array.from(right);
+  const caseSensitive = options.caseSensitive !== false;
+  const leftKeys = caseSensitive ? leftChars : leftChars.map((char) => char.toLowerCase());
+  const rightKeys = caseSensitive ? rightChars : rightChars.map((char) => char.toLowerCase());
+
+  // Matched characters per side
+  const leftMatched = new Uint8Array(leftChars.length);
+  const rightMatched = new Uint8Array(rightChars.length);
+
+  if (leftChars.length + rightChars.length > MAX_CHAR_DIFF_LENGTH) {
+    let prefix = 0;
+    const maxPrefix = Math.min(leftKeys.length, rightKeys.length);
+    while (prefix < maxPrefix && leftKeys[prefix] === rightKeys[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < maxPrefix - prefix &&
+      leftKeys[leftKeys.length - 1 - suffix] === rightKeys[rightKeys.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    leftMatched.fill(1, 0, prefix).fill(1, leftChars.length - suffix);
+    rightMatched.fill(1, 0, prefix).fill(1, rightChars.length - suffix);
+  } else {
+    const matches = myersDiff(leftKeys, rightKeys);
+
+    // Group matches into runs of consecutive characters
+    const runs: Array<{ leftStart: number; rightStart: number; length: number }> = [];
+    for (const match of matches) {
+      const last = runs[runs.length - 1];
+      if (last && last.leftStart + last.length === match.leftIndex && last.rightStart + last.length === match.rightIndex) {
+        last.length++;
+      } else {
+        runs.push({ leftStart: match.leftIndex, rightStart: match.rightIndex, length: 1 });
       }
+    }
+
+    // A run no longer than the edits on both sides of it is noise: treat it as changed
+    const kept = runs.filter((run, index) => {
+      const prev = runs[index - 1];
+      const next = runs[index + 1];
+      const prevLeftEnd = prev ? prev.leftStart + prev.length : 0;
+      const prevRightEnd = prev ? prev.rightStart + prev.length : 0;
+      const nextLeftStart = next ? next.leftStart : leftChars.length;
+      const nextRightStart = next ? next.rightStart : rightChars.length;
+      const editBefore = Math.max(run.leftStart - prevLeftEnd, run.rightStart - prevRightEnd);
+      const editAfter = Math.max(nextLeftStart - (run.leftStart + run.length), nextRightStart - (run.rightStart + run.length));
+      return run.length > editBefore || run.length > editAfter;
+    });
 
-      if (removedStr) parts.push({ value: removedStr, removed: true });
-      if (addedStr) parts.push({ value: addedStr, added: true });
+    for (const run of kept) {
+      leftMatched.fill(1, run.leftStart, run.leftStart + run.length);
+      rightMatched.fill(1, run.rightStart, run.rightStart + run.length);
     }
   }
 
-  return { same: false, parts };
-};
+  const toParts = (chars: string[], matched: Uint8Array, changeType: 'added' | 'removed'): CharDiff[] => {
+    const parts: CharDiff[] = [];
+    chars.forEach((char, index) => {
+      let type: CharDiff['type'] = matched[index] ? 'unchanged' : changeType;
+      // Whitespace edits are not differences when whitespace is ignored
+      if (type !== 'unchanged' && options.ignoreWhitespace && /^\s$/.test(char)) {
+        type = 'unchanged';
+      }
+      const last = parts[parts.length - 1];
+      if (last && last.type === type) {
+        last.value += char;
+      } else {
+        parts.push({ value: char, type });
+      }
+    });
+    return parts;
+  };
 
+  return {
+    same: false,
+    leftParts: toParts(leftChars, leftMatched, 'removed'),
+    rightParts: toParts(rightChars, rightMatched, 'added'),
+  };
+};
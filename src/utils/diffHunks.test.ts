@@ -0,0 +1,113 @@
+import { buildAlignedRows, computeHunks, copyChangeBlock, getChangeBlocks, AlignedRow } from './diffHunks';
+import { computeLineByLineDiff, DiffOptions } from './diffChecker';
+import { createRandom, mutateSequence, randomSequence } from '../test-utils/random';
+
+describe('copyChangeBlock', () => {
+  it('replaces only the lines of the block', () => {
+    const left = 'a\nb\nc\nd\ne\nf\ng\nh\ni';
+    const right = 'a\nB\nc\nd\ne\nf\ng\nH\ni';
+    const blocks = computeHunks(computeLineByLineDiff(left, right), 0).flatMap(getChangeBlocks);
+    expect(blocks).toHaveLength(2);
+    expect(copyChangeBlock(left, right, blocks[0], 'right')).toBe('a\nb\nc\nd\ne\nf\ng\nH\ni');
+    expect(copyChangeBlock(left, right, blocks[1], 'left')).toBe('a\nb\nc\nd\ne\nf\ng\nH\ni');
+  });
+
+  it('makes the target equal to the source once every block is copied', () => {
+    const random = createRandom(8);
+    for (let run = 0; run < 300; run++) {
+      const left = randomSequence(random, 30, 6).join('\n');
+      const right = mutateSequence(random, left.split('\n'), 1 + (run % 8), 6).join('\n');
+      const diff = computeLineByLineDiff(left, right, { detectMoves: run % 2 === 0, minMoveSize: 2 });
+      const blocks = computeHunks(diff, run % 3).flatMap(getChangeBlocks);
+
+      // Copied from the last block up, so that the line numbers of the others stay valid
+      let toRight = right;
+      let toLeft = left;
+      for (const block of [...blocks].reverse()) {
+        toRight = copyChangeBlock(left, toRight, block, 'right');
+        toLeft = copyChangeBlock(toLeft, right, block, 'left');
+      }
+      expect(toRight).toBe(left);
+      expect(toLeft).toBe(right);
+    }
+  });
+});
+
+// Rows as "2u|2u" (line number and first letter of the type per side), "gap0:3" and "block3,1/3,3"
+const describeRow = (row: AlignedRow): string => {
+  if (row.kind === 'collapsed') return `gap${row.gapIndex}:${row.hiddenCount}`;
+  if (row.kind === 'block') {
+    const { leftStart, leftCount, rightStart, rightCount } = row.block;
+    return `block${leftStart},${leftCount}/${rightStart},${rightCount}`;
+  }
+  const side = (line: typeof row.left) => (line ? `${line.lineNumber}${line.type[0]}` : '-');
+  return `${side(row.left)}|${side(row.right)}`;
+};
+
+const layout = (left: string, right: string, contextLines: number, options: DiffOptions = {}, expandedGaps = new Set<number>()) => {
+  const diff = computeLineByLineDiff(left, right, options);
+  return buildAlignedRows(diff, computeHunks(diff, contextLines), expandedGaps).map(describeRow);
+};
+
+describe('buildAlignedRows', () => {
+  it('pairs unequal change runs and fills the shorter side', () => {
+    const left = 'a\nb\nc\nd\ne\nf\ng';
+    const right = 'a\nb\nX\nY\nZ\nd\ne\nf\ng';
+    expect(layout(left, right, 1)).toEqual(['gap0:1', '2u|2u', 'block3,1/3,3', '3c|3c', '-|4a', '-|5a', '4u|6u', 'gap1:3']);
+    expect(layout('a\nb\nc\nd\ne', 'a\ne', 1)).toEqual(['1u|1u', 'block2,3/2,0', '2r|-', '3r|-', '4r|-', '5u|2u']);
+  });
+
+  it('shows the lines of expanded gaps', () => {
+    const left = 'a\nb\nc\nd\ne\nf\ng';
+    const right = 'a\nb\nX\nY\nZ\nd\ne\nf\ng';
+    expect(layout(left, right, 1, {}, new Set([1]))).toEqual([
+      'gap0:1',
+      '2u|2u',
+      'block3,1/3,3',
+      '3c|3c',
+      '-|4a',
+      '-|5a',
+      '4u|6u',
+      '5u|7u',
+      '6u|8u',
+      '7u|9u',
+    ]);
+  });
+
+  it('puts each side of a moved block on its own rows', () => {
+    const left = '1\n2\n3\n4\n5\n6\n7';
+    const right = '1\n6\n7\n2\n3\n4\n5';
+    expect(layout(left, right, 0, { detectMoves: true, minMoveSize: 2 })).toEqual([
+      'gap0:1',
+      'block2,0/2,2',
+      '-|2m',
+      '-|3m',
+      'gap1:4',
+      'block6,2/8,0',
+      '6m|-',
+      '7m|-',
+    ]);
+  });
+
+  it('lists every line of both sides once, in order, when all gaps are expanded', () => {
+    const random = createRandom(10);
+    for (let run = 0; run < 300; run++) {
+      const left = randomSequence(random, 30, 6).join('\n');
+      const right = mutateSequence(random, left.split('\n'), 1 + (run % 8), 6).join('\n');
+      const diff = computeLineByLineDiff(left, right, { detectMoves: run % 2 === 0, minMoveSize: 2 });
+      const hunks = computeHunks(diff, run % 3);
+      const rows = buildAlignedRows(diff, hunks, new Set(hunks.map((_, index) => index).concat(hunks.length)));
+      const lines = rows.flatMap((row) => (row.kind === 'line' ? [row] : []));
+      expect(lines.flatMap((row) => (row.left ? [row.left.lineNumber] : []))).toEqual(diff.leftLines.map((line) => line.lineNumber));
+      expect(lines.flatMap((row) => (row.right ? [row.right.lineNumber] : []))).toEqual(diff.rightLines.map((line) => line.lineNumber));
+      expect(rows.some((row) => row.kind === 'collapsed')).toBe(false);
+    }
+  });
+
+  it('leaves out the block actions when blocks cannot be copied', () => {
+    const diff = computeLineByLineDiff('a\nb\nc', 'a\nx\nc');
+    const hunks = computeHunks(diff);
+    expect(buildAlignedRows(diff, hunks).filter((row) => row.kind === 'block')).toHaveLength(1);
+    expect(buildAlignedRows(diff, hunks, new Set(), false).filter((row) => row.kind === 'block')).toHaveLength(0);
+  });
+});
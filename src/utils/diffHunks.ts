@@ -0,0 +1,241 @@
+/**
+ * Diff Hunk Utility
+ *
+ * Groups a line diff into hunks: runs of changed lines surrounded by a
+ * configurable number of unchanged context lines. Unchanged lines outside
+ * every hunk can be collapsed by the UI.
+ */
+
+import type { DiffLine, DiffResult } from './diffChecker';
+
+// Default number of unchanged lines shown around each change
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * A left/right pair of lines occupying the same position in the diff
+ * One side is absent for pure removals, additions and moved lines
+ */
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffHunk {
+  leftStart: number; // 1-based first left line (line it precedes when leftCount is 0)
+  leftCount: number;
+  rightStart: number; // 1-based first right line (line it precedes when rightCount is 0)
+  rightCount: number;
+  lines: DiffRow[];
+}
+
+/**
+ * Merge the two independent line arrays of a DiffResult into paired rows
+ * Unchanged and changed lines are paired through correspondingLine;
+ * within a change region, left-only rows come before right-only rows
+ */
+export function buildDiffRows(diff: DiffResult): DiffRow[] {
+  const rows: DiffRow[] = [];
+  const { leftLines, rightLines } = diff;
+  let i = 0;
+  let j = 0;
+
+  const isPaired = (line: DiffLine) => line.type === 'unchanged' || line.type === 'changed';
+
+  while (i < leftLines.length || j < rightLines.length) {
+    const left = leftLines[i];
+    const right = rightLines[j];
+
+    if (left && right && isPaired(left) && left.correspondingLine === right.lineNumber) {
+      rows.push({ left, right });
+      i++;
+      j++;
+    } else if (left && (!isPaired(left) || !right)) {
+      rows.push({ left });
+      i++;
+    } else {
+      rows.push({ right });
+      j++;
+    }
+  }
+
+  return rows;
+}
+
+const isUnchangedRow = (row: DiffRow): boolean =>
+  !!row.left && !!row.right && row.left.type === 'unchanged';
+
+/**
+ * Group paired rows into hunks with the given number of context lines
+ * A row counts as unchanged only when both sides are present and unchanged
+ */
+export function groupRowsIntoHunks(rows: DiffRow[], contextLines: number = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  const context = Math.max(0, contextLines);
+
+  // Row ranges [start, end) that must be visible, merged when they touch
+  const ranges: Array<{ start: number; end: number }> = [];
+  rows.forEach((row, index) => {
+    if (isUnchangedRow(row)) return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(rows.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  const hunks: DiffHunk[] = [];
+  let rowIndex = 0;
+  let leftLine = 1;
+  let rightLine = 1;
+
+  for (const range of ranges) {
+    // Skip the unchanged rows before the hunk
+    for (; rowIndex < range.start; rowIndex++) {
+      if (rows[rowIndex].left) leftLine++;
+      if (rows[rowIndex].right) rightLine++;
+    }
+
+    const lines = rows.slice(range.start, range.end);
+    const leftCount = lines.filter((row) => row.left).length;
+    const rightCount = lines.filter((row) => row.right).length;
+
+    hunks.push({ leftStart: leftLine, leftCount, rightStart: rightLine, rightCount, lines });
+
+    leftLine += leftCount;
+    rightLine += rightCount;
+    rowIndex = range.end;
+  }
+
+  return hunks;
+}
+
+/**
+ * Group a line diff into hunks with the given number of context lines
+ * Pass Infinity as contextLines to get a single hunk covering the whole diff
+ */
+export function computeHunks(diff: DiffResult, contextLines: number = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  return groupRowsIntoHunks(buildDiffRows(diff), contextLines);
+}
+
+/**
+ * A contiguous run of changed rows inside a hunk, the unit copied between sides
+ * Starts are 1-based; when a count is 0 the start is the line the block precedes
+ */
+export interface ChangeBlock {
+  rowIndex: number; // Index of the first row of the block in hunk.lines
+  leftStart: number;
+  leftCount: number;
+  rightStart: number;
+  rightCount: number;
+}
+
+/**
+ * Split a hunk into its change blocks, skipping the unchanged context rows
+ */
+export function getChangeBlocks(hunk: DiffHunk): ChangeBlock[] {
+  const blocks: ChangeBlock[] = [];
+  let leftLine = hunk.leftStart;
+  let rightLine = hunk.rightStart;
+  let current: ChangeBlock | null = null;
+
+  hunk.lines.forEach((row, rowIndex) => {
+    if (isUnchangedRow(row)) {
+      current = null;
+    } else {
+      if (!current) {
+        current = { rowIndex, leftStart: leftLine, leftCount: 0, rightStart: rightLine, rightCount: 0 };
+        blocks.push(current);
+      }
+      if (row.left) current.leftCount++;
+      if (row.right) current.rightCount++;
+    }
+    if (row.left) leftLine++;
+    if (row.right) rightLine++;
+  });
+
+  return blocks;
+}
+
+/**
+ * Copy a change block from one side to the other
+ * Returns the full rewritten text of the target side; only the lines of the
+ * block are replaced. Block line numbers must be lines of these texts, so
+ * blocks can only be copied for a diff of the texts as typed (isExactDiffOf)
+ */
+export function copyChangeBlock(leftText: string, rightText: string, block: ChangeBlock, target: 'left' | 'right'): string {
+  const sourceLines = (target === 'left' ? rightText : leftText).split('\n');
+  const targetLines = (target === 'left' ? leftText : rightText).split('\n');
+
+  const sourceStart = target === 'left' ? block.rightStart : block.leftStart;
+  const sourceCount = target === 'left' ? block.rightCount : block.leftCount;
+  const targetStart = target === 'left' ? block.leftStart : block.rightStart;
+  const targetCount = target === 'left' ? block.leftCount : block.rightCount;
+
+  const replacement = sourceLines.slice(sourceStart - 1, sourceStart - 1 + sourceCount);
+  return [
+    ...targetLines.slice(0, targetStart - 1),
+    ...replacement,
+    ...targetLines.slice(targetStart - 1 + targetCount),
+  ].join('\n');
+}
+
+/**
+ * One row of the side-by-side view; both panels render the same row list so
+ * corresponding lines always sit at the same height
+ * - line: a missing side is rendered as an empty filler line
+ * - collapsed: unchanged rows hidden between hunks (same count on both sides)
+ * - block: the copy actions shown above a change block, when blocks can be copied
+ */
+export type AlignedRow =
+  | { kind: 'line'; key: string; left?: DiffLine; right?: DiffLine }
+  | { kind: 'collapsed'; key: string; gapIndex: number; hiddenCount: number }
+  | { kind: 'block'; key: string; block: ChangeBlock };
+
+/**
+ * Lay out hunks as aligned rows, expanding the collapsed gaps listed in expandedGaps
+ * Gap n precedes hunk n; gap hunks.length follows the last hunk
+ */
+export function buildAlignedRows(
+  diff: DiffResult,
+  hunks: DiffHunk[],
+  expandedGaps: ReadonlySet<number> = new Set(),
+  withBlockActions = true
+): AlignedRow[] {
+  const rows: AlignedRow[] = [];
+  let nextLeft = 1;
+
+  // Rows between hunks are unchanged, so the left line locates its right counterpart
+  const pushGap = (gapIndex: number, endLeft: number) => {
+    const hiddenCount = endLeft - nextLeft;
+    if (hiddenCount <= 0) return;
+    if (!expandedGaps.has(gapIndex)) {
+      rows.push({ kind: 'collapsed', key: `gap-${gapIndex}`, gapIndex, hiddenCount });
+      return;
+    }
+    for (const left of diff.leftLines.slice(nextLeft - 1, endLeft - 1)) {
+      const right = diff.rightLines[left.correspondingLine! - 1];
+      rows.push({ kind: 'line', key: `l${left.lineNumber}-r${right.lineNumber}`, left, right });
+    }
+  };
+
+  hunks.forEach((hunk, hunkIndex) => {
+    pushGap(hunkIndex, hunk.leftStart);
+    const blocks = new Map(withBlockActions ? getChangeBlocks(hunk).map((block) => [block.rowIndex, block]) : []);
+    hunk.lines.forEach((row, rowIndex) => {
+      const block = blocks.get(rowIndex);
+      if (block) rows.push({ kind: 'block', key: `block-${hunkIndex}-${rowIndex}`, block });
+      rows.push({
+        kind: 'line',
+        key: `l${row.left?.lineNumber ?? '-'}-r${row.right?.lineNumber ?? '-'}`,
+        left: row.left,
+        right: row.right,
+      });
+    });
+    nextLeft = hunk.leftStart + hunk.leftCount;
+  });
+  pushGap(hunks.length, diff.leftLines.length + 1);
+
+  return rows;
+}
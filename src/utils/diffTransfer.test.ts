@@ -0,0 +1,53 @@
+import { packDiffResult, unpackDiffResult } from './diffTransfer';
+import { computeLineByLineDiff, DiffResult } from './diffChecker';
+import { createRandom, mutateSequence, randomInt, randomSequence } from '../test-utils/random';
+
+const roundTrip = (diff: DiffResult): DiffResult => unpackDiffResult(packDiffResult(diff).packed);
+
+describe('packDiffResult', () => {
+  it('lists the four buffers of each side for transfer', () => {
+    const { packed, transfer } = packDiffResult(computeLineByLineDiff('a\nb', 'a\nc'));
+    expect(transfer).toHaveLength(8);
+    expect(transfer[0]).toBe(packed.left.types.buffer);
+    expect(transfer[7]).toBe(packed.right.movedTo.buffer);
+    expect(packed.left.text).toBe('a\nb');
+  });
+
+  it('only keeps details for lines that have them', () => {
+    const { packed } = packDiffResult(computeLineByLineDiff('same\nold line', 'same\nnew line'));
+    expect(packed.left.details.map((detail) => detail.index)).toEqual([1]);
+  });
+});
+
+describe('unpackDiffResult', () => {
+  it('restores empty sides and sides with a single empty line', () => {
+    const empty: DiffResult = { leftLines: [], rightLines: [], hasChanges: false };
+    expect(roundTrip(empty)).toEqual(empty);
+    const blank = computeLineByLineDiff('', 'x');
+    expect(blank.leftLines).toEqual([expect.objectContaining({ content: '' })]);
+    expect(roundTrip(blank)).toEqual(blank);
+  });
+
+  it('restores random diffs exactly, with moves and word and character details', () => {
+    const random = createRandom(24);
+    const seen = { moved: 0, words: 0, charDiff: 0 };
+    for (let run = 0; run < 200; run++) {
+      const left = randomSequence(random, 30, 6).map((token, index) => `${token} line ${index % 7}`);
+      const right = mutateSequence(random, left, 1 + (run % 5), 6);
+      // Move a block so detectMoves has something to find
+      right.splice(randomInt(random, right.length + 1), 0, ...right.splice(randomInt(random, right.length), 4));
+      const diff = computeLineByLineDiff(left.join('\n'), right.join('\n'), {
+        detectMoves: run % 2 === 0,
+        minMoveSize: 2,
+        textCompareMode: run % 3 === 0 ? 'word' : 'line',
+      });
+      expect(roundTrip(diff)).toEqual(diff);
+      for (const line of [...diff.leftLines, ...diff.rightLines]) {
+        if (line.moveId) seen.moved++;
+        if (line.words) seen.words++;
+        if (line.charDiff) seen.charDiff++;
+      }
+    }
+    expect(Math.min(seen.moved, seen.words, seen.charDiff)).toBeGreaterThan(0);
+  });
+});
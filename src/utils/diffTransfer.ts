@@ -0,0 +1,108 @@
+/**
+ * Diff Transfer Utility
+ *
+ * Packs a DiffResult into typed arrays plus one string per side so it can be
+ * posted from the diff Web Worker with its buffers transferred instead of
+ * structured-cloning tens of thousands of line objects.
+ */
+
+import type { CharDiff, DiffLine, DiffResult, DiffType, WordDiff } from './diffChecker';
+
+const DIFF_TYPES: DiffType[] = ['unchanged', 'added', 'removed', 'changed', 'moved'];
+
+/**
+ * One side of a packed diff; line i has line number i + 1
+ * Zero in correspondingLines, moveIds and movedTo means the field is absent
+ */
+export interface PackedDiffSide {
+  text: string; // Line contents joined with '\n'
+  types: Uint8Array; // Index into DIFF_TYPES
+  correspondingLines: Int32Array;
+  moveIds: Int32Array;
+  movedTo: Int32Array;
+  details: Array<{ index: number; words?: WordDiff[]; charDiff?: CharDiff[] }>; // Only lines that have them
+}
+
+export interface PackedDiffResult {
+  left: PackedDiffSide;
+  right: PackedDiffSide;
+  hasChanges: boolean;
+}
+
+const packSide = (lines: DiffLine[]): PackedDiffSide => {
+  const side: PackedDiffSide = {
+    text: lines.map((line) => line.content).join('\n'),
+    types: new Uint8Array(lines.length),
+    correspondingLines: new Int32Array(lines.length),
+    moveIds: new Int32Array(lines.length),
+    movedTo: new Int32Array(lines.length),
+    details: [],
+  };
+
+  lines.forEach((line, index) => {
+    side.types[index] = DIFF_TYPES.indexOf(line.type);
+    side.correspondingLines[index] = line.correspondingLine ?? 0;
+    side.moveIds[index] = line.moveId ?? 0;
+    side.movedTo[index] = line.movedTo ?? 0;
+    if (line.words || line.charDiff) {
+      side.details.push({ index, words: line.words, charDiff: line.charDiff });
+    }
+  });
+
+  return side;
+};
+
+const unpackSide = (side: PackedDiffSide): DiffLine[] => {
+  if (side.types.length === 0) return [];
+
+  const contents = side.text.split('\n');
+  const lines: DiffLine[] = contents.map((content, index) => {
+    const line: DiffLine = {
+      type: DIFF_TYPES[side.types[index]],
+      content,
+      lineNumber: index + 1,
+    };
+    if (side.correspondingLines[index]) line.correspondingLine = side.correspondingLines[index];
+    if (side.moveIds[index]) line.moveId = side.moveIds[index];
+    if (side.movedTo[index]) line.movedTo = side.movedTo[index];
+    return line;
+  });
+
+  for (const detail of side.details) {
+    if (detail.words) lines[detail.index].words = detail.words;
+    if (detail.charDiff) lines[detail.index].charDiff = detail.charDiff;
+  }
+
+  return lines;
+};
+
+/**
+ * Pack a diff for postMessage; transfer lists the buffers that can be moved
+ */
+export function packDiffResult(diff: DiffResult): { packed: PackedDiffResult; transfer: ArrayBuffer[] } {
+  const packed: PackedDiffResult = {
+    left: packSide(diff.leftLines),
+    right: packSide(diff.rightLines),
+    hasChanges: diff.hasChanges,
+  };
+
+  const transfer = [packed.left, packed.right].flatMap((side) => [
+    side.types.buffer as ArrayBuffer,
+    side.correspondingLines.buffer as ArrayBuffer,
+    side.moveIds.buffer as ArrayBuffer,
+    side.movedTo.buffer as ArrayBuffer,
+  ]);
+
+  return { packed, transfer };
+}
+
+/**
+ * Rebuild the DiffResult packed by packDiffResult
+ */
+export function unpackDiffResult(packed: PackedDiffResult): DiffResult {
+  return {
+    leftLines: unpackSide(packed.left),
+    rightLines: unpackSide(packed.right),
+    hasChanges: packed.hasChanges,
+  };
+}
@@ -0,0 +1,39 @@
+import { histogramDiff } from './histogramDiff';
+import type { MatchPair } from './myersDiff';
+import { createRandom, lcsLength, mutateSequence, randomSequence } from '../test-utils/random';
+
+const isCommonSubsequence = (left: string[], right: string[], matches: MatchPair[]) =>
+  matches.every(
+    (match, index) =>
+      left[match.leftIndex] === right[match.rightIndex] &&
+      (index === 0 ||
+        (match.leftIndex > matches[index - 1].leftIndex && match.rightIndex > matches[index - 1].rightIndex))
+  );
+
+describe('histogramDiff', () => {
+  it('returns a common subsequence of random sequences, never longer than the longest one', () => {
+    const random = createRandom(2);
+    for (let run = 0; run < 500; run++) {
+      const left = randomSequence(random, 40, 2 + (run % 8));
+      const right = mutateSequence(random, left, 1 + (run % 6), 8);
+      const matches = histogramDiff(left, right);
+      expect(isCommonSubsequence(left, right, matches)).toBe(true);
+      expect(matches.length).toBeLessThanOrEqual(lcsLength(left, right));
+    }
+  });
+
+  it('matches every line of identical inputs', () => {
+    const lines = ['{', 'a', '}', '{', 'b', '}'];
+    expect(histogramDiff(lines, lines)).toHaveLength(lines.length);
+  });
+
+  it('handles a large region without anchors', () => {
+    // No element is a usable anchor, so the whole region falls back to Myers
+    const repeated = Array.from({ length: 150000 }, (_, index) => (index % 2 === 0 ? 'a' : 'b'));
+    const left = ['x', ...repeated, 'y'];
+    const right = ['z', ...repeated, 'w'];
+    const matches = histogramDiff(left, right);
+    expect(matches).toHaveLength(repeated.length);
+    expect(isCommonSubsequence(left, right, matches)).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Histogram Diff Algorithm
+ *
+ * Extension of patience diff (as used by git and JGit): instead of requiring
+ * unique elements, it anchors on the longest common region around the
+ * lowest-occurrence element and recurses on both sides of it.
+ * Regions where every element is too common fall back to Myers.
+ */
+
+import { myersDiffRange, MatchPair } from './myersDiff';
+
+// Elements occurring more often than this are never used as anchors
+const MAX_CHAIN_LENGTH = 64;
+
+interface Range {
+  leftStart: number;
+  leftEnd: number;
+  rightStart: number;
+  rightEnd: number;
+}
+
+interface Region {
+  leftStart: number;
+  leftEnd: number;
+  rightStart: number;
+  rightEnd: number;
+  occurrences: number;
+}
+
+/**
+ * Find the longest common region seeded by the rarest shared element in a range
+ */
+function findAnchorRegion<T>(left: readonly T[], right: readonly T[], range: Range): Region | null {
+  const leftPositions = new Map<T, number[]>();
+  for (let i = range.leftStart; i < range.leftEnd; i++) {
+    const positions = leftPositions.get(left[i]);
+    if (positions) {
+      positions.push(i);
+    } else {
+      leftPositions.set(left[i], [i]);
+    }
+  }
+
+  let best: Region | null = null;
+
+  let j = range.rightStart;
+  while (j < range.rightEnd) {
+    const positions = leftPositions.get(right[j]);
+    let nextJ = j + 1;
+
+    if (
+      positions &&
+      positions.length <= MAX_CHAIN_LENGTH &&
+      (!best || positions.length <= best.occurrences)
+    ) {
+      for (const i of positions) {
+        let leftStart = i;
+        let rightStart = j;
+        while (
+          leftStart > range.leftStart &&
+          rightStart > range.rightStart &&
+          left[leftStart - 1] === right[rightStart - 1]
+        ) {
+          leftStart--;
+          rightStart--;
+        }
+
+        let leftEnd = i + 1;
+        let rightEnd = j + 1;
+        while (leftEnd < range.leftEnd && rightEnd < range.rightEnd && left[leftEnd] === right[rightEnd]) {
+          leftEnd++;
+          rightEnd++;
+        }
+
+        const length = leftEnd - leftStart;
+        if (
+          !best ||
+          positions.length < best.occurrences ||
+          length > best.leftEnd - best.leftStart
+        ) {
+          best = { leftStart, leftEnd, rightStart, rightEnd, occurrences: positions.length };
+        }
+
+        // Everything up to the end of this region was already covered by the extension
+        nextJ = Math.max(nextJ, rightEnd);
+      }
+    }
+
+    j = nextJ;
+  }
+
+  return best;
+}
+
+/**
+ * Compute matching element pairs between two sequences using histogram diff
+ */
+export function histogramDiff<T>(left: readonly T[], right: readonly T[]): MatchPair[] {
+  const matches: MatchPair[] = [];
+  const stack: Range[] = [
+    { leftStart: 0, leftEnd: left.length, rightStart: 0, rightEnd: right.length },
+  ];
+
+  while (stack.length > 0) {
+    const range = stack.pop()!;
+
+    if (range.leftStart === range.leftEnd || range.rightStart === range.rightEnd) {
+      continue;
+    }
+
+    const region = findAnchorRegion(left, right, range);
+
+    if (!region) {
+      // Appended one by one: spreading a large region into push overflows the call stack
+      for (const match of myersDiffRange(left, right, range.leftStart, range.leftEnd, range.rightStart, range.rightEnd)) {
+        matches.push(match);
+      }
+      continue;
+    }
+
+    for (let i = region.leftStart, j = region.rightStart; i < region.leftEnd; i++, j++) {
+      matches.push({ leftIndex: i, rightIndex: j });
+    }
+
+    stack.push({
+      leftStart: range.leftStart,
+      leftEnd: region.leftStart,
+      rightStart: range.rightStart,
+      rightEnd: region.rightStart,
+    });
+    stack.push({
+      leftStart: region.leftEnd,
+      leftEnd: range.leftEnd,
+      rightStart: region.rightEnd,
+      rightEnd: range.rightEnd,
+    });
+  }
+
+  return matches.sort((a, b) => a.leftIndex - b.leftIndex);
+}
@@ -0,0 +1,74 @@
+import { matchLinesIncrementally, createLineDiffCache } from './incrementalDiff';
+import { diffStrategies } from './diffChecker';
+import { createRandom, randomInt, Random } from '../test-utils/random';
+import type { DiffAlgorithm } from '../types/common';
+
+const intern = (left: string[], right: string[]) => {
+  const ids = new Map<string, number>();
+  const id = (line: string) => {
+    if (!ids.has(line)) ids.set(line, ids.size);
+    return ids.get(line)!;
+  };
+  return { leftIds: left.map(id), rightIds: right.map(id) };
+};
+
+// Lines repeat a lot, as braces and blank lines do in real inputs
+const randomLine = (random: Random) => (random() < 0.3 ? '}' : random() < 0.3 ? '' : `x${randomInt(random, 4)}`);
+
+/**
+ * Replace, insert or delete a few lines of one side; the inputs are copied, never mutated
+ */
+const edit = (random: Random, left: string[], right: string[]): [string[], string[]] => {
+  const editLeft = random() < 0.5;
+  const lines = [...(editLeft ? left : right)];
+  const index = randomInt(random, lines.length + 1);
+  const kind = randomInt(random, 3);
+  for (let count = 1 + randomInt(random, 4); count > 0; count--) {
+    if (kind === 0 || lines.length === 0) lines.splice(index, 0, randomLine(random));
+    else if (kind === 1) lines.splice(Math.min(index, lines.length - 1), 1);
+    else lines[Math.min(index + count, lines.length - 1)] = randomLine(random);
+  }
+  return editLeft ? [lines, right] : [left, lines];
+};
+
+describe('matchLinesIncrementally', () => {
+  it.each<DiffAlgorithm>(['myers', 'patience', 'histogram'])(
+    'matches as many lines as a full %s diff over a series of edits',
+    (algorithm) => {
+      const random = createRandom(15);
+      const strategy = diffStrategies[algorithm];
+      for (let series = 0; series < 10; series++) {
+        const cache = createLineDiffCache();
+        let left = Array.from({ length: 60 }, () => randomLine(random));
+        let right = left.map((line) => (random() < 0.3 ? randomLine(random) : line));
+        for (let step = 0; step < 80; step++) {
+          [left, right] = edit(random, left, right);
+          const { leftIds, rightIds } = intern(left, right);
+          const matches = matchLinesIncrementally(cache, algorithm, strategy, left, right, leftIds, rightIds);
+          expect(matches).toHaveLength(strategy(leftIds, rightIds).length);
+          expect(matches.every((match) => left[match.leftIndex] === right[match.rightIndex])).toBe(true);
+        }
+      }
+    }
+  );
+
+  it('only diffs the edited window while typing on a line', () => {
+    const cache = createLineDiffCache();
+    const right = Array.from({ length: 1000 }, (_, index) => `line ${index}`);
+    let left = [...right];
+    const sizes: number[] = [];
+    const strategy = (a: readonly number[], b: readonly number[]) => {
+      sizes.push(a.length + b.length);
+      return diffStrategies.myers(a, b);
+    };
+    for (const typed of ['line 500!', 'line 500!!', 'line 500!!!']) {
+      left = [...left];
+      left[500] = typed;
+      const { leftIds, rightIds } = intern(left, right);
+      expect(matchLinesIncrementally(cache, 'myers', strategy, left, right, leftIds, rightIds)).toHaveLength(999);
+    }
+    // The first keystroke unmatches a line, so it is diffed in full; the next ones only diff the window
+    expect(sizes[0]).toBe(2000);
+    expect(sizes.slice(1).every((size) => size < 10)).toBe(true);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Incremental Line Diff
+ *
+ * Re-diffs edited versions of the same two inputs (live diff while typing).
+ * Matches of the previous run that lie entirely in the unchanged prefix or
+ * suffix of both sides are kept, so only the window around the edit is passed
+ * to the diff strategy again. A window diff is only used when it provably
+ * matches as many lines as a full diff would; otherwise, and for the
+ * heuristic algorithms, the whole input is diffed again.
+ */
+
+import type { MatchPair, DiffProgressCallback } from './myersDiff';
+import type { DiffStrategy } from './diffChecker';
+import type { DiffAlgorithm } from '../types/common';
+
+/**
+ * Normalized lines and matches of the last diff computed with this cache
+ * Create one per pair of inputs with createLineDiffCache
+ */
+export interface LineDiffCache {
+  snapshot: {
+    algorithm: DiffAlgorithm;
+    left: string[];
+    right: string[];
+    matches: MatchPair[];
+  } | null;
+}
+
+export const createLineDiffCache = (): LineDiffCache => ({
+  snapshot: null,
+});
+
+/**
+ * Number of lines the two versions share at the start and at the end
+ * The suffix only overlaps the prefix when nothing changed at all
+ */
+const findUnchangedEnds = (previous: string[], next: string[]): { prefix: number; suffix: number } => {
+  const limit = Math.min(previous.length, next.length);
+  let prefix = 0;
+  while (prefix < limit && previous[prefix] === next[prefix]) prefix++;
+  if (prefix === previous.length && prefix === next.length) {
+    return { prefix, suffix: prefix };
+  }
+  let suffix = 0;
+  while (
+    suffix < limit - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return { prefix, suffix };
+};
+
+/**
+ * Matches of the edited inputs reusing those of the previous run outside the
+ * edited lines, or null when they cannot be shown to be as long as a full diff
+ *
+ * The previous matches are a longest common subsequence (Myers). Edits never
+ * lengthen it by more than the inserted lines that occur on the other side,
+ * so a window diff reaching that bound is a longest common subsequence too.
+ */
+function diffChangedWindow(
+  previous: NonNullable<LineDiffCache['snapshot']>,
+  strategy: DiffStrategy,
+  leftLines: string[],
+  rightLines: string[],
+  leftIds: readonly number[],
+  rightIds: readonly number[]
+): MatchPair[] | null {
+  const leftEnds = findUnchangedEnds(previous.left, leftLines);
+  const rightEnds = findUnchangedEnds(previous.right, rightLines);
+  const leftSuffixStart = previous.left.length - leftEnds.suffix;
+  const rightSuffixStart = previous.right.length - rightEnds.suffix;
+
+  // Leading matches between lines that are unchanged on both sides stay valid as they are
+  let headEnd = 0;
+  while (
+    headEnd < previous.matches.length &&
+    previous.matches[headEnd].leftIndex < leftEnds.prefix &&
+    previous.matches[headEnd].rightIndex < rightEnds.prefix
+  ) {
+    headEnd++;
+  }
+
+  // Trailing ones stay valid once shifted by the change in length
+  let tailStart = previous.matches.length;
+  while (
+    tailStart > headEnd &&
+    previous.matches[tailStart - 1].leftIndex >= leftSuffixStart &&
+    previous.matches[tailStart - 1].rightIndex >= rightSuffixStart
+  ) {
+    tailStart--;
+  }
+
+  const leftShift = leftLines.length - previous.left.length;
+  const rightShift = rightLines.length - previous.right.length;
+  const head = previous.matches.slice(0, headEnd);
+  const tail = previous.matches.slice(tailStart).map((match) => ({
+    leftIndex: match.leftIndex + leftShift,
+    rightIndex: match.rightIndex + rightShift,
+  }));
+
+  // Only the lines between the last kept leading match and the first kept trailing one are diffed
+  const leftStart = head.length > 0 ? head[head.length - 1].leftIndex + 1 : 0;
+  const rightStart = head.length > 0 ? head[head.length - 1].rightIndex + 1 : 0;
+  const leftEnd = tail.length > 0 ? tail[0].leftIndex : leftLines.length;
+  const rightEnd = tail.length > 0 ? tail[0].rightIndex : rightLines.length;
+  const windowMatches = strategy(leftIds.slice(leftStart, leftEnd), rightIds.slice(rightStart, rightEnd));
+
+  // Inserted lines can only add a match when they occur on the other side
+  const countMatchable = (ids: readonly number[], from: number, to: number, other: readonly number[]) => {
+    const otherIds = new Set(other);
+    let count = 0;
+    for (let i = from; i < to; i++) {
+      if (otherIds.has(ids[i])) count++;
+    }
+    return count;
+  };
+  const bound = previous.matches.length
+    + countMatchable(leftIds, leftEnds.prefix, leftLines.length - leftEnds.suffix, rightIds)
+    + countMatchable(rightIds, rightEnds.prefix, rightLines.length - rightEnds.suffix, leftIds);
+  if (head.length + windowMatches.length + tail.length < bound) return null;
+
+  return head.concat(
+    windowMatches.map((match) => ({
+      leftIndex: match.leftIndex + leftStart,
+      rightIndex: match.rightIndex + rightStart,
+    })),
+    tail
+  );
+}
+
+/**
+ * Match normalized lines, reusing previous matches stored in the cache where
+ * the result is the same length as a full diff
+ * leftIds/rightIds are the interned ids of leftLines/rightLines; the cache is
+ * updated with the new result
+ */
+export function matchLinesIncrementally(
+  cache: LineDiffCache,
+  algorithm: DiffAlgorithm,
+  strategy: DiffStrategy,
+  leftLines: string[],
+  rightLines: string[],
+  leftIds: readonly number[],
+  rightIds: readonly number[],
+  onProgress?: DiffProgressCallback
+): MatchPair[] {
+  const previous = cache.snapshot;
+
+  // Only Myers finds a longest common subsequence, which the window check relies on;
+  // patience and histogram results depend on the whole input
+  const reused = previous && previous.algorithm === algorithm && algorithm === 'myers'
+    ? diffChangedWindow(previous, strategy, leftLines, rightLines, leftIds, rightIds)
+    : null;
+  const matches = reused ?? strategy(leftIds, rightIds, onProgress);
+
+  cache.snapshot = { algorithm, left: leftLines, right: rightLines, matches };
+  return matches;
+}
@@ -0,0 +1,100 @@
+import {
+  createIdentityKeyLookup,
+  formatArrayIdentityKeys,
+  getElementIdentity,
+  pairElementsByIdentity,
+  parseArrayIdentityKeys,
+  sortArraysByIdentity,
+} from './jsonArrayIdentity';
+import { parseJSONValue, serializeJSONNode, JSONNode } from './jsonParser';
+
+const items = (text: string): JSONNode[] => {
+  const value = parseJSONValue(text);
+  return value.type === 'array' ? value.items : [];
+};
+
+const sorted = (text: string, path: string, key: string): string =>
+  serializeJSONNode(sortArraysByIdentity(parseJSONValue(text), [{ path, key }]), 0);
+
+describe('parseArrayIdentityKeys', () => {
+  it('reads path=key entries and returns the malformed ones', () => {
+    expect(parseArrayIdentityKeys('$.users[*]=id, $.orders=number\n=id, $.a=, $.[=x')).toEqual({
+      rules: [
+        { path: '$.users[*]', key: 'id' },
+        { path: '$.orders', key: 'number' },
+      ],
+      invalid: ['=id', '$.a=', '$.[=x'],
+    });
+    expect(formatArrayIdentityKeys([{ path: '$.users[*]', key: 'id' }])).toBe('$.users[*]=id');
+  });
+});
+
+describe('createIdentityKeyLookup', () => {
+  it('matches the array whether the rule names it or its elements', () => {
+    const lookup = createIdentityKeyLookup([
+      { path: '$.users[*]', key: 'id' },
+      { path: '$..tags', key: 'name' },
+      { path: '$.groups[*].members', key: 'email' },
+    ])!;
+    expect(lookup(['users'])).toBe('id');
+    expect(lookup(['a', 'b', 'tags'])).toBe('name');
+    expect(lookup(['groups', 3, 'members'])).toBe('email');
+    expect(lookup(['users', 0])).toBeUndefined();
+    expect(lookup(['members'])).toBeUndefined();
+    expect(createIdentityKeyLookup([])).toBeNull();
+  });
+});
+
+describe('getElementIdentity', () => {
+  it('uses scalar key members only, and numbers by value', () => {
+    const [a, b, c, d, e, f] = items('[{"id": 1.0}, {"id": 1}, {"id": "1"}, {"id": true}, {"id": null}, {"other": 1}]');
+    expect(getElementIdentity(a, 'id')).toBe(getElementIdentity(b, 'id'));
+    expect(getElementIdentity(c, 'id')).not.toBe(getElementIdentity(b, 'id'));
+    expect(getElementIdentity(d, 'id')).toBe('true');
+    expect(getElementIdentity(e, 'id')).toBeUndefined();
+    expect(getElementIdentity(f, 'id')).toBeUndefined();
+    expect(getElementIdentity(parseJSONValue('7'), 'id')).toBeUndefined();
+    expect(getElementIdentity(parseJSONValue('{"id": {"x": 1}}'), 'id')).toBeUndefined();
+  });
+});
+
+describe('pairElementsByIdentity', () => {
+  it('pairs elements by key wherever they are', () => {
+    expect(pairElementsByIdentity(items('[{"id": 1}, {"id": 2}, {"id": 3}]'), items('[{"id": 3}, {"id": 1}]'), 'id')).toEqual([
+      1,
+      undefined,
+      0,
+    ]);
+  });
+
+  it('pairs duplicate keys in order of appearance', () => {
+    expect(
+      pairElementsByIdentity(
+        items('[{"id": 1, "n": "a"}, {"id": 1, "n": "b"}, {"id": 1, "n": "c"}]'),
+        items('[{"id": 2}, {"id": 1}, {"id": 1}]'),
+        'id'
+      )
+    ).toEqual([1, 2, undefined]);
+  });
+
+  it('pairs elements without the key, and elements that are not objects, in order among themselves', () => {
+    expect(
+      pairElementsByIdentity(items('[5, {"id": 1}, {"name": "x"}, "s"]'), items('[{"name": "y"}, {"id": 1}, 6]'), 'id')
+    ).toEqual([0, 1, 2, undefined]);
+  });
+});
+
+describe('sortArraysByIdentity', () => {
+  it('orders keyed elements by key, numbers by value, and keeps the rest after them in order', () => {
+    expect(sorted('{"users": [{"id": 10}, "x", {"id": 9}, {"name": "n"}, {"id": 9007199254740993}]}', '$.users[*]', 'id')).toBe(
+      '{"users":[{"id":9},{"id":10},{"id":9007199254740993},"x",{"name":"n"}]}'
+    );
+    expect(sorted('{"users": [{"id": "b"}, {"id": "a"}]}', '$.users', 'id')).toBe('{"users":[{"id":"a"},{"id":"b"}]}');
+  });
+
+  it('only sorts the arrays the rule matches', () => {
+    const text = '{"a": [{"id": 2}, {"id": 1}], "b": {"a": [{"id": 2}, {"id": 1}]}}';
+    expect(sorted(text, '$.a[*]', 'id')).toBe('{"a":[{"id":1},{"id":2}],"b":{"a":[{"id":2},{"id":1}]}}');
+    expect(sorted(text, '$..a[*]', 'id')).toBe('{"a":[{"id":1},{"id":2}],"b":{"a":[{"id":1},{"id":2}]}}');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Array Identity Keys
+ *
+ * Rules that identify the elements of JSON arrays by a key member, such as
+ * the records of $.users[*] by id. Keyed arrays are ordered by that key for
+ * the line diff and matched element by element for the structural diff, so
+ * reordering them is not a change and an edited record stays paired with
+ * its original.
+ */
+
+import { matchJSONPath, parseJSONPath, splitJSONPathList, JSONPathPattern } from './jsonPath';
+import { getJSONMember, serializeJSONNode, JSONNode } from './jsonParser';
+import { canonicalizeJSONNumber, compareJSONNumbers } from './jsonNumber';
+import type { JSONPathSegment } from './jsonStructuralDiff';
+import type { ArrayIdentityKey } from '../types/common';
+
+interface CompiledIdentityKey {
+  pattern: JSONPathPattern; // Matches the array itself
+  key: string;
+}
+
+/**
+ * Parse identity key rules written as path=key, separated by commas or new lines
+ * Entries that are not of that form or whose path is not a valid JSONPath are returned as invalid
+ */
+export function parseArrayIdentityKeys(text: string): { rules: ArrayIdentityKey[]; invalid: string[] } {
+  const rules: ArrayIdentityKey[] = [];
+  const invalid: string[] = [];
+  for (const entry of splitJSONPathList(text)) {
+    const separator = entry.lastIndexOf('=');
+    const path = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator <= 0 || key === '' || !parseJSONPath(path)) {
+      invalid.push(entry);
+    } else {
+      rules.push({ path, key });
+    }
+  }
+  return { rules, invalid };
+}
+
+export function formatArrayIdentityKeys(rules: ArrayIdentityKey[]): string {
+  return rules.map((rule) => `${rule.path}=${rule.key}`).join(', ');
+}
+
+/**
+ * Compile the rules; a rule names the elements ($.users[*]) or the array ($.users)
+ */
+const compile = (rules: ArrayIdentityKey[]): CompiledIdentityKey[] => {
+  const compiled: CompiledIdentityKey[] = [];
+  for (const rule of rules) {
+    const pattern = parseJSONPath(rule.path);
+    if (!pattern) continue;
+    const last = pattern.tokens[pattern.tokens.length - 1];
+    const tokens = last?.type === 'wildcard' ? pattern.tokens.slice(0, -1) : pattern.tokens;
+    compiled.push({ pattern: { source: pattern.source, tokens }, key: rule.key });
+  }
+  return compiled;
+};
+
+/**
+ * Look up the identity key of arrays by their path
+ */
+export function createIdentityKeyLookup(
+  rules: ArrayIdentityKey[] | undefined
+): ((segments: JSONPathSegment[]) => string | undefined) | null {
+  const compiled = compile(rules || []);
+  if (compiled.length === 0) return null;
+  return (segments) => compiled.find((rule) => matchJSONPath(rule.pattern, segments))?.key;
+}
+
+const getIdentityMember = (element: JSONNode, key: string): JSONNode | undefined => {
+  if (element.type !== 'object') return undefined;
+  const value = getJSONMember(element, key);
+  return value && (value.type === 'string' || value.type === 'number' || value.type === 'boolean') ? value : undefined;
+};
+
+/**
+ * Identity of an array element: its key member when that is a string, number or boolean
+ * Numbers equal in value share an identity however they are written
+ */
+export function getElementIdentity(element: JSONNode, key: string): string | undefined {
+  const value = getIdentityMember(element, key);
+  switch (value?.type) {
+    case 'string':
+      return JSON.stringify(value.value);
+    case 'number':
+      return canonicalizeJSONNumber(value.raw);
+    case 'boolean':
+      return String(value.value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Pair the elements of two versions of a keyed array
+ * Elements with the same identity are paired wherever they are; elements
+ * without one are paired in order among themselves. Returns, for each old
+ * element, the index of its new counterpart or undefined when it has none
+ */
+export function pairElementsByIdentity(oldItems: JSONNode[], newItems: JSONNode[], key: string): Array<number | undefined> {
+  const newByIdentity = new Map<string, number[]>();
+  const unkeyedNew: number[] = [];
+  newItems.forEach((item, index) => {
+    const identity = getElementIdentity(item, key);
+    if (identity === undefined) {
+      unkeyedNew.push(index);
+    } else {
+      const indexes = newByIdentity.get(identity) || [];
+      indexes.push(index);
+      newByIdentity.set(identity, indexes);
+    }
+  });
+
+  return oldItems.map((item) => {
+    const identity = getElementIdentity(item, key);
+    return identity === undefined ? unkeyedNew.shift() : newByIdentity.get(identity)?.shift();
+  });
+}
+
+const compareIdentities = (a: JSONNode, b: JSONNode): number => {
+  if (a.type === 'number' && b.type === 'number') return compareJSONNumbers(a.raw, b.raw);
+  const aText = serializeJSONNode(a, 0);
+  const bText = serializeJSONNode(b, 0);
+  return aText < bText ? -1 : aText > bText ? 1 : 0;
+};
+
+/**
+ * Order the elements of keyed arrays by their key
+ * Elements without a usable key keep their relative order after the keyed ones
+ */
+export function sortArraysByIdentity(value: JSONNode, rules: ArrayIdentityKey[] | undefined): JSONNode {
+  const lookup = createIdentityKeyLookup(rules);
+  if (!lookup) return value;
+
+  const visit = (node: JSONNode, segments: JSONPathSegment[]): JSONNode => {
+    if (node.type === 'array') {
+      const items = node.items.map((item, index) => {
+        segments.push(index);
+        const visited = visit(item, segments);
+        segments.pop();
+        return visited;
+      });
+      const key = lookup(segments);
+      if (key === undefined) return { type: 'array', items };
+
+      const keyed: Array<{ item: JSONNode; identity: JSONNode }> = [];
+      const rest: JSONNode[] = [];
+      for (const item of items) {
+        const identity = getIdentityMember(item, key);
+        if (identity) {
+          keyed.push({ item, identity });
+        } else {
+          rest.push(item);
+        }
+      }
+      keyed.sort((a, b) => compareIdentities(a.identity, b.identity));
+      return { type: 'array', items: keyed.map(({ item }) => item).concat(rest) };
+    }
+
+    if (node.type !== 'object') return node;
+
+    return {
+      type: 'object',
+      members: node.members.map((member) => {
+        segments.push(member.key);
+        const visited = visit(member.value, segments);
+        segments.pop();
+        return { key: member.key, value: visited };
+      }),
+    };
+  };
+
+  return visit(value, []);
+}
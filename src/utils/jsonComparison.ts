@@ -1,104 +1,148 @@
 // JSON comparison utilities
 
-import { validateJSON, validateJSONWithoutFormatting, normalizeJSON, normalizeJSONAdvanced, normalizeJSONStringWhitespace } from './jsonValidation';
-import { computeLineByLineDiff, DiffResult } from './diffChecker';
+import { validateJSON, validateJSONWithoutFormatting, normalizeJSON, normalizeJSONAdvanced, normalizeJSONWhitespace } from './jsonValidation';
+import { parseJSONValue, serializeJSONNode } from './jsonParser';
+import { computeLineDiff, DiffLine, DiffResult } from './diffChecker';
+import { sortArraysByIdentity } from './jsonArrayIdentity';
+import { maskIgnoredPaths } from './jsonIgnoredPaths';
+import { alignNumbersWithinTolerance, hasNumericTolerance, normalizeJSONValueTypes } from './jsonTolerance';
+import type { ArrayIdentityKey, NumericTolerance } from '../types/common';
 
 export interface ComparisonOptions {
   ignoreKeyOrder?: boolean;
   ignoreArrayOrder?: boolean;
+  arrayIdentityKeys?: ArrayIdentityKey[]; // Order these arrays by a key member of their elements
+  ignoredPaths?: string[]; // JSONPath or glob patterns ($..updatedAt, meta.*) of nodes left out of the diff
+  numericTolerance?: NumericTolerance; // Numbers this close are equal
+  looseTypes?: boolean; // 1, 1.0 and "1" are equal
+  nullEqualsMissing?: boolean; // A member set to null is the same as no member
   ignoreWhitespace?: boolean;
-  caseSensitive?: boolean;
 }
 
 /**
- * Compare two JSON strings
+ * Validate one JSON input and normalize it for line diffing
+ * text is undefined when the input is invalid
  */
-export function compareJSON(
-  leftInput: string,
-  rightInput: string,
+export function prepareJSONForComparison(
+  input: string,
   options: ComparisonOptions = {}
 ): {
-  leftValidation: ReturnType<typeof validateJSON>;
-  rightValidation: ReturnType<typeof validateJSON>;
-  diff?: DiffResult;
+  validation: ReturnType<typeof validateJSON>;
+  text?: string;
 } {
   // Step 1: Validate JSON (use appropriate validation based on ignoreWhitespace)
   // When ignoreWhitespace is false, validate without formatting to preserve structure
   // When ignoreWhitespace is true, use normal validation with formatting
-  const leftValidation = options.ignoreWhitespace 
-    ? validateJSON(leftInput)
-    : validateJSONWithoutFormatting(leftInput);
-  const rightValidation = options.ignoreWhitespace
-    ? validateJSON(rightInput)
-    : validateJSONWithoutFormatting(rightInput);
-
-  // Step 2: Check if both are valid
-  if (!leftValidation.isValid || !rightValidation.isValid) {
-    return {
-      leftValidation,
-      rightValidation,
-    };
+  const validation = options.ignoreWhitespace
+    ? validateJSON(input)
+    : validateJSONWithoutFormatting(input);
+
+  if (!validation.isValid) {
+    return { validation };
   }
 
-  // Step 3: Get text for comparison
+  // Step 2: Get text for comparison
   // When ignoreWhitespace is OFF, use original input to preserve ALL formatting differences
   // When ignoreWhitespace is ON, use formatted version as starting point
-  let leftText: string;
-  let rightText: string;
-  
-  if (options.ignoreWhitespace) {
-    // When ignoring whitespace, use formatted version as starting point
-    leftText = leftValidation.formatted || leftInput;
-    rightText = rightValidation.formatted || rightInput;
-  } else {
-    // When NOT ignoring whitespace, use original input to preserve exact formatting
-    // We've already validated it's valid JSON, so we can safely use the original
-    leftText = leftInput;
-    rightText = rightInput;
+  // (we've already validated it's valid JSON, so we can safely use the original)
+  let text = options.ignoreWhitespace ? (validation.formatted || input) : input;
+
+  // Steps 2b to 5 go through the lossless parser, so big numbers keep their digits
+  // Step 2b: Drop the ignored nodes; the rest is re-serialized
+  if (options.ignoredPaths && options.ignoredPaths.length > 0) {
+    text = serializeJSONNode(maskIgnoredPaths(parseJSONValue(text), options.ignoredPaths), 2);
   }
 
-  // Step 4.5: Normalize whitespace in string values if ignoreWhitespace is enabled
+  // Step 2c: Coerce numeric strings and drop null members; re-serializing also turns 1.0 into 1
+  if (options.looseTypes || options.nullEqualsMissing) {
+    text = serializeJSONNode(normalizeJSONValueTypes(parseJSONValue(text), options), 2);
+  }
+
+  // Step 3: Normalize whitespace in string values if ignoreWhitespace is enabled
   if (options.ignoreWhitespace) {
-    try {
-      const leftParsed = JSON.parse(leftText);
-      const rightParsed = JSON.parse(rightText);
-      const leftNormalized = normalizeJSONStringWhitespace(leftParsed);
-      const rightNormalized = normalizeJSONStringWhitespace(rightParsed);
-      leftText = JSON.stringify(leftNormalized, null, 2);
-      rightText = JSON.stringify(rightNormalized, null, 2);
-    } catch {
-      // If parsing fails, continue with original text
-      // This shouldn't happen since we already validated, but handle gracefully
-    }
+    text = normalizeJSONWhitespace(text);
   }
 
-  // Step 5: Normalization (if ignoreKeyOrder or ignoreArrayOrder is enabled)
+  // Step 4: Normalization (if ignoreKeyOrder or ignoreArrayOrder is enabled)
   // When ignoreKeyOrder or ignoreArrayOrder is enabled, we normalize the structure
   // by sorting keys/arrays. This will format the JSON, but that's acceptable since
   // we're comparing semantic structure, not exact formatting.
-  if (options.ignoreKeyOrder || options.ignoreArrayOrder) {
-    if (options.ignoreArrayOrder) {
-      // Use advanced normalization that sorts both keys and arrays
-      // When ignoring array order, we also need to sort keys within array elements
-      leftText = normalizeJSONAdvanced(leftText, true);
-      rightText = normalizeJSONAdvanced(rightText, true);
-    } else if (options.ignoreKeyOrder) {
-      // Only sort keys (not arrays)
-      leftText = normalizeJSON(leftText);
-      rightText = normalizeJSON(rightText);
-    }
+  if (options.ignoreArrayOrder) {
+    // Use advanced normalization that sorts both keys and arrays
+    // When ignoring array order, we also need to sort keys within array elements
+    text = normalizeJSONAdvanced(text, true);
+  } else if (options.ignoreKeyOrder) {
+    // Only sort keys (not arrays)
+    text = normalizeJSON(text);
   }
 
-  // Step 6 & 7: Compute diff with options
-  const diff = computeLineByLineDiff(leftText, rightText, {
-    ignoreWhitespace: options.ignoreWhitespace || false,
-    caseSensitive: options.caseSensitive !== false, // default true
-  });
+  // Step 5: Order keyed arrays by identity so that matching records line up
+  // This runs last so that it wins over the general array sort
+  if (options.arrayIdentityKeys && options.arrayIdentityKeys.length > 0) {
+    text = serializeJSONNode(sortArraysByIdentity(parseJSONValue(text), options.arrayIdentityKeys), 2);
+  }
+
+  return { validation, text };
+}
+
+/**
+ * Apply the numeric tolerance to two prepared texts
+ * right is the text the line diff compares, in which right numbers close to
+ * their left counterparts take the left value; rightDisplay is the right
+ * side as prepared, line for line the same, for restoreRightLines to show.
+ * With a tolerance all of them are re-serialized so that they are formatted alike
+ */
+export function alignJSONForComparison(
+  leftText: string,
+  rightText: string,
+  options: ComparisonOptions = {}
+): { left: string; right: string; rightDisplay: string } {
+  if (!hasNumericTolerance(options.numericTolerance)) {
+    return { left: leftText, right: rightText, rightDisplay: rightText };
+  }
 
+  const left = parseJSONValue(leftText);
+  const right = parseJSONValue(rightText);
+  const aligned = alignNumbersWithinTolerance(left, right, options.numericTolerance, options.arrayIdentityKeys);
   return {
-    leftValidation,
-    rightValidation,
-    diff,
+    left: serializeJSONNode(left, 2),
+    right: serializeJSONNode(aligned, 2),
+    rightDisplay: serializeJSONNode(right, 2),
   };
 }
 
+/**
+ * Show the right side as prepared in a diff of its aligned text
+ * Lines whose numbers are within the tolerance keep their unchanged marker
+ * but show the right number; changed lines get their character highlights again
+ */
+export function restoreRightLines(
+  diff: DiffResult,
+  rightDisplay: string,
+  options: { ignoreWhitespace?: boolean; caseSensitive?: boolean } = {}
+): DiffResult {
+  const contents = rightDisplay.split('\n');
+  if (diff.rightLines.every((line, index) => line.content === contents[index])) {
+    return diff;
+  }
+
+  const leftLines = diff.leftLines.map((line) => ({ ...line }));
+  const rightLines = diff.rightLines.map((line, index): DiffLine => {
+    if (line.content === contents[index]) return line;
+    const restored: DiffLine = { ...line, content: contents[index] };
+    delete restored.charDiff;
+    if (restored.type === 'changed' && restored.correspondingLine !== undefined) {
+      const leftLine = leftLines[restored.correspondingLine - 1];
+      const charDiff = computeLineDiff(leftLine.content, restored.content, options);
+      delete leftLine.charDiff;
+      // As in the line diff: no highlights when the lines have nothing in common
+      if (charDiff.leftParts.some((part) => part.type === 'unchanged' && part.value.trim() !== '')) {
+        leftLine.charDiff = charDiff.leftParts;
+        restored.charDiff = charDiff.rightParts;
+      }
+    }
+    return restored;
+  });
+
+  return { ...diff, leftLines, rightLines };
+}
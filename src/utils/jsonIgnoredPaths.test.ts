@@ -0,0 +1,78 @@
+import { createIgnoredPathMatcher, maskIgnoredPaths, parseIgnoredPaths } from './jsonIgnoredPaths';
+import { countIgnoredDifferences, diffJSONValues } from './jsonStructuralDiff';
+import { parseJSONValue, serializeJSONNode } from './jsonParser';
+
+const mask = (text: string, paths: string[]): string => serializeJSONNode(maskIgnoredPaths(parseJSONValue(text), paths), 0);
+
+describe('parseIgnoredPaths', () => {
+  it('splits the rules and returns the malformed ones', () => {
+    expect(parseIgnoredPaths("$..updatedAt, meta.*\n$['first name'], $.., $x, $['a, b")).toEqual({
+      paths: ['$..updatedAt', 'meta.*', "$['first name']"],
+      // An unclosed bracket runs to the end, since brackets may hold commas
+      invalid: ['$..', '$x', "$['a, b"],
+    });
+  });
+});
+
+describe('createIgnoredPathMatcher', () => {
+  it('matches JSONPath patterns', () => {
+    const isIgnored = createIgnoredPathMatcher(['$..updatedAt', '$.items[*].id', "$['first name']", '$.list[1]'])!;
+    expect(isIgnored(['updatedAt'])).toBe(true);
+    expect(isIgnored(['a', 0, 'updatedAt'])).toBe(true);
+    expect(isIgnored(['items', 4, 'id'])).toBe(true);
+    expect(isIgnored(['items', 'x', 'id'])).toBe(true);
+    expect(isIgnored(['first name'])).toBe(true);
+    expect(isIgnored(['list', 1])).toBe(true);
+    expect(isIgnored(['list', 2])).toBe(false);
+    expect(isIgnored(['items', 4, 'name'])).toBe(false);
+    expect(isIgnored(['updated'])).toBe(false);
+  });
+
+  it('matches glob patterns', () => {
+    const isIgnored = createIgnoredPathMatcher(['meta.*', '**.createdAt', 'cache.**'])!;
+    expect(isIgnored(['meta', 'version'])).toBe(true);
+    expect(isIgnored(['meta'])).toBe(false);
+    expect(isIgnored(['createdAt'])).toBe(true);
+    expect(isIgnored(['a', 'b', 'createdAt'])).toBe(true);
+    expect(isIgnored(['cache', 'x', 'y'])).toBe(true);
+    expect(isIgnored(['data', 'meta', 'version'])).toBe(false);
+  });
+
+  it('ignores the descendants of an ignored node', () => {
+    const isIgnored = createIgnoredPathMatcher(['$.meta'])!;
+    expect(isIgnored(['meta', 'a', 0])).toBe(true);
+    expect(isIgnored([])).toBe(false);
+  });
+
+  it('is null without valid rules', () => {
+    expect(createIgnoredPathMatcher(undefined)).toBeNull();
+    expect(createIgnoredPathMatcher(['$.['])).toBeNull();
+  });
+});
+
+describe('maskIgnoredPaths', () => {
+  it('drops members and replaces array elements with a placeholder', () => {
+    expect(mask('{"a": 1, "meta": {"t": 2}, "list": [1, 2, 3]}', ['$.meta', '$.list[1]'])).toBe(
+      '{"a":1,"list":[1,"<ignored>",3]}'
+    );
+    expect(mask('[{"id": 1, "at": 5}, {"id": 2, "at": 6}]', ['**.at'])).toBe('[{"id":1},{"id":2}]');
+  });
+
+  it('returns the value itself without rules and a placeholder when the root is ignored', () => {
+    const value = parseJSONValue('{"a": 1}');
+    expect(maskIgnoredPaths(value, [])).toBe(value);
+    expect(mask('{"a": 1}', ['$'])).toBe('"<ignored>"');
+  });
+});
+
+describe('countIgnoredDifferences', () => {
+  it('counts the changes inside ignored nodes that the diff leaves out', () => {
+    const left = parseJSONValue('{"a": 1, "meta": {"t": 1, "u": 1}, "items": [{"at": 1}, {"at": 2}]}');
+    const right = parseJSONValue('{"a": 2, "meta": {"t": 2}, "items": [{"at": 1}, {"at": 3}, {"at": 4}]}');
+    const options = { ignoredPaths: ['$.meta', '$..at'] };
+    expect(diffJSONValues(left, right, options).changes.map((change) => change.path)).toEqual(['$.a', '$.items[2]']);
+    // $.meta.t, $.meta.u and $.items[1].at
+    expect(countIgnoredDifferences(left, right, options)).toBe(3);
+    expect(countIgnoredDifferences(left, right, {})).toBe(0);
+  });
+});
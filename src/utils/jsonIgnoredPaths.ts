@@ -0,0 +1,94 @@
+/**
+ * Ignored JSON Paths
+ *
+ * Removes the nodes that match ignore rules (JSONPath or glob patterns such
+ * as $..updatedAt or meta.*) before two JSON documents are diffed. Object
+ * members are dropped; array elements are replaced with a placeholder so
+ * that the positions of their siblings do not shift.
+ */
+
+import { matchJSONPath, parseJSONPath, splitJSONPathList, JSONPathPattern } from './jsonPath';
+import type { JSONMember, JSONNode } from './jsonParser';
+import type { JSONPathSegment } from './jsonStructuralDiff';
+
+export const IGNORED_PLACEHOLDER = '<ignored>';
+
+/**
+ * Parse ignore rules separated by commas or new lines
+ */
+export function parseIgnoredPaths(text: string): { paths: string[]; invalid: string[] } {
+  const paths: string[] = [];
+  const invalid: string[] = [];
+  for (const entry of splitJSONPathList(text)) {
+    if (parseJSONPath(entry)) {
+      paths.push(entry);
+    } else {
+      invalid.push(entry);
+    }
+  }
+  return { paths, invalid };
+}
+
+export function formatIgnoredPaths(paths: string[]): string {
+  return paths.join(', ');
+}
+
+/**
+ * Test paths against the rules; null when there are no valid rules
+ * A path is ignored when it or one of its ancestors matches
+ */
+export function createIgnoredPathMatcher(
+  paths: string[] | undefined
+): ((segments: JSONPathSegment[]) => boolean) | null {
+  const patterns = (paths || [])
+    .map((path) => parseJSONPath(path))
+    .filter((pattern): pattern is JSONPathPattern => pattern !== null);
+  if (patterns.length === 0) return null;
+
+  return (segments) => {
+    for (let depth = 0; depth <= segments.length; depth++) {
+      const prefix = segments.slice(0, depth);
+      if (patterns.some((pattern) => matchJSONPath(pattern, prefix))) return true;
+    }
+    return false;
+  };
+}
+
+/**
+ * Copy of the value without the nodes that match the rules
+ */
+export function maskIgnoredPaths(value: JSONNode, paths: string[] | undefined): JSONNode {
+  const patterns = (paths || [])
+    .map((path) => parseJSONPath(path))
+    .filter((pattern): pattern is JSONPathPattern => pattern !== null);
+  if (patterns.length === 0) return value;
+
+  const isIgnored = (segments: JSONPathSegment[]) => patterns.some((pattern) => matchJSONPath(pattern, segments));
+  const placeholder: JSONNode = { type: 'string', value: IGNORED_PLACEHOLDER };
+
+  const visit = (node: JSONNode, segments: JSONPathSegment[]): JSONNode => {
+    if (node.type === 'array') {
+      return {
+        type: 'array',
+        items: node.items.map((item, index) => {
+          segments.push(index);
+          const masked = isIgnored(segments) ? placeholder : visit(item, segments);
+          segments.pop();
+          return masked;
+        }),
+      };
+    }
+
+    if (node.type !== 'object') return node;
+
+    const members: JSONMember[] = [];
+    for (const member of node.members) {
+      segments.push(member.key);
+      if (!isIgnored(segments)) members.push({ key: member.key, value: visit(member.value, segments) });
+      segments.pop();
+    }
+    return { type: 'object', members };
+  };
+
+  return isIgnored([]) ? placeholder : visit(value, []);
+}
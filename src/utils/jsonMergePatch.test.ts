@@ -0,0 +1,89 @@
+import { applyMergePatch, formatMergePatch, generateMergePatch } from './jsonMergePatch';
+import { isJSONEqual } from './jsonPatch';
+import { parseJSONValue, serializeJSONNode, JSONNode } from './jsonParser';
+import { createRandom, mutateJSONValue, randomJSONValue } from '../test-utils/random';
+
+const node = (value: unknown): JSONNode => parseJSONValue(JSON.stringify(value));
+
+const merge = (target: string, patch: string): string =>
+  serializeJSONNode(applyMergePatch(parseJSONValue(target), parseJSONValue(patch)), 0);
+
+describe('applyMergePatch', () => {
+  // Examples from RFC 7386, appendix A
+  it('merges objects and replaces everything else', () => {
+    const cases: Array<[string, string, string]> = [
+      ['{"a":"b"}', '{"a":"c"}', '{"a":"c"}'],
+      ['{"a":"b"}', '{"b":"c"}', '{"a":"b","b":"c"}'],
+      ['{"a":"b"}', '{"a":null}', '{}'],
+      ['{"a":"b","b":"c"}', '{"a":null}', '{"b":"c"}'],
+      ['{"a":["b"]}', '{"a":"c"}', '{"a":"c"}'],
+      ['{"a":"c"}', '{"a":["b"]}', '{"a":["b"]}'],
+      ['{"a":{"b":"c"}}', '{"a":{"b":"d","c":null}}', '{"a":{"b":"d"}}'],
+      ['{"a":[{"b":"c"}]}', '{"a":[1]}', '{"a":[1]}'],
+      ['["a","b"]', '["c","d"]', '["c","d"]'],
+      ['{"a":"b"}', '["c"]', '["c"]'],
+      ['{"a":"foo"}', 'null', 'null'],
+      ['{"a":"foo"}', '"bar"', '"bar"'],
+      ['{"e":null}', '{"a":1}', '{"e":null,"a":1}'],
+      ['[1,2]', '{"a":"b","c":null}', '{"a":"b"}'],
+      ['{}', '{"a":{"bb":{"ccc":null}}}', '{"a":{"bb":{}}}'],
+    ];
+    for (const [target, patch, result] of cases) {
+      expect(merge(target, patch)).toBe(result);
+    }
+  });
+
+  it('does not modify the target', () => {
+    const target = parseJSONValue('{"a": {"b": 1}}');
+    applyMergePatch(target, parseJSONValue('{"a": {"b": null, "c": 2}}'));
+    expect(serializeJSONNode(target, 0)).toBe('{"a":{"b":1}}');
+  });
+});
+
+describe('generateMergePatch', () => {
+  it('sets changed members and nulls removed ones', () => {
+    const result = generateMergePatch(node({ a: 1, b: { c: 2, d: 3 }, e: 4 }), node({ a: 1, b: { c: 5 }, f: 6 }));
+    expect(formatMergePatch(result.patch)).toBe(
+      '{\n  "e": null,\n  "b": {\n    "d": null,\n    "c": 5\n  },\n  "f": 6\n}'
+    );
+    expect(result).toMatchObject({ limitations: [], isExact: true });
+  });
+
+  it('is an empty object for equal objects and the right value for other documents', () => {
+    expect(serializeJSONNode(generateMergePatch(node({ a: 1 }), node({ a: 1 })).patch, 0)).toBe('{}');
+    expect(serializeJSONNode(generateMergePatch(node([1]), node([1])).patch, 0)).toBe('[1]');
+  });
+
+  it('flags replaced arrays and null members', () => {
+    const result = generateMergePatch(node({ list: [1, 2], a: 1 }), node({ list: [1, 3], a: null }));
+    expect(result.limitations).toEqual([
+      { type: 'arrayReplaced', path: '$.list', segments: ['list'] },
+      { type: 'nullValue', path: '$.a', segments: ['a'] },
+    ]);
+    expect(result.isExact).toBe(false);
+    expect(serializeJSONNode(result.patch, 0)).toBe('{"list":[1,3]}');
+  });
+
+  it('keeps the digits of big numbers', () => {
+    const result = generateMergePatch(parseJSONValue('{"id": 9007199254740992}'), parseJSONValue('{"id": 9007199254740993}'));
+    expect(serializeJSONNode(result.patch, 0)).toBe('{"id":9007199254740993}');
+  });
+
+  it('transforms left into right when applied, unless flagged as inexact', () => {
+    const random = createRandom(19);
+    let exactRuns = 0;
+    for (let run = 0; run < 500; run++) {
+      const leftValue = randomJSONValue(random, 3);
+      const rightValue = run % 4 === 0 ? randomJSONValue(random, 3) : mutateJSONValue(random, leftValue, 1 + (run % 4));
+      const left = node(leftValue);
+      const right = node(rightValue);
+      const result = generateMergePatch(left, right);
+      const patched = applyMergePatch(left, result.patch);
+      if (result.isExact !== isJSONEqual(patched, right)) {
+        throw new Error(`Merge patch of ${JSON.stringify(leftValue)} to ${JSON.stringify(rightValue)} is wrongly flagged`);
+      }
+      if (result.isExact) exactRuns++;
+    }
+    expect(exactRuns).toBeGreaterThan(250);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * JSON Merge Patch (RFC 7386)
+ *
+ * A merge patch is a partial document: its object members replace the
+ * matching members of the target, members set to null are deleted, and any
+ * other value (arrays included) replaces the target value as a whole.
+ * Generated patches flag the changes this format cannot express exactly.
+ */
+
+import { formatJSONPath } from './jsonPath';
+import { serializeJSONNode, JSONMember, JSONNode } from './jsonParser';
+import type { JSONPathSegment } from './jsonStructuralDiff';
+import { isJSONEqual } from './jsonPatch';
+
+export const JSON_MERGE_PATCH_MEDIA_TYPE = 'application/merge-patch+json';
+
+/**
+ * arrayReplaced: an array differs element-wise; the patch carries the whole new array
+ * nullValue: an object member is null on the right; a null in a merge patch
+ * deletes the member instead, so the patch leaves it out
+ */
+export type MergePatchLimitationType = 'arrayReplaced' | 'nullValue';
+
+export interface MergePatchLimitation {
+  type: MergePatchLimitationType;
+  path: string; // JSONPath of the array or member, e.g. $.data.items
+  segments: JSONPathSegment[];
+}
+
+export interface MergePatchResult {
+  patch: JSONNode;
+  limitations: MergePatchLimitation[];
+  isExact: boolean; // Applying the patch to left yields right; false when a null could not be set
+}
+
+const NULL: JSONNode = { type: 'null' };
+
+/**
+ * Apply a merge patch to a target document
+ * The target is not modified; applying a merge patch never fails
+ */
+export function applyMergePatch(target: JSONNode, patch: JSONNode): JSONNode {
+  if (patch.type !== 'object') {
+    return patch;
+  }
+
+  const members: JSONMember[] = target.type === 'object' ? [...target.members] : [];
+  for (const { key, value } of patch.members) {
+    const index = members.findIndex((member) => member.key === key);
+    if (value.type === 'null') {
+      if (index !== -1) members.splice(index, 1);
+    } else if (index === -1) {
+      members.push({ key, value: applyMergePatch(NULL, value) });
+    } else {
+      members[index] = { key, value: applyMergePatch(members[index].value, value) };
+    }
+  }
+  return { type: 'object', members };
+}
+
+/**
+ * Generate the minimal merge patch that transforms left into right
+ * Members missing on the right become null; unchanged members are left out
+ */
+export function generateMergePatch(left: JSONNode, right: JSONNode): MergePatchResult {
+  const limitations: MergePatchLimitation[] = [];
+  const flag = (type: MergePatchLimitationType, segments: JSONPathSegment[]) => {
+    limitations.push({ type, path: formatJSONPath(segments), segments: [...segments] });
+  };
+
+  // undefined when nothing changed below this point
+  const diff = (oldValue: JSONNode | undefined, newValue: JSONNode, segments: JSONPathSegment[]): JSONNode | undefined => {
+    if (newValue.type !== 'object') {
+      if (oldValue !== undefined && isJSONEqual(oldValue, newValue)) return undefined;
+      if (oldValue?.type === 'array' && newValue.type === 'array') flag('arrayReplaced', segments);
+      return newValue;
+    }
+
+    // A patch object applied to anything but an object starts from an empty one
+    const oldMembers = new Map(oldValue?.type === 'object' ? oldValue.members.map((member) => [member.key, member.value]) : []);
+    const newKeys = new Set(newValue.members.map((member) => member.key));
+    const members: JSONMember[] = [];
+    for (const key of oldMembers.keys()) {
+      if (!newKeys.has(key)) members.push({ key, value: NULL });
+    }
+    for (const { key, value } of newValue.members) {
+      const old = oldMembers.get(key);
+      segments.push(key);
+      if (value.type === 'null') {
+        if (old?.type !== 'null') flag('nullValue', segments);
+      } else {
+        const memberPatch = diff(old, value, segments);
+        if (memberPatch !== undefined) members.push({ key, value: memberPatch });
+      }
+      segments.pop();
+    }
+
+    return members.length > 0 || oldValue?.type !== 'object' ? { type: 'object', members } : undefined;
+  };
+
+  // An empty patch leaves objects alone but would turn any other document into {}
+  const patch = diff(left, right, []) ?? (right.type === 'object' ? { type: 'object', members: [] } : right);
+
+  return {
+    patch,
+    limitations,
+    isExact: limitations.every((limitation) => limitation.type !== 'nullValue'),
+  };
+}
+
+/**
+ * Serialize a merge patch document
+ */
+export function formatMergePatch(patch: JSONNode): string {
+  return serializeJSONNode(patch, 2);
+}
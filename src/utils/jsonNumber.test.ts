@@ -0,0 +1,63 @@
+import { canonicalizeJSONNumber, compareJSONNumbers, numbersWithinTolerance } from './jsonNumber';
+import { createRandom, randomInt } from '../test-utils/random';
+
+describe('canonicalizeJSONNumber', () => {
+  it('writes numbers equal in value alike', () => {
+    const forms = ['1', '1.0', '10e-1', '1E0', '0.1e1', '1.000e+0'].map(canonicalizeJSONNumber);
+    expect(new Set(forms).size).toBe(1);
+    expect(['0', '-0', '0.000', '0e10'].map(canonicalizeJSONNumber)).toEqual(['0', '0', '0', '0']);
+  });
+
+  it('keeps the digits doubles lose', () => {
+    expect(canonicalizeJSONNumber('9007199254740993')).not.toBe(canonicalizeJSONNumber('9007199254740992'));
+    expect(canonicalizeJSONNumber('1e400')).not.toBe(canonicalizeJSONNumber('2e400'));
+    expect(canonicalizeJSONNumber('0.10000000000000000001')).not.toBe(canonicalizeJSONNumber('0.1'));
+  });
+
+  it('rejects text that is not a JSON number', () => {
+    expect(() => canonicalizeJSONNumber('0x10')).toThrow();
+  });
+});
+
+describe('compareJSONNumbers', () => {
+  it('orders big integers exactly', () => {
+    const ids = ['9007199254740993', '-12345678901234567890', '9007199254740992', '1e19', '10000000000000000001'];
+    expect([...ids].sort(compareJSONNumbers)).toEqual([
+      '-12345678901234567890',
+      '9007199254740992',
+      '9007199254740993',
+      '1e19',
+      '10000000000000000001',
+    ]);
+  });
+
+  it('agrees with doubles on numbers doubles hold exactly', () => {
+    const random = createRandom(11);
+    let agrees = true;
+    for (let i = 0; i < 2000; i++) {
+      const [a, b] = [0, 1].map(() => (randomInt(random, 2000001) - 1000000) / 10 ** randomInt(random, 6));
+      agrees = agrees && Math.sign(compareJSONNumbers(String(a), String(b))) === Math.sign(a - b);
+    }
+    expect(agrees).toBe(true);
+  });
+});
+
+describe('numbersWithinTolerance', () => {
+  it('subtracts exactly', () => {
+    // As doubles the difference is 1.0000000005838672e-7
+    expect(numbersWithinTolerance('1.0000001', '1', { absolute: 1e-7, relative: 0 })).toBe(true);
+    expect(numbersWithinTolerance('9007199254740993', '9007199254740992', { absolute: 0.01, relative: 0 })).toBe(false);
+    expect(numbersWithinTolerance('9007199254740993', '9007199254740992', { absolute: 1, relative: 0 })).toBe(true);
+  });
+
+  it('measures the relative tolerance against the larger number', () => {
+    expect(numbersWithinTolerance('9007199254740993', '9007199254740992', { absolute: 0, relative: 1e-16 })).toBe(false);
+    expect(numbersWithinTolerance('9007199254740993', '9007199254740992', { absolute: 0, relative: 2e-16 })).toBe(true);
+    expect(numbersWithinTolerance('100', '-100', { absolute: 0, relative: 2 })).toBe(true);
+  });
+
+  it('compares numbers of very different magnitude without lining them up', () => {
+    expect(numbersWithinTolerance('1e-5000', '1', { absolute: 1, relative: 0 })).toBe(true);
+    expect(numbersWithinTolerance('1e5000', '1', { absolute: 1, relative: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * JSON Numbers
+ *
+ * Exact comparison of JSON number lexemes. JavaScript numbers are doubles,
+ * which round 9007199254740993 to 9007199254740992 and 1e400 to Infinity;
+ * here a number is its decimal digits and an exponent, so numbers compare
+ * and subtract exactly however many digits they are written with.
+ */
+
+import type { NumericTolerance } from '../types/common';
+
+/**
+ * ±digits × 10^exponent
+ */
+interface Decimal {
+  negative: boolean;
+  digits: string; // Without leading or trailing zeros; empty for zero
+  exponent: number;
+}
+
+const LEXEME = /^(-?)(\d+)(?:\.(\d+))?(?:[eE]([+-]?\d+))?$/;
+
+// Lining up exponents further apart would build huge integers; such numbers are compared as doubles
+const MAX_EXPONENT_GAP = 1000;
+
+const ZERO: Decimal = { negative: false, digits: '', exponent: 0 };
+
+const normalize = (negative: boolean, digits: string, exponent: number): Decimal => {
+  const significant = digits.replace(/^0+/, '');
+  const trimmed = significant.replace(/0+$/, '');
+  if (trimmed === '') return ZERO;
+  return { negative, digits: trimmed, exponent: exponent + significant.length - trimmed.length };
+};
+
+const toDecimal = (raw: string): Decimal => {
+  const match = LEXEME.exec(raw);
+  if (!match) {
+    throw new Error(`${JSON.stringify(raw)} is not a JSON number`);
+  }
+  const [, sign, integer, fraction = '', exponent = '0'] = match;
+  return normalize(sign === '-', integer + fraction, Number(exponent) - fraction.length);
+};
+
+// Tolerances are doubles; String() writes them as number lexemes
+const fromTolerance = (value: number): Decimal =>
+  value > 0 ? toDecimal(String(Math.min(value, Number.MAX_VALUE))) : ZERO;
+
+const compareMagnitudes = (a: Decimal, b: Decimal): number => {
+  if (a.digits === '' || b.digits === '') {
+    return (a.digits === '' ? 0 : 1) - (b.digits === '' ? 0 : 1);
+  }
+  // Position of the leading digit
+  const orderA = a.digits.length + a.exponent;
+  const orderB = b.digits.length + b.exponent;
+  if (orderA !== orderB) return orderA < orderB ? -1 : 1;
+  const length = Math.max(a.digits.length, b.digits.length);
+  const digitsA = a.digits.padEnd(length, '0');
+  const digitsB = b.digits.padEnd(length, '0');
+  return digitsA < digitsB ? -1 : digitsA > digitsB ? 1 : 0;
+};
+
+const signOf = (value: Decimal): number => (value.digits === '' ? 0 : value.negative ? -1 : 1);
+
+const compareDecimals = (a: Decimal, b: Decimal): number => {
+  const signA = signOf(a);
+  const signB = signOf(b);
+  if (signA !== signB) return signA < signB ? -1 : 1;
+  return signA * compareMagnitudes(a, b);
+};
+
+/**
+ * |a - b|; null when the exponents are too far apart to line up
+ */
+const distance = (a: Decimal, b: Decimal): Decimal | null => {
+  if (a.digits === '') return { ...b, negative: false };
+  if (b.digits === '') return { ...a, negative: false };
+  const exponent = Math.min(a.exponent, b.exponent);
+  if (Math.max(a.exponent, b.exponent) - exponent > MAX_EXPONENT_GAP) return null;
+  const scaled = (value: Decimal) =>
+    BigInt(`${value.negative ? '-' : ''}${value.digits}${'0'.repeat(value.exponent - exponent)}`);
+  const difference = scaled(a) - scaled(b);
+  return normalize(false, difference.toString().replace('-', ''), exponent);
+};
+
+const multiply = (a: Decimal, b: Decimal): Decimal => {
+  if (a.digits === '' || b.digits === '') return ZERO;
+  const product = BigInt(a.digits) * BigInt(b.digits);
+  return normalize(a.negative !== b.negative, product.toString(), a.exponent + b.exponent);
+};
+
+/**
+ * Form of a number lexeme that equal numbers share: 1, 1.0, 10e-1 and 1E0 all become 1e0
+ */
+export function canonicalizeJSONNumber(raw: string): string {
+  const { negative, digits, exponent } = toDecimal(raw);
+  return digits === '' ? '0' : `${negative ? '-' : ''}${digits}e${exponent}`;
+}
+
+/**
+ * Order of two number lexemes by value: negative when a is less than b
+ */
+export function compareJSONNumbers(a: string, b: string): number {
+  return compareDecimals(toDecimal(a), toDecimal(b));
+}
+
+/**
+ * Whether two number lexemes are within the absolute or the relative tolerance of each other
+ */
+export function numbersWithinTolerance(a: string, b: string, tolerance: NumericTolerance): boolean {
+  const left = toDecimal(a);
+  const right = toDecimal(b);
+  if (compareDecimals(left, right) === 0) return true;
+
+  const difference = distance(left, right);
+  if (!difference) {
+    const x = Number(a);
+    const y = Number(b);
+    const approximate = Math.abs(x - y);
+    return approximate <= tolerance.absolute || approximate <= tolerance.relative * Math.max(Math.abs(x), Math.abs(y));
+  }
+
+  const larger = compareMagnitudes(left, right) >= 0 ? left : right;
+  return compareDecimals(difference, fromTolerance(tolerance.absolute)) <= 0
+    || compareDecimals(difference, multiply(fromTolerance(tolerance.relative), { ...larger, negative: false })) <= 0;
+}
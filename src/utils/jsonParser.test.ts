@@ -0,0 +1,77 @@
+import { parseJSONDocument, parseJSONValue, serializeJSONNode, JSONNode } from './jsonParser';
+import { createRandom, randomInt, randomJSONValue } from '../test-utils/random';
+
+const parse = (text: string): JSONNode => {
+  const { node, error } = parseJSONDocument(text);
+  if (!node) throw new Error(error?.message);
+  return node;
+};
+
+describe('parseJSONDocument', () => {
+  it('keeps number lexemes as written', () => {
+    expect(parse('[9007199254740993, 1.0, 1E3, -0.5e-10]')).toEqual({
+      type: 'array',
+      items: ['9007199254740993', '1.0', '1E3', '-0.5e-10'].map((raw) => ({ type: 'number', raw })),
+    });
+  });
+
+  it('serializes big numbers with their digits and others like JSON.stringify', () => {
+    const text = '{"id": 9007199254740993, "f": 1.0, "e": 1E3, "p": 0.10000000000000000001, "huge": 1e400}';
+    expect(serializeJSONNode(parse(text), 0)).toBe(
+      '{"id":9007199254740993,"f":1,"e":1000,"p":0.10000000000000000001,"huge":1e400}'
+    );
+  });
+
+  it('round-trips what JSON.stringify writes', () => {
+    let roundTrips = true;
+    for (let seed = 0; seed < 300; seed++) {
+      const value = randomJSONValue(createRandom(seed), 4);
+      const pretty = JSON.stringify(value, null, 2);
+      roundTrips = roundTrips
+        && serializeJSONNode(parse(pretty), 2) === pretty
+        && serializeJSONNode(parse(pretty), 0) === JSON.stringify(value);
+    }
+    expect(roundTrips).toBe(true);
+  });
+
+  it('accepts exactly the texts JSON.parse accepts', () => {
+    const random = createRandom(5);
+    const alphabet = ['{', '}', '[', ']', ',', ':', '"', '\\', '1', '-', '.', 'e', 'n', ' ', '\n'];
+    const mismatches: string[] = [];
+    for (let i = 0; i < 1000; i++) {
+      let text = JSON.stringify(randomJSONValue(random, 3), null, randomInt(random, 3));
+      const at = randomInt(random, text.length + 1);
+      text = random() < 0.5
+        ? text.slice(0, at) + text.slice(at + 1)
+        : text.slice(0, at) + alphabet[randomInt(random, alphabet.length)] + text.slice(at);
+      let valid = true;
+      try {
+        JSON.parse(text);
+      } catch {
+        valid = false;
+      }
+      if ((parseJSONDocument(text).error === null) !== valid) mismatches.push(text);
+    }
+    expect(mismatches).toEqual([]);
+  });
+
+  it('reports duplicate keys and syntax errors with their position', () => {
+    const duplicates = parseJSONDocument('{\n  "a": {"b": 1, "b": 2}\n}');
+    expect(duplicates.duplicateKeys).toEqual([{ key: 'b', path: '$.a', offset: 18, line: 2, column: 17 }]);
+
+    const { node, error } = parseJSONDocument("{\n  'a': 1\n}");
+    expect(node).toBeNull();
+    expect(error).toMatchObject({ line: 2, column: 3, found: '"\'"', hint: 'JSON strings and property names use double quotes' });
+  });
+});
+
+describe('parseJSONValue', () => {
+  it('merges duplicate keys the way JSON.parse does', () => {
+    const text = '{"a": 1, "b": [{"c": 1, "c": 2}], "a": {"d": 9007199254740993}}';
+    expect(serializeJSONNode(parseJSONValue(text), 0)).toBe('{"a":{"d":9007199254740993},"b":[{"c":2}]}');
+  });
+
+  it('throws a SyntaxError for invalid JSON', () => {
+    expect(() => parseJSONValue('{"a": }')).toThrow(SyntaxError);
+  });
+});
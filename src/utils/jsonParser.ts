@@ -0,0 +1,509 @@
+/**
+ * Lossless JSON Parser
+ *
+ * Parses JSON text into a syntax tree instead of JavaScript values, so that
+ * nothing JSON.parse would drop is lost: numbers keep the lexeme they were
+ * written with (64-bit ids such as 9007199254740993 stay exact) and objects
+ * keep every member, duplicate keys included. Duplicate keys are reported
+ * with their position, and a syntax error with its position, the token
+ * expected and the one found, plus a hint when the mistake is a common one.
+ * The tree can be normalized (sorted keys and arrays, collapsed whitespace)
+ * and serialized back to text.
+ */
+
+import { formatJSONPath } from './jsonPath';
+import type { JSONPathSegment } from './jsonStructuralDiff';
+
+export type JSONNode =
+  | { type: 'object'; members: JSONMember[] }
+  | { type: 'array'; items: JSONNode[] }
+  | { type: 'string'; value: string }
+  | { type: 'number'; raw: string } // The lexeme as written
+  | { type: 'boolean'; value: boolean }
+  | { type: 'null' };
+
+export interface JSONMember {
+  key: string;
+  value: JSONNode;
+}
+
+export interface JSONSourcePosition {
+  offset: number; // 0-based character offset
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface JSONSyntaxError extends JSONSourcePosition {
+  message: string;
+  expected: string; // What the grammar allows at the offset, e.g. '"," or "}"'
+  found: string; // The token at the offset, e.g. '"\'"', 'True' or 'end of input'
+  hint?: string; // Likely cause and fix, when the mistake is a common one
+}
+
+export interface JSONDuplicateKey extends JSONSourcePosition {
+  key: string;
+  path: string; // JSONPath of the object holding the key
+}
+
+export interface JSONParseResult {
+  node: JSONNode | null; // null when the text is not valid JSON
+  error: JSONSyntaxError | null;
+  duplicateKeys: JSONDuplicateKey[];
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+// Doubles hold every decimal of up to 15 significant digits exactly
+const MAX_EXACT_DIGITS = 15;
+
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+// Values other languages write that JSON spells differently or lacks
+const FOREIGN_LITERALS: Record<string, string> = {
+  True: 'Use lowercase true',
+  False: 'Use lowercase false',
+  None: 'Use null',
+  undefined: 'JSON has no undefined; use null or leave the member out',
+  NaN: 'JSON has no NaN; use null or a string',
+  Infinity: 'JSON has no Infinity; use null or a string',
+};
+
+class JSONSyntaxFailure extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number,
+    public readonly expected: string,
+    public readonly hint?: string,
+    public readonly found?: string // Defaults to the token at the offset
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Hint for the token found where the grammar expected something else
+ */
+const hintFor = (found: string, expected: string): string | undefined => {
+  if (Object.prototype.hasOwnProperty.call(FOREIGN_LITERALS, found)) return FOREIGN_LITERALS[found];
+  if (found === 'end of input') return 'The input ends early; check for a missing closing bracket or quote';
+  if (found === '"\'"') return 'JSON strings and property names use double quotes';
+  if (found === '"/"' || found === '"#"') return 'JSON does not allow comments';
+  if (expected.startsWith('","') && /^(?:"\\""|"[{[\d-]"|true|false|null)$/.test(found)) {
+    return 'A comma is probably missing before this value';
+  }
+  if (expected.startsWith('a property name') && /^[A-Za-z_$]/.test(found)) {
+    return 'Put the property name in double quotes';
+  }
+  return undefined;
+};
+
+/**
+ * 1-based line and column of an offset in the text
+ */
+export function getSourcePosition(text: string, offset: number): JSONSourcePosition {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = text.indexOf('\n'); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) {
+    line++;
+    lineStart = i + 1;
+  }
+  return { offset, line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Parse JSON text without losing number precision or duplicate keys
+ */
+export function parseJSONDocument(text: string): JSONParseResult {
+  const length = text.length;
+  const duplicateKeyOffsets: Array<{ key: string; path: string; offset: number }> = [];
+  const path: JSONPathSegment[] = [];
+  let pos = 0;
+
+  // A word is described whole (True, undefined), anything else by its first character
+  const describe = (at: number): string => {
+    if (at >= length) return 'end of input';
+    WORD.lastIndex = at;
+    return WORD.exec(text)?.[0] ?? JSON.stringify(text[at]);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < length) {
+      const code = text.charCodeAt(pos);
+      if (code !== 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) break;
+      pos++;
+    }
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++; // Opening quote
+    let value = '';
+    let chunkStart = pos;
+    while (pos < length) {
+      const code = text.charCodeAt(pos);
+      if (code === 0x22) {
+        value += text.slice(chunkStart, pos);
+        pos++;
+        return value;
+      }
+      if (code === 0x5c) {
+        value += text.slice(chunkStart, pos);
+        const escape = text[pos + 1];
+        if (escape === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            throw new JSONSyntaxFailure('Invalid Unicode escape in string', pos, 'four hex digits after \\u');
+          }
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else if (escape !== undefined && ESCAPES[escape] !== undefined) {
+          value += ESCAPES[escape];
+          pos += 2;
+        } else {
+          throw new JSONSyntaxFailure(
+            `Bad escaped character ${describe(pos + 1)} in string`,
+            pos,
+            'an escape sequence',
+            'Only \\" \\\\ \\/ \\b \\f \\n \\r \\t and \\uXXXX are valid escapes; write a backslash as \\\\'
+          );
+        }
+        chunkStart = pos;
+        continue;
+      }
+      if (code < 0x20) {
+        throw new JSONSyntaxFailure(
+          'Bad control character in string; control characters must be escaped',
+          pos,
+          'a string character',
+          'Escape line breaks and tabs in strings as \\n and \\t'
+        );
+      }
+      pos++;
+    }
+    throw new JSONSyntaxFailure('Unterminated string', start, 'a closing double quote', 'The string is never closed', 'end of input');
+  };
+
+  const parseLiteral = (word: string): void => {
+    if (!text.startsWith(word, pos)) {
+      throw new JSONSyntaxFailure(`Unexpected token ${describe(pos)}`, pos, 'a JSON value');
+    }
+    pos += word.length;
+  };
+
+  const parseValue = (): JSONNode => {
+    skipWhitespace();
+    if (pos >= length) {
+      throw new JSONSyntaxFailure('Unexpected end of input', pos, 'a JSON value');
+    }
+
+    const char = text[pos];
+    switch (char) {
+      case '{':
+        return parseObject();
+      case '[':
+        return parseArray();
+      case '"':
+        return { type: 'string', value: parseString() };
+      case 't':
+        parseLiteral('true');
+        return { type: 'boolean', value: true };
+      case 'f':
+        parseLiteral('false');
+        return { type: 'boolean', value: false };
+      case 'n':
+        parseLiteral('null');
+        return { type: 'null' };
+    }
+
+    NUMBER.lastIndex = pos;
+    const number = NUMBER.exec(text);
+    if (!number) {
+      if (char === '-') {
+        throw new JSONSyntaxFailure('No number after minus sign', pos + 1, 'a digit');
+      }
+      throw new JSONSyntaxFailure(`Unexpected token ${describe(pos)}`, pos, 'a JSON value');
+    }
+    pos += number[0].length;
+    return { type: 'number', raw: number[0] };
+  };
+
+  const parseObject = (): JSONNode => {
+    pos++; // {
+    const members: JSONMember[] = [];
+    const keys = new Set<string>();
+
+    skipWhitespace();
+    if (text[pos] === '}') {
+      pos++;
+      return { type: 'object', members };
+    }
+
+    for (;;) {
+      skipWhitespace();
+      if (text[pos] !== '"') {
+        if (text[pos] === '}') {
+          throw new JSONSyntaxFailure('Trailing comma before "}"', pos, 'a property name', 'Remove the comma after the last member');
+        }
+        throw new JSONSyntaxFailure(
+          `Expected property name in double quotes, found ${describe(pos)}`,
+          pos,
+          'a property name in double quotes'
+        );
+      }
+      const keyOffset = pos;
+      const key = parseString();
+      if (keys.has(key)) {
+        duplicateKeyOffsets.push({ key, path: formatJSONPath(path), offset: keyOffset });
+      }
+      keys.add(key);
+
+      skipWhitespace();
+      if (text[pos] !== ':') {
+        throw new JSONSyntaxFailure(`Expected ":" after property name, found ${describe(pos)}`, pos, '":"');
+      }
+      pos++;
+
+      path.push(key);
+      members.push({ key, value: parseValue() });
+      path.pop();
+
+      skipWhitespace();
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] === '}') {
+        pos++;
+        return { type: 'object', members };
+      }
+      throw new JSONSyntaxFailure(`Expected "," or "}" after property value, found ${describe(pos)}`, pos, '"," or "}"');
+    }
+  };
+
+  const parseArray = (): JSONNode => {
+    pos++; // [
+    const items: JSONNode[] = [];
+
+    skipWhitespace();
+    if (text[pos] === ']') {
+      pos++;
+      return { type: 'array', items };
+    }
+
+    for (;;) {
+      skipWhitespace();
+      if (text[pos] === ']') {
+        throw new JSONSyntaxFailure('Trailing comma before "]"', pos, 'a JSON value', 'Remove the comma after the last element');
+      }
+      path.push(items.length);
+      items.push(parseValue());
+      path.pop();
+
+      skipWhitespace();
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] === ']') {
+        pos++;
+        return { type: 'array', items };
+      }
+      throw new JSONSyntaxFailure(`Expected "," or "]" after array element, found ${describe(pos)}`, pos, '"," or "]"');
+    }
+  };
+
+  const positionOf = (offset: number) => getSourcePosition(text, offset);
+
+  try {
+    const node = parseValue();
+    skipWhitespace();
+    if (pos < length) {
+      throw new JSONSyntaxFailure(
+        `Unexpected ${describe(pos)} after the end of the JSON value`,
+        pos,
+        'end of input',
+        'A document holds a single value; wrap several values in an array'
+      );
+    }
+    return {
+      node,
+      error: null,
+      duplicateKeys: duplicateKeyOffsets.map(({ key, path: objectPath, offset }) => ({
+        key,
+        path: objectPath,
+        ...positionOf(offset),
+      })),
+    };
+  } catch (error) {
+    if (error instanceof JSONSyntaxFailure) {
+      const found = error.found ?? describe(error.offset);
+      const { expected } = error;
+      return {
+        node: null,
+        error: { message: error.message, expected, found, hint: error.hint ?? hintFor(found, expected), ...positionOf(error.offset) },
+        duplicateKeys: [],
+      };
+    }
+    // Nesting deeper than the call stack allows
+    if (error instanceof RangeError) {
+      return {
+        node: null,
+        error: { message: 'JSON is nested too deeply', expected: 'a closing bracket', found: describe(pos), ...positionOf(pos) },
+        duplicateKeys: [],
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Copy of the tree with one member per key, as JSON.parse reads duplicate
+ * keys: at the position of the first occurrence, with the last value
+ */
+const mergeDuplicateKeys = (node: JSONNode): JSONNode => {
+  if (node.type === 'array') {
+    return { type: 'array', items: node.items.map(mergeDuplicateKeys) };
+  }
+  if (node.type !== 'object') return node;
+
+  const members: JSONMember[] = [];
+  const indexes = new Map<string, number>();
+  for (const member of node.members) {
+    const value = mergeDuplicateKeys(member.value);
+    const index = indexes.get(member.key);
+    if (index === undefined) {
+      indexes.set(member.key, members.length);
+      members.push({ key: member.key, value });
+    } else {
+      members[index] = { key: member.key, value };
+    }
+  }
+  return { type: 'object', members };
+};
+
+/**
+ * Parse JSON text that is known to be valid into a tree for comparing and
+ * patching: numbers keep their lexemes, duplicate keys are merged
+ *
+ * @throws SyntaxError when the text is not valid JSON
+ */
+export function parseJSONValue(text: string): JSONNode {
+  const { node, error } = parseJSONDocument(text);
+  if (!node) {
+    throw new SyntaxError(error ? `${error.message} at line ${error.line}, column ${error.column}` : 'Invalid JSON');
+  }
+  return mergeDuplicateKeys(node);
+}
+
+/**
+ * Value of an object member; undefined when the object has no such member
+ */
+export function getJSONMember(node: JSONNode & { type: 'object' }, key: string): JSONNode | undefined {
+  for (let i = node.members.length - 1; i >= 0; i--) {
+    if (node.members[i].key === key) return node.members[i].value;
+  }
+  return undefined;
+}
+
+/**
+ * Number lexeme as it is serialized: the shortest form when a double holds
+ * the value exactly (1.0 becomes 1, 1E3 becomes 1000), the original otherwise
+ */
+const formatNumber = (raw: string): string => {
+  const mantissa = raw.replace(/^-/, '').replace(/[eE].*$/, '').replace('.', '');
+  const digits = mantissa.replace(/^0+/, '').replace(/0+$/, '');
+  const value = Number(raw);
+  if (digits.length > MAX_EXACT_DIGITS || !Number.isFinite(value) || (value === 0 && digits.length > 0)) {
+    return raw;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Serialize a tree like JSON.stringify(value, null, indent) would
+ * Duplicate keys are written out as often as they occur
+ */
+export function serializeJSONNode(node: JSONNode, indent: number = 2): string {
+  const pad = ' '.repeat(indent);
+
+  const write = (current: JSONNode, depth: string): string => {
+    switch (current.type) {
+      case 'string':
+        return JSON.stringify(current.value);
+      case 'number':
+        return formatNumber(current.raw);
+      case 'boolean':
+        return current.value ? 'true' : 'false';
+      case 'null':
+        return 'null';
+      case 'array': {
+        if (current.items.length === 0) return '[]';
+        const inner = depth + pad;
+        if (indent === 0) return `[${current.items.map((item) => write(item, inner)).join(',')}]`;
+        return `[\n${current.items.map((item) => inner + write(item, inner)).join(',\n')}\n${depth}]`;
+      }
+      case 'object': {
+        if (current.members.length === 0) return '{}';
+        const inner = depth + pad;
+        const separator = indent === 0 ? ':' : ': ';
+        const members = current.members.map(
+          (member) => `${JSON.stringify(member.key)}${separator}${write(member.value, inner)}`
+        );
+        if (indent === 0) return `{${members.join(',')}}`;
+        return `{\n${members.map((member) => inner + member).join(',\n')}\n${depth}}`;
+      }
+    }
+  };
+
+  return write(node, '');
+}
+
+/**
+ * Sort object members by key (duplicates keep their order) and, optionally,
+ * array elements by their serialized form
+ */
+export function sortJSONNode(node: JSONNode, sortArrays: boolean = false): JSONNode {
+  if (node.type === 'object') {
+    const members = node.members.map((member) => ({ key: member.key, value: sortJSONNode(member.value, sortArrays) }));
+    members.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    return { type: 'object', members };
+  }
+  if (node.type === 'array') {
+    const items = node.items.map((item) => sortJSONNode(item, sortArrays));
+    if (!sortArrays) return { type: 'array', items };
+    const keyed = items.map((item) => ({ item, text: serializeJSONNode(item, 0) }));
+    keyed.sort((a, b) => a.text.localeCompare(b.text));
+    return { type: 'array', items: keyed.map(({ item }) => item) };
+  }
+  return node;
+}
+
+/**
+ * Collapse runs of whitespace in string values and trim them; keys are kept as they are
+ */
+export function normalizeJSONNodeWhitespace(node: JSONNode): JSONNode {
+  switch (node.type) {
+    case 'string':
+      return { type: 'string', value: node.value.replace(/\s+/g, ' ').trim() };
+    case 'array':
+      return { type: 'array', items: node.items.map(normalizeJSONNodeWhitespace) };
+    case 'object':
+      return {
+        type: 'object',
+        members: node.members.map((member) => ({ key: member.key, value: normalizeJSONNodeWhitespace(member.value) })),
+      };
+    default:
+      return node;
+  }
+}
@@ -0,0 +1,78 @@
+import { formatJSONPatch, generateJSONPatch, isJSONEqual, toJSONPointer } from './jsonPatch';
+import { applyJSONPatch } from './jsonPatchApply';
+import { parseJSONValue, JSONNode } from './jsonParser';
+import { createRandom, mutateJSONValue, randomJSONValue } from '../test-utils/random';
+
+const node = (value: unknown): JSONNode => parseJSONValue(JSON.stringify(value));
+
+// Operations as a patch document holds them, through the formatter
+const patchItems = (left: JSONNode, right: JSONNode): JSONNode[] => {
+  const patch = parseJSONValue(formatJSONPatch(generateJSONPatch(left, right)));
+  return patch.type === 'array' ? patch.items : [];
+};
+
+describe('toJSONPointer', () => {
+  it('escapes ~ and / in keys', () => {
+    expect(toJSONPointer([])).toBe('');
+    expect(toJSONPointer(['a', 0, 'x/y', 'm~n', ''])).toBe('/a/0/x~1y/m~0n/');
+  });
+});
+
+describe('isJSONEqual', () => {
+  it('ignores member order and how numbers are written', () => {
+    expect(isJSONEqual(parseJSONValue('{"a": 1, "b": [1.0]}'), parseJSONValue('{"b": [10e-1], "a": 1}'))).toBe(true);
+    expect(isJSONEqual(parseJSONValue('[1, 2]'), parseJSONValue('[2, 1]'))).toBe(false);
+    expect(isJSONEqual(parseJSONValue('9007199254740993'), parseJSONValue('9007199254740992'))).toBe(false);
+  });
+});
+
+describe('generateJSONPatch', () => {
+  it('is empty for equal documents', () => {
+    expect(generateJSONPatch(node({ a: [1, { b: 2 }] }), node({ a: [1, { b: 2 }] }))).toEqual([]);
+  });
+
+  it('moves a value to another member and copies unchanged subtrees', () => {
+    expect(generateJSONPatch(node({ old: { x: 1 } }), node({ renamed: { x: 1 } }))).toEqual([
+      { op: 'move', from: '/old', path: '/renamed' },
+    ]);
+    expect(generateJSONPatch(node({ a: [1, 2] }), node({ a: [1, 2], b: [1, 2] }))).toEqual([
+      { op: 'copy', from: '/a', path: '/b' },
+    ]);
+  });
+
+  it('removes surplus array elements from the end', () => {
+    expect(generateJSONPatch(node([1, 2, 3, 4]), node([1])).map((operation) => operation.path)).toEqual([
+      '/3',
+      '/2',
+      '/1',
+    ]);
+  });
+
+  it('handles the removal of a very long array', () => {
+    const left = node({ a: Array.from({ length: 200000 }, (_, i) => i) });
+    const operations = generateJSONPatch(left, node({ a: [] }));
+    expect(operations).toHaveLength(200000);
+    expect(operations[0]).toEqual({ op: 'remove', path: '/a/199999' });
+  });
+
+  it('keeps the digits of numbers in the formatted patch', () => {
+    const operations = generateJSONPatch(parseJSONValue('{"id": 1}'), parseJSONValue('{"id": 9007199254740993}'));
+    expect(formatJSONPatch(operations)).toBe(
+      '[\n  {\n    "op": "replace",\n    "path": "/id",\n    "value": 9007199254740993\n  }\n]'
+    );
+  });
+
+  it('transforms left into right when applied', () => {
+    const random = createRandom(17);
+    for (let run = 0; run < 500; run++) {
+      const leftValue = randomJSONValue(random, 3);
+      const rightValue = run % 4 === 0 ? randomJSONValue(random, 3) : mutateJSONValue(random, leftValue, 1 + (run % 4));
+      const left = node(leftValue);
+      const right = node(rightValue);
+      const patched = applyJSONPatch(left, patchItems(left, right));
+      if (!isJSONEqual(patched, right)) {
+        throw new Error(`Patch of ${JSON.stringify(leftValue)} to ${JSON.stringify(rightValue)} does not apply`);
+      }
+    }
+  });
+});
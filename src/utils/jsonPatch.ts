@@ -0,0 +1,199 @@
+/**
+ * JSON Patch (RFC 6902) Generator
+ *
+ * Turns the structural diff of two parsed JSON documents into a JSON Patch
+ * that transforms the left document into the right one. Values removed from
+ * one object member and added under another become "move" operations, and
+ * added objects/arrays that already exist unchanged elsewhere in the document
+ * become "copy" operations; everything else is add, remove or replace.
+ */
+
+import { serializeJSONNode, JSONMember, JSONNode } from './jsonParser';
+import { canonicalizeJSONNumber } from './jsonNumber';
+import { diffJSONValues, JSONChange, JSONPathSegment } from './jsonStructuralDiff';
+
+export type JSONPatchOperation =
+  | { op: 'add'; path: string; value: JSONNode }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: JSONNode }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: JSONNode };
+
+export const JSON_PATCH_MEDIA_TYPE = 'application/json-patch+json';
+
+/**
+ * Format path segments as a JSON Pointer (RFC 6901); the root is the empty string
+ */
+export function toJSONPointer(segments: JSONPathSegment[]): string {
+  return segments
+    .map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
+}
+
+/**
+ * Key for deep equality of JSON values; object keys are sorted so that
+ * member order does not matter, and numbers equal in value are written alike
+ */
+const canonicalize = (value: JSONNode): string => {
+  switch (value.type) {
+    case 'number':
+      return canonicalizeJSONNumber(value.raw);
+    case 'array':
+      return `[${value.items.map(canonicalize).join(',')}]`;
+    case 'object':
+      return `{${value.members
+        .map((member) => `${JSON.stringify(member.key)}:${canonicalize(member.value)}`)
+        .sort()
+        .join(',')}}`;
+    default:
+      return serializeJSONNode(value, 0);
+  }
+};
+
+/**
+ * Deep equality of JSON values, regardless of object member order
+ */
+export const isJSONEqual = (a: JSONNode, b: JSONNode): boolean => canonicalize(a) === canonicalize(b);
+
+const isObjectMember = (change: JSONChange): boolean =>
+  change.segments.length > 0 && typeof change.segments[change.segments.length - 1] === 'string';
+
+const parentPointer = (change: JSONChange): string => toJSONPointer(change.segments.slice(0, -1));
+
+/**
+ * Order the changes so that the patch can be applied op by op
+ * The structural diff removes surplus array elements from the lowest index
+ * up; removing them from the end keeps the indexes of the others valid
+ */
+const orderForPatch = (changes: JSONChange[]): JSONChange[] => {
+  const ordered: JSONChange[] = [];
+  let run: JSONChange[] = [];
+  const flush = () => {
+    for (let i = run.length - 1; i >= 0; i--) ordered.push(run[i]);
+    run = [];
+  };
+
+  for (const change of changes) {
+    const isArrayRemoval = change.type === 'removed' && !isObjectMember(change) && change.segments.length > 0;
+    if (isArrayRemoval && (run.length === 0 || parentPointer(run[0]) === parentPointer(change))) {
+      run.push(change);
+      continue;
+    }
+    flush();
+    if (isArrayRemoval) {
+      run.push(change);
+    } else {
+      ordered.push(change);
+    }
+  }
+  flush();
+
+  return ordered;
+};
+
+/**
+ * Pointers of the subtrees that no change touches, by canonical value
+ * Only objects and arrays are worth copying
+ */
+const findUnchangedSubtrees = (root: JSONNode, changes: JSONChange[]): Map<string, string> => {
+  const touched = new Set<string>();
+  for (const change of changes) {
+    for (let depth = 0; depth <= change.segments.length; depth++) {
+      touched.add(toJSONPointer(change.segments.slice(0, depth)));
+    }
+  }
+  const changedPointers = new Set(changes.map((change) => toJSONPointer(change.segments)));
+
+  const subtrees = new Map<string, string>();
+  const visit = (value: JSONNode, segments: JSONPathSegment[]) => {
+    const pointer = toJSONPointer(segments);
+    if (changedPointers.has(pointer) || (value.type !== 'object' && value.type !== 'array')) return;
+
+    if (!touched.has(pointer)) {
+      const key = canonicalize(value);
+      if (!subtrees.has(key)) subtrees.set(key, pointer);
+    }
+
+    const entries: Array<[JSONPathSegment, JSONNode]> = value.type === 'array'
+      ? value.items.map((item, index) => [index, item])
+      : value.members.map((member) => [member.key, member.value]);
+    for (const [segment, child] of entries) {
+      segments.push(segment);
+      visit(child, segments);
+      segments.pop();
+    }
+  };
+
+  if (changes.length > 0) visit(root, []);
+  return subtrees;
+};
+
+/**
+ * Generate the JSON Patch that transforms left into right
+ * Applying the operations in order to left yields a document equal to right
+ */
+export function generateJSONPatch(left: JSONNode, right: JSONNode): JSONPatchOperation[] {
+  const changes = orderForPatch(diffJSONValues(left, right).changes);
+
+  // Object members whose value moved to another member
+  const addedByValue = new Map<string, JSONChange[]>();
+  for (const change of changes) {
+    if (change.type !== 'added' || !isObjectMember(change)) continue;
+    const key = canonicalize(change.newValue!);
+    const list = addedByValue.get(key) || [];
+    list.push(change);
+    addedByValue.set(key, list);
+  }
+  const moveTargets = new Map<JSONChange, JSONChange>(); // Removal -> the addition it becomes
+  const movedAdditions = new Set<JSONChange>();
+  for (const change of changes) {
+    if (change.type !== 'removed') continue;
+    const target = addedByValue.get(canonicalize(change.oldValue!))?.shift();
+    if (target) {
+      moveTargets.set(change, target);
+      movedAdditions.add(target);
+    }
+  }
+
+  const copySources = findUnchangedSubtrees(left, changes);
+
+  const operations: JSONPatchOperation[] = [];
+  for (const change of changes) {
+    const path = toJSONPointer(change.segments);
+    switch (change.type) {
+      case 'removed': {
+        const target = moveTargets.get(change);
+        operations.push(target ? { op: 'move', from: path, path: toJSONPointer(target.segments) } : { op: 'remove', path });
+        break;
+      }
+      case 'added': {
+        if (movedAdditions.has(change)) break;
+        const value = change.newValue!;
+        const from = value.type === 'object' || value.type === 'array' ? copySources.get(canonicalize(value)) : undefined;
+        operations.push(from !== undefined ? { op: 'copy', from, path } : { op: 'add', path, value });
+        break;
+      }
+      default:
+        operations.push({ op: 'replace', path, value: change.newValue! });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Serialize a patch as a JSON Patch document
+ * Values are written with the digits of their numbers as parsed
+ */
+export function formatJSONPatch(operations: JSONPatchOperation[]): string {
+  const text = (value: string): JSONNode => ({ type: 'string', value });
+  const items = operations.map((operation): JSONNode => {
+    const members: JSONMember[] = [{ key: 'op', value: text(operation.op) }];
+    if ('from' in operation) members.push({ key: 'from', value: text(operation.from) });
+    members.push({ key: 'path', value: text(operation.path) });
+    if ('value' in operation) members.push({ key: 'value', value: operation.value });
+    return { type: 'object', members };
+  });
+  return serializeJSONNode({ type: 'array', items }, 2);
+}
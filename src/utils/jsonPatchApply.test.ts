@@ -0,0 +1,135 @@
+import { applyJSONPatch, applyJSONPatchDocument, JSONPatchError } from './jsonPatchApply';
+import { parseJSONValue, serializeJSONNode } from './jsonParser';
+
+const apply = (document: string, patch: string): string => {
+  const operations = parseJSONValue(patch);
+  return serializeJSONNode(applyJSONPatch(parseJSONValue(document), operations.type === 'array' ? operations.items : []), 0);
+};
+
+const failure = (document: string, patch: string): JSONPatchError => {
+  try {
+    apply(document, patch);
+  } catch (error) {
+    if (error instanceof JSONPatchError) return error;
+    throw error;
+  }
+  throw new Error('The patch applied');
+};
+
+describe('applyJSONPatch', () => {
+  // Examples from RFC 6902, appendix A
+  it('applies each kind of operation', () => {
+    expect(apply('{"foo": "bar"}', '[{"op": "add", "path": "/baz", "value": "qux"}]')).toBe('{"foo":"bar","baz":"qux"}');
+    expect(apply('{"foo": ["bar", "baz"]}', '[{"op": "add", "path": "/foo/1", "value": "qux"}]')).toBe(
+      '{"foo":["bar","qux","baz"]}'
+    );
+    expect(apply('{"foo": ["bar"]}', '[{"op": "add", "path": "/foo/-", "value": ["abc"]}]')).toBe('{"foo":["bar",["abc"]]}');
+    expect(apply('{"baz": "qux", "foo": "bar"}', '[{"op": "remove", "path": "/baz"}]')).toBe('{"foo":"bar"}');
+    expect(apply('{"baz": "qux", "foo": "bar"}', '[{"op": "replace", "path": "/baz", "value": "boo"}]')).toBe(
+      '{"baz":"boo","foo":"bar"}'
+    );
+    expect(
+      apply(
+        '{"foo": {"bar": "baz", "waldo": "fred"}, "qux": {"corge": "grault"}}',
+        '[{"op": "move", "from": "/foo/waldo", "path": "/qux/thud"}]'
+      )
+    ).toBe('{"foo":{"bar":"baz"},"qux":{"corge":"grault","thud":"fred"}}');
+    expect(apply('{"foo": ["all", "grass", "cows", "eat"]}', '[{"op": "move", "from": "/foo/1", "path": "/foo/3"}]')).toBe(
+      '{"foo":["all","cows","eat","grass"]}'
+    );
+    expect(apply('{"a": {"b": 1}}', '[{"op": "copy", "from": "/a", "path": "/c"}]')).toBe('{"a":{"b":1},"c":{"b":1}}');
+    expect(apply('{"/": 9, "~1": 10}', '[{"op": "test", "path": "/~01", "value": 10}, {"op": "remove", "path": "/~1"}]')).toBe(
+      '{"~1":10}'
+    );
+  });
+
+  it('replaces the whole document at the root pointer', () => {
+    expect(apply('{"a": 1}', '[{"op": "replace", "path": "", "value": [1]}]')).toBe('[1]');
+  });
+
+  it('keeps the digits of big numbers', () => {
+    expect(apply('{"id": 1}', '[{"op": "replace", "path": "/id", "value": 9007199254740993}]')).toBe(
+      '{"id":9007199254740993}'
+    );
+    expect(failure('{"id": 9007199254740992}', '[{"op": "test", "path": "/id", "value": 9007199254740993}]').message).toBe(
+      'Operation 0 (test) failed: value at "/id" is 9007199254740992, expected 9007199254740993'
+    );
+  });
+
+  it('names the index of the failing operation', () => {
+    const error = failure(
+      '{"baz": "qux", "foo": ["a", 2, "c"]}',
+      '[{"op": "test", "path": "/baz", "value": "qux"}, {"op": "test", "path": "/foo/1", "value": 2}, {"op": "test", "path": "/baz", "value": "bar"}]'
+    );
+    expect(error.operationIndex).toBe(2);
+    expect(error.message).toBe('Operation 2 (test) failed: value at "/baz" is "qux", expected "bar"');
+  });
+
+  it('rejects malformed operations and paths', () => {
+    const cases: Array<[string, string, string]> = [
+      ['{}', '[1]', 'Operation 0 failed: an operation must be an object'],
+      ['{}', '[{"path": "/a"}]', 'Operation 0 failed: missing "op" member'],
+      ['{}', '[{"op": "delete", "path": "/a"}]', 'Operation 0 (delete) failed: unknown operation "delete"'],
+      ['{}', '[{"op": "add", "value": 1}]', 'Operation 0 (add) failed: "path" must be a string'],
+      ['{}', '[{"op": "add", "path": "/a"}]', 'Operation 0 (add) failed: missing "value" member'],
+      ['{}', '[{"op": "copy", "path": "/a"}]', 'Operation 0 (copy) failed: "from" must be a string'],
+      ['{}', '[{"op": "add", "path": "a", "value": 1}]', 'Operation 0 (add) failed: "a" is not a JSON Pointer; it must be empty or start with "/"'],
+      ['{}', '[{"op": "add", "path": "/~2", "value": 1}]', 'Operation 0 (add) failed: "/~2" contains an invalid escape; "~" must be followed by 0 or 1'],
+      ['[1]', '[{"op": "add", "path": "/01", "value": 1}]', 'Operation 0 (add) failed: "01" in "/01" is not an array index'],
+      ['[1]', '[{"op": "add", "path": "/2", "value": 1}]', 'Operation 0 (add) failed: index 2 in "/2" is out of bounds (array length 1)'],
+      ['{}', '[{"op": "remove", "path": "/a"}]', 'Operation 0 (remove) failed: path "/a" does not exist'],
+      ['{}', '[{"op": "remove", "path": ""}]', 'Operation 0 (remove) failed: the document root cannot be removed'],
+      ['{"a": 1}', '[{"op": "add", "path": "/a/b", "value": 1}]', 'Operation 0 (add) failed: the parent of "/a/b" is not an object or array'],
+      ['{"a": {}}', '[{"op": "move", "from": "/a", "path": "/a/b"}]', 'Operation 0 (move) failed: "/a" cannot be moved into one of its own children'],
+    ];
+    for (const [document, patch, message] of cases) {
+      expect(failure(document, patch).message).toBe(message);
+    }
+  });
+
+  it('does not modify the document, even when an operation fails', () => {
+    const document = parseJSONValue('{"a": [1]}');
+    const before = serializeJSONNode(document, 0);
+    applyJSONPatch(document, [parseJSONValue('{"op": "add", "path": "/a/-", "value": 2}')]);
+    expect(() =>
+      applyJSONPatch(document, [
+        parseJSONValue('{"op": "remove", "path": "/a/0"}'),
+        parseJSONValue('{"op": "remove", "path": "/b"}'),
+      ])
+    ).toThrow(JSONPatchError);
+    expect(serializeJSONNode(document, 0)).toBe(before);
+  });
+});
+
+describe('applyJSONPatchDocument', () => {
+  it('applies a JSON Patch and counts its operations', () => {
+    const result = applyJSONPatchDocument(
+      '{"a": 1}',
+      '[{"op": "add", "path": "/b", "value": 2}, {"op": "remove", "path": "/a"}]',
+      'json-patch'
+    );
+    expect(result).toEqual({ output: '{\n  "b": 2\n}', hunks: [], appliedCount: 2, rejectedCount: 0 });
+  });
+
+  it('applies a merge patch', () => {
+    const result = applyJSONPatchDocument('{"a": 1, "b": {"c": 2}}', '{"a": null, "b": {"d": 3}}', 'merge-patch');
+    expect(result.output).toBe('{\n  "b": {\n    "c": 2,\n    "d": 3\n  }\n}');
+    expect(result.error).toBeUndefined();
+  });
+
+  it('returns the source unchanged with an error when the patch cannot apply', () => {
+    const source = '{"a": 1}';
+    expect(applyJSONPatchDocument('{"a": ', '[]', 'json-patch').error).toMatch(/^Left input is not valid JSON: /);
+    expect(applyJSONPatchDocument(source, '[', 'json-patch').error).toMatch(/^Patch is not valid JSON: /);
+    expect(applyJSONPatchDocument(source, '{}', 'json-patch').error).toBe('A JSON Patch document must be an array of operations');
+
+    const result = applyJSONPatchDocument(source, '[{"op": "test", "path": "/a", "value": 2}]', 'json-patch');
+    expect(result).toEqual({
+      output: source,
+      hunks: [],
+      appliedCount: 0,
+      rejectedCount: 0,
+      error: 'Operation 0 (test) failed: value at "/a" is 1, expected 2',
+    });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * JSON Patch Applier
+ *
+ * Applies a JSON Patch (RFC 6902) or a JSON Merge Patch (RFC 7386) document
+ * to a JSON text. JSON Patch operations run in order, test operations
+ * included, and the patch is all or nothing: the first operation that fails
+ * stops it with an error naming that operation's index in the patch array.
+ */
+
+import { validateJSON } from './jsonValidation';
+import { getJSONMember, parseJSONValue, serializeJSONNode, JSONNode } from './jsonParser';
+import { isJSONEqual, JSONPatchOperation } from './jsonPatch';
+import { applyMergePatch } from './jsonMergePatch';
+import type { PatchApplyResult } from './patchApply';
+
+export type JSONPatchFormat = 'json-patch' | 'merge-patch';
+
+const OPERATION_NAMES: ReadonlyArray<JSONPatchOperation['op']> = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+// Array indexes in a pointer are decimal, without leading zeros
+const ARRAY_INDEX = /^(0|[1-9][0-9]*)$/;
+
+/**
+ * Error of a JSON Patch operation; operationIndex is its 0-based index in the patch
+ */
+export class JSONPatchError extends Error {
+  constructor(message: string, public readonly operationIndex: number) {
+    super(message);
+    this.name = 'JSONPatchError';
+  }
+}
+
+const clone = (value: JSONNode): JSONNode => JSON.parse(JSON.stringify(value));
+
+const memberIndex = (object: JSONNode & { type: 'object' }, key: string): number =>
+  object.members.findIndex((member) => member.key === key);
+
+/**
+ * Split a JSON Pointer (RFC 6901) into its unescaped reference tokens
+ *
+ * @throws Error when the pointer is malformed
+ */
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`"${pointer}" is not a JSON Pointer; it must be empty or start with "/"`);
+  }
+  return pointer.slice(1).split('/').map((token) => {
+    if (/~[^01]|~$/.test(token)) {
+      throw new Error(`"${pointer}" contains an invalid escape; "~" must be followed by 0 or 1`);
+    }
+    return token.replace(/~1/g, '/').replace(/~0/g, '~');
+  });
+};
+
+const parseArrayIndex = (token: string, length: number, allowEnd: boolean, pointer: string): number => {
+  if (allowEnd && token === '-') return length;
+  if (!ARRAY_INDEX.test(token)) {
+    throw new Error(`"${token}" in "${pointer}" is not an array index`);
+  }
+  const index = Number(token);
+  if (index > length || (!allowEnd && index === length)) {
+    throw new Error(`index ${index} in "${pointer}" is out of bounds (array length ${length})`);
+  }
+  return index;
+};
+
+/**
+ * Value the tokens point to in the document
+ *
+ * @throws Error when the value does not exist
+ */
+const resolve = (document: JSONNode, tokens: string[], pointer: string): JSONNode => {
+  let current = document;
+  for (const token of tokens) {
+    const next = current.type === 'array'
+      ? current.items[parseArrayIndex(token, current.items.length, false, pointer)]
+      : current.type === 'object' ? getJSONMember(current, token) : undefined;
+    if (next === undefined) {
+      throw new Error(`path "${pointer}" does not exist`);
+    }
+    current = next;
+  }
+  return current;
+};
+
+/**
+ * Add a value at the pointer; returns the new document, which differs from
+ * the given one only when the root is replaced
+ */
+const addValue = (document: JSONNode, pointer: string, value: JSONNode): JSONNode => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+
+  const key = tokens[tokens.length - 1];
+  const parent = resolve(document, tokens.slice(0, -1), pointer);
+  if (parent.type === 'array') {
+    parent.items.splice(parseArrayIndex(key, parent.items.length, true, pointer), 0, value);
+  } else if (parent.type === 'object') {
+    const index = memberIndex(parent, key);
+    if (index === -1) {
+      parent.members.push({ key, value });
+    } else {
+      parent.members[index] = { key, value };
+    }
+  } else {
+    throw new Error(`the parent of "${pointer}" is not an object or array`);
+  }
+  return document;
+};
+
+/**
+ * Remove the value at the pointer and return it
+ */
+const removeValue = (document: JSONNode, pointer: string): JSONNode => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new Error('the document root cannot be removed');
+  }
+
+  const key = tokens[tokens.length - 1];
+  const parent = resolve(document, tokens.slice(0, -1), pointer);
+  if (parent.type === 'array') {
+    return parent.items.splice(parseArrayIndex(key, parent.items.length, false, pointer), 1)[0];
+  }
+  const index = parent.type === 'object' ? memberIndex(parent, key) : -1;
+  if (parent.type === 'object' && index !== -1) {
+    return parent.members.splice(index, 1)[0].value;
+  }
+  throw new Error(`path "${pointer}" does not exist`);
+};
+
+/**
+ * Replace the existing value at the pointer, keeping its position
+ */
+const replaceValue = (document: JSONNode, pointer: string, value: JSONNode): JSONNode => {
+  const tokens = parsePointer(pointer);
+  resolve(document, tokens, pointer);
+  if (tokens.length === 0) return value;
+
+  const key = tokens[tokens.length - 1];
+  const parent = resolve(document, tokens.slice(0, -1), pointer);
+  if (parent.type === 'array') {
+    parent.items[Number(key)] = value;
+  } else if (parent.type === 'object') {
+    parent.members[memberIndex(parent, key)] = { key, value };
+  }
+  return document;
+};
+
+/**
+ * Read one operation of a patch document
+ *
+ * @throws Error describing the first missing or malformed member
+ */
+const readOperation = (operation: JSONNode): JSONPatchOperation => {
+  if (operation.type !== 'object') {
+    throw new Error('an operation must be an object');
+  }
+  const op = getJSONMember(operation, 'op');
+  const path = getJSONMember(operation, 'path');
+  const from = getJSONMember(operation, 'from');
+  const value = getJSONMember(operation, 'value');
+  if (op?.type !== 'string' || !OPERATION_NAMES.includes(op.value as JSONPatchOperation['op'])) {
+    throw new Error(
+      op === undefined ? 'missing "op" member' : `unknown operation ${serializeJSONNode(op, 0)}`
+    );
+  }
+  if (path?.type !== 'string') {
+    throw new Error('"path" must be a string');
+  }
+  const name = op.value as JSONPatchOperation['op'];
+  if (name === 'move' || name === 'copy') {
+    if (from?.type !== 'string') {
+      throw new Error('"from" must be a string');
+    }
+    return { op: name, from: from.value, path: path.value };
+  }
+  if (name === 'remove') {
+    return { op: name, path: path.value };
+  }
+  if (value === undefined) {
+    throw new Error('missing "value" member');
+  }
+  return { op: name, path: path.value, value };
+};
+
+/**
+ * Apply JSON Patch operations to a document
+ * The document is not modified
+ *
+ * @throws JSONPatchError for the first operation that is malformed or fails
+ */
+export function applyJSONPatch(document: JSONNode, operations: JSONNode[]): JSONNode {
+  let result = clone(document);
+
+  operations.forEach((entry, index) => {
+    const op = entry.type === 'object' ? getJSONMember(entry, 'op') : undefined;
+    const label = op?.type === 'string' ? ` (${op.value})` : '';
+    try {
+      const operation = readOperation(entry);
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, operation.path, clone(operation.value));
+          break;
+        case 'remove':
+          removeValue(result, operation.path);
+          break;
+        case 'replace':
+          result = replaceValue(result, operation.path, clone(operation.value));
+          break;
+        case 'move':
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new Error(`"${operation.from}" cannot be moved into one of its own children`);
+          }
+          if (operation.path === operation.from) {
+            resolve(result, parsePointer(operation.from), operation.from);
+          } else {
+            result = addValue(result, operation.path, removeValue(result, operation.from));
+          }
+          break;
+        case 'copy': {
+          const value = resolve(result, parsePointer(operation.from), operation.from);
+          result = addValue(result, operation.path, clone(value));
+          break;
+        }
+        case 'test': {
+          const actual = resolve(result, parsePointer(operation.path), operation.path);
+          if (!isJSONEqual(actual, operation.value)) {
+            throw new Error(
+              `value at "${operation.path}" is ${serializeJSONNode(actual, 0)}, expected ${serializeJSONNode(operation.value, 0)}`
+            );
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new JSONPatchError(`Operation ${index}${label} failed: ${reason}`, index);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Apply a JSON Patch or Merge Patch document to a JSON text
+ * Both texts are validated first; the patched document is pretty-printed
+ */
+export function applyJSONPatchDocument(
+  source: string,
+  patchText: string,
+  format: JSONPatchFormat
+): PatchApplyResult {
+  const failed = (error: string): PatchApplyResult => ({
+    output: source,
+    hunks: [],
+    appliedCount: 0,
+    rejectedCount: 0,
+    error,
+  });
+
+  const sourceValidation = validateJSON(source);
+  if (!sourceValidation.isValid) {
+    return failed(`Left input is not valid JSON: ${sourceValidation.error}`);
+  }
+  const patchValidation = validateJSON(patchText);
+  if (!patchValidation.isValid) {
+    return failed(`Patch is not valid JSON: ${patchValidation.error}`);
+  }
+
+  const document = parseJSONValue(source);
+  const patch = parseJSONValue(patchText);
+
+  if (format === 'merge-patch') {
+    return {
+      output: serializeJSONNode(applyMergePatch(document, patch), 2),
+      hunks: [],
+      appliedCount: 1,
+      rejectedCount: 0,
+    };
+  }
+
+  if (patch.type !== 'array') {
+    return failed('A JSON Patch document must be an array of operations');
+  }
+
+  try {
+    return {
+      output: serializeJSONNode(applyJSONPatch(document, patch.items), 2),
+      hunks: [],
+      appliedCount: patch.items.length,
+      rejectedCount: 0,
+    };
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Failed to apply JSON Patch');
+  }
+}
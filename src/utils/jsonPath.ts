@@ -0,0 +1,155 @@
+/**
+ * JSONPath Patterns
+ *
+ * Parses the JSONPath subset used by comparison options and matches it
+ * against concrete paths. Supported: member names ($.a, $['a b']), array
+ * indexes ($[0]), wildcards ($.*, $[*]) and recursive descent ($..id).
+ * Glob style patterns without the leading $ (meta.*, **.updatedAt) are
+ * accepted as well. Concrete paths are formatted the same way ($.a[0]).
+ */
+
+import type { JSONPathSegment } from './jsonStructuralDiff';
+
+export type JSONPathToken =
+  | { type: 'member'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant' }; // Zero or more levels; always followed by another token
+
+export interface JSONPathPattern {
+  source: string;
+  tokens: JSONPathToken[];
+}
+
+const NAME = /^[^.[\]\s]+/;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Format path segments as a JSONPath
+ * Keys that are not identifiers use bracket notation: $['first name']
+ */
+export function formatJSONPath(segments: JSONPathSegment[]): string {
+  let path = '$';
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      path += `[${segment}]`;
+    } else if (IDENTIFIER.test(segment)) {
+      path += `.${segment}`;
+    } else {
+      path += `['${segment.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+    }
+  }
+  return path;
+}
+
+/**
+ * Parse a JSONPath or glob pattern
+ * Returns null when the pattern is malformed
+ */
+export function parseJSONPath(source: string): JSONPathPattern | null {
+  let rest = source.trim();
+  if (rest === '') return null;
+
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else {
+    // Glob style: a bare name path with ** for any depth
+    rest = `.${rest.replace(/(^|\.)\*\*$/, '$1.*').replace(/(^|\.)\*\*(?=\.)/g, '$1')}`;
+  }
+
+  const tokens: JSONPathToken[] = [];
+  while (rest.length > 0) {
+    if (rest.startsWith('..')) {
+      tokens.push({ type: 'descendant' });
+      rest = rest.slice(2);
+      // $..name and $..* omit the dot of the following member
+      if (!rest.startsWith('[')) rest = `.${rest}`;
+      continue;
+    }
+
+    if (rest.startsWith('.')) {
+      rest = rest.slice(1);
+      if (rest.startsWith('*')) {
+        tokens.push({ type: 'wildcard' });
+        rest = rest.slice(1);
+        continue;
+      }
+      const name = NAME.exec(rest);
+      if (!name) return null;
+      tokens.push({ type: 'member', name: name[0] });
+      rest = rest.slice(name[0].length);
+      continue;
+    }
+
+    if (rest.startsWith('[')) {
+      const bracket = /^\[\s*(?:(\*)|(\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/.exec(rest);
+      if (!bracket) return null;
+      if (bracket[1]) {
+        tokens.push({ type: 'wildcard' });
+      } else if (bracket[2] !== undefined) {
+        tokens.push({ type: 'index', index: Number(bracket[2]) });
+      } else {
+        tokens.push({ type: 'member', name: (bracket[3] ?? bracket[4]).replace(/\\(.)/g, '$1') });
+      }
+      rest = rest.slice(bracket[0].length);
+      continue;
+    }
+
+    return null;
+  }
+
+  if (tokens.length > 0 && tokens[tokens.length - 1].type === 'descendant') return null;
+  return { source: source.trim(), tokens };
+}
+
+/**
+ * Whether a concrete path (keys and array indexes from the root) matches the pattern
+ */
+export function matchJSONPath(pattern: JSONPathPattern, segments: JSONPathSegment[]): boolean {
+  const { tokens } = pattern;
+
+  const match = (tokenIndex: number, segmentIndex: number): boolean => {
+    if (tokenIndex === tokens.length) return segmentIndex === segments.length;
+
+    const token = tokens[tokenIndex];
+    if (token.type === 'descendant') {
+      for (let skip = segmentIndex; skip < segments.length; skip++) {
+        if (match(tokenIndex + 1, skip)) return true;
+      }
+      return false;
+    }
+
+    if (segmentIndex === segments.length) return false;
+    const segment = segments[segmentIndex];
+    const matches =
+      token.type === 'wildcard' ||
+      (token.type === 'member' && segment === token.name) ||
+      (token.type === 'index' && segment === token.index);
+    return matches && match(tokenIndex + 1, segmentIndex + 1);
+  };
+
+  return match(0, 0);
+}
+
+/**
+ * Split a list of patterns separated by commas or new lines
+ * Separators inside brackets ($['a,b']) do not split
+ */
+export function splitJSONPathList(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '[') depth++;
+    if (char === ']') depth = Math.max(0, depth - 1);
+    if ((char === ',' || char === '\n') && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map((item) => item.trim()).filter((item) => item.length > 0);
+}
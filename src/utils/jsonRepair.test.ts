@@ -0,0 +1,56 @@
+import { repairJSON } from './jsonRepair';
+import { createRandom, randomInt, randomJSONValue } from '../test-utils/random';
+
+describe('repairJSON', () => {
+  it('returns valid JSON unchanged, with no repairs', () => {
+    let unchanged = true;
+    for (let seed = 0; seed < 300; seed++) {
+      const random = createRandom(seed);
+      const text = JSON.stringify(randomJSONValue(random, 4), null, randomInt(random, 3));
+      const result = repairJSON(text);
+      unchanged = unchanged && result.output === text && result.repairs.length === 0 && result.isValid;
+    }
+    expect(unchanged).toBe(true);
+  });
+
+  it.each([
+    ['{"a": 1,}', { a: 1 }, ['trailingComma']],
+    ["{'a': 'b'}", { a: 'b' }, ['singleQuotes', 'singleQuotes']],
+    ['{a: 1, b_2: 2}', { a: 1, b_2: 2 }, ['unquotedKey', 'unquotedKey']],
+    ['{\n  "a": 1, // note\n  /* old */ "b": 2\n}', { a: 1, b: 2 }, ['comment', 'comment']],
+    ['[1 2]', [1, 2], ['missingComma']],
+    ['{"a": "x\ny"}', { a: 'x\ny' }, ['controlCharacter']],
+    ['[True, None]', [true, null], ['pythonLiteral', 'pythonLiteral']],
+    ['{"a": "it\\\'s"}', { a: "it's" }, ['singleQuotes']],
+    ["['it\\'s \"quoted\"']", ['it\'s "quoted"'], ['singleQuotes']],
+  ])('repairs %j', (input, expected, types) => {
+    const result = repairJSON(input);
+    expect(result.isValid).toBe(true);
+    expect(JSON.parse(result.output)).toEqual(expected);
+    expect(result.repairs.map((repair) => repair.type)).toEqual(types);
+  });
+
+  it('lists the text added at the end of a cut off document as one repair', () => {
+    const result = repairJSON('{"a":[1,2,{"b":');
+    expect(result.output).toBe('{"a":[1,2,{"b": null}]}');
+    expect(result.repairs).toEqual([
+      { type: 'truncated', line: 1, column: 16, description: 'Added the missing "null}]}"' },
+    ]);
+  });
+
+  it('completes documents cut off before any token', () => {
+    const failures: string[] = [];
+    for (let seed = 0; seed < 500; seed++) {
+      const random = createRandom(seed);
+      const text = JSON.stringify(randomJSONValue(random, 4), null, randomInt(random, 3));
+      // Cuts inside a literal, a number or an escape cannot be completed
+      const cuts = Array.from(text, (_, index) => index).filter(
+        (index) => index > 0 && /[\s,:[\]{}"]/.test(text[index]) && text[index - 1] !== '\\'
+      );
+      if (cuts.length === 0) continue;
+      const cut = text.slice(0, cuts[randomInt(random, cuts.length)]);
+      if (!repairJSON(cut).isValid) failures.push(cut);
+    }
+    expect(failures).toEqual([]);
+  });
+});
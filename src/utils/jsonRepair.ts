@@ -0,0 +1,365 @@
+/**
+ * JSON Repair
+ *
+ * Turns almost-JSON into JSON by fixing the mistakes hand-written and
+ * copy-pasted documents usually contain: trailing commas, single-quoted
+ * strings, unquoted keys, comments, missing commas between members,
+ * unescaped control characters, Python True/False/None and documents cut
+ * off before their closing brackets. The text is rewritten in place, so
+ * formatting is kept and every repair can be shown as a line diff.
+ */
+
+import { validateJSON } from './jsonValidation';
+
+export type JSONRepairType =
+  | 'trailingComma'
+  | 'singleQuotes'
+  | 'unquotedKey'
+  | 'comment'
+  | 'missingComma'
+  | 'controlCharacter'
+  | 'pythonLiteral'
+  | 'truncated';
+
+export interface JSONRepair {
+  type: JSONRepairType;
+  line: number; // 1-based, in the original text
+  column: number; // 1-based
+  description: string;
+}
+
+export interface JSONRepairResult {
+  output: string;
+  repairs: JSONRepair[];
+  isValid: boolean; // The output is valid JSON; some mistakes cannot be repaired
+}
+
+/**
+ * An open object or array and what it expects next
+ */
+interface Frame {
+  bracket: '{' | '[';
+  state: 'key' | 'colon' | 'value' | 'comma';
+}
+
+const CLOSERS: Record<Frame['bracket'], '}' | ']'> = { '{': '}', '[': ']' };
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+const CONTROL_ESCAPES: Record<string, string> = { '\b': '\\b', '\f': '\\f', '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+// Anything number-like; malformed numbers are copied and left to the validator
+const NUMBER = /[-+]?(?:\d|\.\d)[\w.+-]*/y;
+
+const escapeControlCharacter = (char: string): string =>
+  CONTROL_ESCAPES[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+
+/**
+ * Repair a JSON text
+ * Valid JSON is returned unchanged, with no repairs
+ */
+export function repairJSON(input: string): JSONRepairResult {
+  // inserted: the text a truncation repair added, so that repairs at one place can be merged
+  const found: Array<{ type: JSONRepairType; offset: number; description: string; inserted?: string }> = [];
+  const stack: Frame[] = [];
+  const length = input.length;
+  let out = '';
+  let pos = 0;
+  let lastValueEnd = 0; // Output position after the last complete value, where a missing comma goes
+  let commaAt = -1; // Output position of the last comma while no token followed it
+  let commaOffset = -1; // Its position in the input
+  let rootDone = false;
+
+  const record = (type: JSONRepairType, offset: number, description: string, inserted?: string) => {
+    found.push({ type, offset, description, ...(inserted !== undefined && { inserted }) });
+  };
+
+  const top = (): Frame | undefined => stack[stack.length - 1];
+
+  // Insert text before the whitespace at the end of the output
+  const insertAtContentEnd = (text: string): number => {
+    const trailing = /\s*$/.exec(out)![0];
+    const at = out.length - trailing.length;
+    out = out.slice(0, at) + text + trailing;
+    return at + text.length;
+  };
+
+  const dropTrailingComma = () => {
+    if (commaAt === -1) return;
+    out = out.slice(0, commaAt) + out.slice(commaAt + 1);
+    commaAt = -1;
+    record('trailingComma', commaOffset, 'Removed the comma after the last element');
+  };
+
+  const endValue = (end: number) => {
+    lastValueEnd = end;
+    commaAt = -1;
+    const frame = top();
+    if (frame) {
+      frame.state = 'comma';
+    } else {
+      rootDone = true;
+    }
+  };
+
+  // Role of the token starting at offset; adds the comma a value or key is missing
+  const beginToken = (offset: number): 'key' | 'value' => {
+    const frame = top();
+    if (!frame) return 'value';
+    if (frame.state === 'comma') {
+      out = `${out.slice(0, lastValueEnd)},${out.slice(lastValueEnd)}`;
+      frame.state = frame.bracket === '{' ? 'key' : 'value';
+      record('missingComma', offset, `Added a missing comma between ${frame.bracket === '{' ? 'members' : 'elements'}`);
+    }
+    commaAt = -1;
+    if (frame.bracket === '{' && frame.state === 'key') {
+      frame.state = 'colon';
+      return 'key';
+    }
+    return 'value';
+  };
+
+  const closeFrame = (offset: number, inserted: boolean) => {
+    const frame = stack.pop()!;
+    const closer = CLOSERS[frame.bracket];
+    if (inserted) {
+      endValue(insertAtContentEnd(closer));
+      record('truncated', offset, `Added the missing "${closer}"`, closer);
+    } else {
+      out += closer;
+      endValue(out.length);
+    }
+  };
+
+  const readString = (quote: string) => {
+    const start = pos;
+    pos++;
+    let value = '';
+    let hasControl = false;
+    let hasEscapedQuote = false;
+    while (pos < length && input[pos] !== quote) {
+      const char = input[pos];
+      if (char === '\\' && pos + 1 < length) {
+        const next = input[pos + 1];
+        // JSON has no \' escape; a single quote needs none in a double-quoted string
+        if (next === "'") {
+          value += "'";
+          hasEscapedQuote = hasEscapedQuote || quote === '"';
+        } else {
+          value += char + next;
+        }
+        pos += 2;
+        continue;
+      }
+      if (char.charCodeAt(0) < 0x20) {
+        value += escapeControlCharacter(char);
+        hasControl = true;
+      } else {
+        value += quote === "'" && char === '"' ? '\\"' : char;
+      }
+      pos++;
+    }
+
+    if (quote === "'") {
+      record('singleQuotes', start, 'Replaced single quotes with double quotes');
+    }
+    if (hasEscapedQuote) {
+      record('singleQuotes', start, 'Removed the backslash before a single quote');
+    }
+    if (hasControl) {
+      record('controlCharacter', start, 'Escaped line breaks and other control characters in a string');
+    }
+    if (pos >= length) {
+      record('truncated', start, 'Closed the unterminated string');
+    } else {
+      pos++;
+    }
+    return `"${value}"`;
+  };
+
+  const skipComment = () => {
+    const start = pos;
+    if (input.startsWith('/*', pos)) {
+      const end = input.indexOf('*/', pos + 2);
+      pos = end === -1 ? length : end + 2;
+    } else {
+      const end = input.indexOf('\n', pos);
+      pos = end === -1 ? length : end;
+    }
+    record('comment', start, 'Removed a comment');
+
+    const atLineEnd = pos >= length || /^\r?\n/.test(input.slice(pos, pos + 2));
+    if (!atLineEnd) {
+      // An inline comment takes one of the spaces around it along
+      if (/(^|\s)$/.test(out)) {
+        while (input[pos] === ' ' || input[pos] === '\t') pos++;
+      }
+      return;
+    }
+    // Drop the spaces before the comment, and the whole line if the comment was all of it
+    out = out.replace(/[ \t]+$/, '');
+    if ((out === '' || out.endsWith('\n')) && pos < length) {
+      pos += input[pos] === '\r' ? 2 : 1;
+    }
+  };
+
+  while (pos < length) {
+    const char = input[pos];
+
+    if (rootDone && stack.length === 0 && !/\s/.test(char) && char !== '/' && char !== '#') {
+      // A second top-level value cannot be repaired; leave the rest to the validator
+      out += input.slice(pos);
+      break;
+    }
+
+    if (/\s/.test(char)) {
+      out += char;
+      pos++;
+      continue;
+    }
+
+    if (char === '#' || input.startsWith('//', pos) || input.startsWith('/*', pos)) {
+      skipComment();
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const offset = pos;
+      const role = beginToken(offset);
+      out += readString(char);
+      if (role === 'value') endValue(out.length);
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      beginToken(pos);
+      stack.push({ bracket: char, state: char === '{' ? 'key' : 'value' });
+      out += char;
+      pos++;
+      continue;
+    }
+
+    if (char === '}' || char === ']') {
+      const opener = char === '}' ? '{' : '[';
+      if (!stack.some((frame) => frame.bracket === opener)) {
+        // A closer without an opener is left for the validator to report
+        out += char;
+        pos++;
+        continue;
+      }
+      dropTrailingComma();
+      // Close the containers that were left open inside this one
+      while (top()!.bracket !== opener) {
+        closeFrame(pos, true);
+      }
+      closeFrame(pos, false);
+      pos++;
+      continue;
+    }
+
+    if (char === ':') {
+      const frame = top();
+      if (frame && frame.state === 'colon') frame.state = 'value';
+      out += char;
+      pos++;
+      continue;
+    }
+
+    if (char === ',') {
+      const frame = top();
+      if (frame && frame.state === 'comma') {
+        frame.state = frame.bracket === '{' ? 'key' : 'value';
+        commaAt = out.length;
+        commaOffset = pos;
+      }
+      out += char;
+      pos++;
+      continue;
+    }
+
+    NUMBER.lastIndex = pos;
+    const number = NUMBER.exec(input);
+    if (number) {
+      beginToken(pos);
+      out += number[0];
+      pos += number[0].length;
+      endValue(out.length);
+      continue;
+    }
+
+    WORD.lastIndex = pos;
+    const word = WORD.exec(input);
+    if (word) {
+      const offset = pos;
+      pos += word[0].length;
+      if (beginToken(offset) === 'key') {
+        out += JSON.stringify(word[0]);
+        record('unquotedKey', offset, `Quoted the key ${word[0]}`);
+        continue;
+      }
+      if (Object.prototype.hasOwnProperty.call(PYTHON_LITERALS, word[0])) {
+        out += PYTHON_LITERALS[word[0]];
+        record('pythonLiteral', offset, `Replaced ${word[0]} with ${PYTHON_LITERALS[word[0]]}`);
+      } else {
+        out += word[0];
+      }
+      endValue(out.length);
+      continue;
+    }
+
+    // Anything else is copied and left for the validator to report
+    out += char;
+    pos++;
+  }
+
+  // Finish a document that was cut off
+  if (stack.length > 0) {
+    const frame = top()!;
+    if (frame.state === 'colon') {
+      insertAtContentEnd(': null');
+      record('truncated', length, 'Added the missing value of the last member', ': null');
+    } else if (frame.state === 'value' && frame.bracket === '{') {
+      insertAtContentEnd(' null');
+      record('truncated', length, 'Added the missing value of the last member', ' null');
+    }
+    dropTrailingComma();
+    while (stack.length > 0) {
+      closeFrame(length, true);
+    }
+  }
+
+  // Text added at one place, such as the value and brackets a cut off
+  // document is missing, is one repair; the sort keeps the order it was added in
+  found.sort((a, b) => a.offset - b.offset);
+  const merged: typeof found = [];
+  for (const entry of found) {
+    const previous = merged[merged.length - 1];
+    if (entry.inserted !== undefined && previous?.inserted !== undefined && previous.offset === entry.offset) {
+      const inserted = previous.inserted + entry.inserted;
+      merged[merged.length - 1] = { ...previous, inserted, description: `Added the missing "${inserted.trim()}"` };
+    } else {
+      merged.push(entry);
+    }
+  }
+
+  // Positions in one pass over the original text
+  let line = 1;
+  let lineStart = 0;
+  let scanned = 0;
+  const repairs = merged.map(({ type, offset, description }) => {
+    for (let i = input.indexOf('\n', scanned); i !== -1 && i < offset; i = input.indexOf('\n', i + 1)) {
+      line++;
+      lineStart = i + 1;
+    }
+    scanned = Math.max(scanned, offset);
+    return { type, line, column: offset - lineStart + 1, description };
+  });
+
+  return {
+    output: out,
+    repairs,
+    isValid: validateJSON(out).isValid,
+  };
+}
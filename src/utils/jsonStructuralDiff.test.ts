@@ -0,0 +1,101 @@
+import { diffJSONValues, invertStructuralDiff, StructuralDiffOptions } from './jsonStructuralDiff';
+import { isJSONEqual } from './jsonPatch';
+import { parseJSONValue, serializeJSONNode } from './jsonParser';
+import { createRandom, mutateJSONValue, randomJSONValue } from '../test-utils/random';
+
+// Changes as "type path old -> new"
+const describeChanges = (left: string, right: string, options?: StructuralDiffOptions): string[] =>
+  diffJSONValues(parseJSONValue(left), parseJSONValue(right), options).changes.map((change) =>
+    [
+      change.type,
+      change.path,
+      change.oldValue ? serializeJSONNode(change.oldValue, 0) : '',
+      '->',
+      change.newValue ? serializeJSONNode(change.newValue, 0) : '',
+    ].join(' ')
+  );
+
+describe('diffJSONValues', () => {
+  it('finds no changes in equal documents', () => {
+    const result = diffJSONValues(parseJSONValue('{"a": [1, {"b": null}]}'), parseJSONValue('{"a": [1, {"b": null}]}'));
+    expect(result).toEqual({ changes: [], hasChanges: false });
+  });
+
+  it('lists added, removed and changed members with their paths', () => {
+    expect(describeChanges('{"a": 1, "b": {"c": "x", "d": true}}', '{"a": 2, "b": {"c": "y", "e": false}}')).toEqual([
+      'valueChanged $.a 1 -> 2',
+      'valueChanged $.b.c "x" -> "y"',
+      'removed $.b.d true -> ',
+      'added $.b.e  -> false',
+    ]);
+  });
+
+  it('reports a type change once, without looking inside', () => {
+    expect(describeChanges('{"a": {"b": 1}, "c": 1, "d": null}', '{"a": [1], "c": "1", "d": 0}')).toEqual([
+      'typeChanged $.a {"b":1} -> [1]',
+      'typeChanged $.c 1 -> "1"',
+      'typeChanged $.d null -> 0',
+    ]);
+  });
+
+  it('compares arrays index by index and reports the length difference at the end', () => {
+    expect(describeChanges('[1, 2, 3, 4]', '[1, 5]')).toEqual([
+      'valueChanged $[1] 2 -> 5',
+      'removed $[2] 3 -> ',
+      'removed $[3] 4 -> ',
+    ]);
+    expect(describeChanges('{"items": []}', '{"items": ["a", "b"]}')).toEqual([
+      'added $.items[0]  -> "a"',
+      'added $.items[1]  -> "b"',
+    ]);
+  });
+
+  it('ignores key order', () => {
+    expect(describeChanges('{"a": 1, "b": {"x": 1, "y": 2}}', '{"b": {"y": 2, "x": 1}, "a": 1}')).toEqual([]);
+  });
+
+  it('compares numbers by value', () => {
+    expect(describeChanges('[1, 1e2, 9007199254740993]', '[1.0, 100, 9007199254740992]')).toEqual([
+      'valueChanged $[2] 9007199254740993 -> 9007199254740992',
+    ]);
+  });
+
+  it('applies the string and array order options', () => {
+    expect(describeChanges('{"a": "Text  here"}', '{"a": "text here"}', { caseSensitive: false, ignoreWhitespace: true })).toEqual([]);
+    expect(describeChanges('[3, 1, 2]', '[1, 2, 3]', { ignoreArrayOrder: true })).toEqual([]);
+  });
+
+  it('addresses keyed array elements by their left index and added ones by their right index', () => {
+    const options = { arrayIdentityKeys: [{ path: '$.users', key: 'id' }] };
+    expect(
+      describeChanges(
+        '{"users": [{"id": 1, "v": 1}, {"id": 2, "v": 2}]}',
+        '{"users": [{"id": 3, "v": 3}, {"id": 2, "v": 5}]}',
+        options
+      )
+    ).toEqual([
+      'removed $.users[0] {"id":1,"v":1} -> ',
+      'valueChanged $.users[1].v 2 -> 5',
+      'added $.users[0]  -> {"id":3,"v":3}',
+    ]);
+  });
+
+  it('finds changes in random documents exactly when they differ, and the same ones both ways', () => {
+    const random = createRandom(16);
+    for (let run = 0; run < 300; run++) {
+      const leftValue = randomJSONValue(random, 3);
+      const rightValue = run % 3 === 0 ? leftValue : mutateJSONValue(random, leftValue, 1 + (run % 3));
+      const left = parseJSONValue(JSON.stringify(leftValue));
+      const right = parseJSONValue(JSON.stringify(rightValue));
+      const forward = diffJSONValues(left, right);
+      const backward = diffJSONValues(right, left);
+      if (forward.hasChanges === isJSONEqual(left, right)) {
+        throw new Error(`Diff of ${JSON.stringify(leftValue)} and ${JSON.stringify(rightValue)} misses or invents changes`);
+      }
+      const paths = (changes: typeof forward.changes) => changes.map((change) => `${change.type} ${change.path}`).sort();
+      if (JSON.stringify(paths(invertStructuralDiff(forward).changes)) !== JSON.stringify(paths(backward.changes))) {
+        throw new Error(`Diffs of ${JSON.stringify(leftValue)} and ${JSON.stringify(rightValue)} disagree`);
+      }
+    }
+  });
+});
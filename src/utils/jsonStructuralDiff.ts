@@ -0,0 +1,223 @@
+/**
+ * Structural JSON Diff
+ *
+ * Compares two parsed JSON documents as trees rather than as lines of text.
+ * Every difference becomes a typed change record addressed by a JSONPath
+ * ($.data.items[2].name) that carries the old and/or new value. Objects are
+ * compared key by key and arrays index by index, or by identity key where
+ * the options give one. Numbers are compared by their exact decimal value.
+ */
+
+import { normalizeJSONNodeWhitespace, sortJSONNode, JSONNode } from './jsonParser';
+import { formatJSONPath } from './jsonPath';
+import { createIdentityKeyLookup, pairElementsByIdentity } from './jsonArrayIdentity';
+import { createIgnoredPathMatcher, maskIgnoredPaths } from './jsonIgnoredPaths';
+import { normalizeJSONValueTypes } from './jsonTolerance';
+import { canonicalizeJSONNumber, numbersWithinTolerance } from './jsonNumber';
+import type { ArrayIdentityKey, NumericTolerance } from '../types/common';
+
+export type JSONValueType = 'null' | 'boolean' | 'number' | 'string' | 'array' | 'object';
+
+export type JSONChangeType = 'added' | 'removed' | 'valueChanged' | 'typeChanged';
+
+export type JSONPathSegment = string | number;
+
+export interface JSONChange {
+  type: JSONChangeType;
+  path: string; // JSONPath of the value, e.g. $.data.items[2].name
+  segments: JSONPathSegment[]; // The same path as keys and array indexes
+  oldValue?: JSONNode; // Absent for added values
+  newValue?: JSONNode; // Absent for removed values
+}
+
+export interface StructuralDiffResult {
+  changes: JSONChange[];
+  hasChanges: boolean;
+}
+
+export interface StructuralDiffOptions {
+  ignoreArrayOrder?: boolean; // Compare arrays as sorted multisets
+  ignoreWhitespace?: boolean; // Collapse whitespace in string values
+  caseSensitive?: boolean; // When false, strings differing only in case are equal
+  arrayIdentityKeys?: ArrayIdentityKey[]; // Match the elements of these arrays by a key member
+  ignoredPaths?: string[]; // Leave the matching nodes out of the diff
+  numericTolerance?: NumericTolerance; // Numbers this close are equal
+  looseTypes?: boolean; // Numeric strings equal the numbers they spell
+  nullEqualsMissing?: boolean; // Members set to null equal missing members
+}
+
+/**
+ * JSON type of a parsed value
+ */
+export function getJSONType(value: JSONNode): JSONValueType {
+  return value.type;
+}
+
+/**
+ * Diff two parsed JSON values
+ * Changes are listed in document order: left keys first, then keys only on the right
+ * Elements of keyed arrays are addressed by their left index, added ones by their right index
+ */
+export function diffJSONValues(
+  left: JSONNode,
+  right: JSONNode,
+  options: StructuralDiffOptions = {}
+): StructuralDiffResult {
+  const changes: JSONChange[] = [];
+  const caseSensitive = options.caseSensitive !== false;
+  const identityKeyOf = createIdentityKeyLookup(options.arrayIdentityKeys);
+
+  const record = (type: JSONChangeType, segments: JSONPathSegment[], oldValue?: JSONNode, newValue?: JSONNode) => {
+    const change: JSONChange = { type, path: formatJSONPath(segments), segments: [...segments] };
+    if (oldValue !== undefined) change.oldValue = oldValue;
+    if (newValue !== undefined) change.newValue = newValue;
+    changes.push(change);
+  };
+
+  const walk = (oldValue: JSONNode, newValue: JSONNode, segments: JSONPathSegment[]) => {
+    if (oldValue.type !== newValue.type) {
+      record('typeChanged', segments, oldValue, newValue);
+      return;
+    }
+
+    if (oldValue.type === 'array' && newValue.type === 'array') {
+      const oldItems = oldValue.items;
+      const newItems = newValue.items;
+      const identityKey = identityKeyOf?.(segments);
+      if (identityKey !== undefined) {
+        walkKeyedArray(oldItems, newItems, identityKey, segments);
+        return;
+      }
+      const shared = Math.min(oldItems.length, newItems.length);
+      for (let i = 0; i < shared; i++) {
+        segments.push(i);
+        walk(oldItems[i], newItems[i], segments);
+        segments.pop();
+      }
+      for (let i = shared; i < oldItems.length; i++) {
+        segments.push(i);
+        record('removed', segments, oldItems[i]);
+        segments.pop();
+      }
+      for (let i = shared; i < newItems.length; i++) {
+        segments.push(i);
+        record('added', segments, undefined, newItems[i]);
+        segments.pop();
+      }
+      return;
+    }
+
+    if (oldValue.type === 'object' && newValue.type === 'object') {
+      const newMembers = new Map(newValue.members.map((member) => [member.key, member.value]));
+      const oldKeys = new Set<string>();
+      for (const member of oldValue.members) {
+        oldKeys.add(member.key);
+        segments.push(member.key);
+        const counterpart = newMembers.get(member.key);
+        if (counterpart !== undefined) {
+          walk(member.value, counterpart, segments);
+        } else {
+          record('removed', segments, member.value);
+        }
+        segments.pop();
+      }
+      for (const member of newValue.members) {
+        if (oldKeys.has(member.key)) continue;
+        segments.push(member.key);
+        record('added', segments, undefined, member.value);
+        segments.pop();
+      }
+      return;
+    }
+
+    let equal: boolean;
+    if (oldValue.type === 'string' && newValue.type === 'string') {
+      equal = caseSensitive
+        ? oldValue.value === newValue.value
+        : oldValue.value.toLowerCase() === newValue.value.toLowerCase();
+    } else if (oldValue.type === 'number' && newValue.type === 'number') {
+      equal = options.numericTolerance
+        ? numbersWithinTolerance(oldValue.raw, newValue.raw, options.numericTolerance)
+        : canonicalizeJSONNumber(oldValue.raw) === canonicalizeJSONNumber(newValue.raw);
+    } else if (oldValue.type === 'boolean' && newValue.type === 'boolean') {
+      equal = oldValue.value === newValue.value;
+    } else {
+      equal = true; // Both null
+    }
+    if (!equal) {
+      record('valueChanged', segments, oldValue, newValue);
+    }
+  };
+
+  const walkKeyedArray = (oldItems: JSONNode[], newItems: JSONNode[], key: string, segments: JSONPathSegment[]) => {
+    const matches = pairElementsByIdentity(oldItems, newItems, key);
+    const paired = new Set<number>();
+    oldItems.forEach((item, index) => {
+      const match = matches[index];
+      segments.push(index);
+      if (match === undefined) {
+        record('removed', segments, item);
+      } else {
+        paired.add(match);
+        walk(item, newItems[match], segments);
+      }
+      segments.pop();
+    });
+
+    newItems.forEach((item, index) => {
+      if (paired.has(index)) return;
+      segments.push(index);
+      record('added', segments, undefined, item);
+      segments.pop();
+    });
+  };
+
+  const normalize = (value: JSONNode): JSONNode => {
+    let normalized = normalizeJSONValueTypes(maskIgnoredPaths(value, options.ignoredPaths), options);
+    if (options.ignoreWhitespace) normalized = normalizeJSONNodeWhitespace(normalized);
+    if (options.ignoreArrayOrder) normalized = sortJSONNode(normalized, true);
+    return normalized;
+  };
+
+  walk(normalize(left), normalize(right), []);
+
+  return {
+    changes,
+    hasChanges: changes.length > 0,
+  };
+}
+
+/**
+ * Number of changes the ignore rules of the options leave out of the diff
+ */
+export function countIgnoredDifferences(
+  left: JSONNode,
+  right: JSONNode,
+  options: StructuralDiffOptions
+): number {
+  const isIgnored = createIgnoredPathMatcher(options.ignoredPaths);
+  if (!isIgnored) return 0;
+  const { changes } = diffJSONValues(left, right, { ...options, ignoredPaths: undefined });
+  return changes.filter((change) => isIgnored(change.segments)).length;
+}
+
+/**
+ * The same changes seen from the other side, for swapped inputs
+ */
+export function invertStructuralDiff(diff: StructuralDiffResult): StructuralDiffResult {
+  const inverted: Record<JSONChangeType, JSONChangeType> = {
+    added: 'removed',
+    removed: 'added',
+    valueChanged: 'valueChanged',
+    typeChanged: 'typeChanged',
+  };
+  return {
+    changes: diff.changes.map((change) => {
+      const swapped: JSONChange = { type: inverted[change.type], path: change.path, segments: change.segments };
+      if (change.newValue !== undefined) swapped.oldValue = change.newValue;
+      if (change.oldValue !== undefined) swapped.newValue = change.oldValue;
+      return swapped;
+    }),
+    hasChanges: diff.hasChanges,
+  };
+}
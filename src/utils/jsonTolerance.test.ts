@@ -0,0 +1,62 @@
+import { alignNumbersWithinTolerance, normalizeJSONValueTypes } from './jsonTolerance';
+import { parseJSONValue, serializeJSONNode } from './jsonParser';
+import { runComparison } from './comparisonPipeline';
+import type { DiffOptions, NumericTolerance } from '../types/common';
+
+const tolerance: NumericTolerance = { absolute: 0.01, relative: 0 };
+
+const options: DiffOptions = {
+  ignoreWhitespace: false,
+  caseSensitive: true,
+  ignoreKeyOrder: false,
+  ignoreAttributeOrder: false,
+  ignoreArrayOrder: false,
+  numericTolerance: tolerance,
+};
+
+const align = (left: string, right: string, keys?: DiffOptions['arrayIdentityKeys']) =>
+  serializeJSONNode(alignNumbersWithinTolerance(parseJSONValue(left), parseJSONValue(right), tolerance, keys), 0);
+
+describe('alignNumbersWithinTolerance', () => {
+  it('takes the left value of close numbers only', () => {
+    expect(align('{"a": 5, "b": [1, 2]}', '{"b": [1.001, 3], "a": 5.001}')).toBe('{"b":[1,3],"a":5}');
+  });
+
+  it('pairs the elements of keyed arrays by identity', () => {
+    const left = '{"users": [{"id": 1, "v": 5}, {"id": 2, "v": 5.001}]}';
+    const right = '{"users": [{"id": 2, "v": 5.001}]}';
+    // By index the right element would take the value of the user with id 1
+    expect(align(left, right)).toBe('{"users":[{"id":2,"v":5}]}');
+    expect(align(left, right, [{ path: '$.users[*]', key: 'id' }])).toBe('{"users":[{"id":2,"v":5.001}]}');
+  });
+});
+
+describe('normalizeJSONValueTypes', () => {
+  it('turns numeric strings into numbers and drops null members', () => {
+    const value = parseJSONValue('{"a": "1.50", "b": null, "c": ["x", "12345678901234567890"]}');
+    expect(serializeJSONNode(normalizeJSONValueTypes(value, { looseTypes: true, nullEqualsMissing: true }), 0)).toBe(
+      '{"a":1.5,"c":["x",12345678901234567890]}'
+    );
+  });
+});
+
+describe('numeric tolerance in comparisons', () => {
+  it('shows the right numbers as entered without marking them', () => {
+    const run = runComparison('{"v": 5}', '{"v": 5.001}', 'json', options);
+    expect(run.diffResult?.hasChanges).toBe(false);
+    expect(run.diffResult?.rightLines.map((line) => line.content)).toEqual(['{', '  "v": 5.001', '}']);
+  });
+
+  it('pairs keyed records as the structural diff does', () => {
+    const run = runComparison(
+      '{"users": [{"id": 1, "v": 5}, {"id": 2, "v": 5.001}]}',
+      '{"users": [{"id": 2, "v": 5.001}]}',
+      'json',
+      { ...options, arrayIdentityKeys: [{ path: '$.users[*]', key: 'id' }] },
+      { semantic: true }
+    );
+    expect(run.structuralDiff?.changes.map((change) => `${change.type} ${change.path}`)).toEqual(['removed $.users[0]']);
+    const rightValue = run.diffResult?.rightLines.find((line) => line.content.includes('"v"'));
+    expect(rightValue).toMatchObject({ type: 'unchanged', content: '      "v": 5.001' });
+  });
+});
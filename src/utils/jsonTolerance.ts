@@ -0,0 +1,120 @@
+/**
+ * Tolerant JSON Comparison
+ *
+ * Value rules that make a JSON comparison less strict: numbers within an
+ * absolute or relative epsilon are equal, numeric strings equal the numbers
+ * they spell (loose types), and members set to null equal missing members.
+ * The per-document rules rewrite each side on its own; the tolerance needs
+ * both sides, and the line diff compares a right side in which the numbers
+ * close to their left counterparts are replaced by them.
+ */
+
+import type { JSONNode } from './jsonParser';
+import { numbersWithinTolerance } from './jsonNumber';
+import { createIdentityKeyLookup, pairElementsByIdentity } from './jsonArrayIdentity';
+import type { JSONPathSegment } from './jsonStructuralDiff';
+import type { ArrayIdentityKey, NumericTolerance } from '../types/common';
+
+// The JSON number grammar, so that "0x10", "1e" or " " stay strings
+const NUMERIC_STRING = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Whether the tolerance makes any difference
+ */
+export function hasNumericTolerance(tolerance: NumericTolerance | undefined): tolerance is NumericTolerance {
+  return !!tolerance && (tolerance.absolute > 0 || tolerance.relative > 0);
+}
+
+/**
+ * Apply the rules that only depend on one document
+ * looseTypes turns numeric strings into numbers; nullEqualsMissing drops members set to null
+ */
+export function normalizeJSONValueTypes(
+  value: JSONNode,
+  { looseTypes = false, nullEqualsMissing = false }: { looseTypes?: boolean; nullEqualsMissing?: boolean }
+): JSONNode {
+  if (!looseTypes && !nullEqualsMissing) return value;
+
+  const visit = (node: JSONNode): JSONNode => {
+    switch (node.type) {
+      case 'string':
+        return looseTypes && NUMERIC_STRING.test(node.value) ? { type: 'number', raw: node.value } : node;
+      case 'array':
+        return { type: 'array', items: node.items.map(visit) };
+      case 'object':
+        return {
+          type: 'object',
+          members: node.members
+            .filter((member) => !nullEqualsMissing || member.value.type !== 'null')
+            .map((member) => ({ key: member.key, value: visit(member.value) })),
+        };
+      default:
+        return node;
+    }
+  };
+
+  return visit(value);
+}
+
+/**
+ * Copy of right in which every number close enough to its counterpart in
+ * left is replaced by the left one, so that a text diff of the copy sees no
+ * change there; the copy is only compared, never shown
+ * Objects are walked key by key, keyed arrays element by element as the
+ * structural diff pairs them and other arrays index by index
+ */
+export function alignNumbersWithinTolerance(
+  left: JSONNode,
+  right: JSONNode,
+  tolerance: NumericTolerance,
+  arrayIdentityKeys?: ArrayIdentityKey[]
+): JSONNode {
+  const identityKeyOf = createIdentityKeyLookup(arrayIdentityKeys);
+
+  const align = (oldValue: JSONNode, newValue: JSONNode, segments: JSONPathSegment[]): JSONNode => {
+    if (oldValue.type === 'number' && newValue.type === 'number') {
+      return numbersWithinTolerance(oldValue.raw, newValue.raw, tolerance) ? oldValue : newValue;
+    }
+    if (oldValue.type === 'array' && newValue.type === 'array') {
+      const identityKey = identityKeyOf?.(segments);
+      // Index of the left counterpart of each right element
+      const counterparts: Array<number | undefined> = newValue.items.map((_, index) =>
+        index < oldValue.items.length ? index : undefined
+      );
+      if (identityKey !== undefined) {
+        counterparts.fill(undefined);
+        pairElementsByIdentity(oldValue.items, newValue.items, identityKey).forEach((match, index) => {
+          if (match !== undefined) counterparts[match] = index;
+        });
+      }
+      return {
+        type: 'array',
+        items: newValue.items.map((item, index) => {
+          const counterpart = counterparts[index];
+          if (counterpart === undefined) return item;
+          segments.push(index);
+          const aligned = align(oldValue.items[counterpart], item, segments);
+          segments.pop();
+          return aligned;
+        }),
+      };
+    }
+    if (oldValue.type === 'object' && newValue.type === 'object') {
+      const oldMembers = new Map(oldValue.members.map((member) => [member.key, member.value]));
+      return {
+        type: 'object',
+        members: newValue.members.map((member) => {
+          const counterpart = oldMembers.get(member.key);
+          if (counterpart === undefined) return member;
+          segments.push(member.key);
+          const aligned = align(counterpart, member.value, segments);
+          segments.pop();
+          return { key: member.key, value: aligned };
+        }),
+      };
+    }
+    return newValue;
+  };
+
+  return align(left, right, []);
+}
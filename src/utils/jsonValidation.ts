@@ -1,11 +1,49 @@
 // JSON validation utilities
 
+import {
+  JSONParseResult,
+  normalizeJSONNodeWhitespace,
+  parseJSONDocument,
+  serializeJSONNode,
+  sortJSONNode,
+} from './jsonParser';
+import { fingerprintText } from './textFingerprint';
+import type { ValidationError } from '../types/common';
+
 export interface ValidationResult {
   isValid: boolean;
   formatted?: string;
   error?: string;
+  errors?: ValidationError[]; // Where parsing stopped and why
+  warnings?: string[]; // Valid but suspicious input, e.g. duplicate keys
 }
 
+/**
+ * Result of a parse as a validation result
+ * The error names the line and column and is also given as a structured
+ * error; duplicate keys become warnings
+ */
+const toValidationResult = (input: string, result: JSONParseResult, formatted?: string): ValidationResult => {
+  if (result.error) {
+    const { message, line, column, offset, expected, found, hint } = result.error;
+    return {
+      isValid: false,
+      error: `${message} at line ${line}, column ${column}`,
+      errors: [{ message, line, column, offset, expected, found, ...(hint !== undefined && { hint }), sourceFingerprint: fingerprintText(input) }],
+    };
+  }
+
+  const warnings = result.duplicateKeys.map(
+    ({ key, path, line, column }) =>
+      `Duplicate key ${JSON.stringify(key)} in ${path} at line ${line}, column ${column}`
+  );
+  return {
+    isValid: true,
+    ...(formatted !== undefined && { formatted }),
+    ...(warnings.length > 0 && { warnings }),
+  };
+};
+
 /**
  * Validate and format JSON string
  */
@@ -18,27 +56,11 @@ export function validateJSON(input: string): ValidationResult {
     };
   }
 
-  try {
-    // Try to parse JSON
-    const parsed = JSON.parse(input);
-
-    // Format with indentation
-    const formatted = JSON.stringify(parsed, null, 2);
-
-    return {
-      isValid: true,
-      formatted,
-    };
-  } catch (error) {
-    // Extract error message
-    const errorMessage =
-      error instanceof Error ? error.message : 'Invalid JSON syntax';
+  // Parse losslessly: big numbers keep their digits and duplicate keys are reported
+  const result = parseJSONDocument(input);
 
-    return {
-      isValid: false,
-      error: errorMessage,
-    };
-  }
+  // Format with indentation
+  return toValidationResult(input, result, result.node ? serializeJSONNode(result.node, 2) : undefined);
 }
 
 /**
@@ -54,26 +76,9 @@ export function validateJSONWithoutFormatting(input: string): ValidationResult {
     };
   }
 
-  try {
-    // Try to parse JSON to validate it's valid
-    JSON.parse(input);
-
-    // Return valid but without formatted version
-    // This preserves the original input structure
-    return {
-      isValid: true,
-      // Don't provide formatted version to preserve original formatting
-    };
-  } catch (error) {
-    // Extract error message
-    const errorMessage =
-      error instanceof Error ? error.message : 'Invalid JSON syntax';
-
-    return {
-      isValid: false,
-      error: errorMessage,
-    };
-  }
+  // Return valid but without formatted version
+  // This preserves the original input structure
+  return toValidationResult(input, parseJSONDocument(input));
 }
 
 /**
@@ -126,13 +131,8 @@ export function sortArrayElements(arr: any[]): any[] {
  * Normalize JSON by sorting keys
  */
 export function normalizeJSON(jsonString: string): string {
-  try {
-    const parsed = JSON.parse(jsonString);
-    const sorted = sortObjectKeys(parsed);
-    return JSON.stringify(sorted, null, 2);
-  } catch {
-    return jsonString;
-  }
+  const { node } = parseJSONDocument(jsonString);
+  return node ? serializeJSONNode(sortJSONNode(node), 2) : jsonString;
 }
 
 /**
@@ -168,13 +168,17 @@ export function normalizeJSONWithArraySort(obj: any, sortArrays: boolean = false
  * Normalize JSON by sorting keys and optionally arrays
  */
 export function normalizeJSONAdvanced(jsonString: string, sortArrays: boolean = false): string {
-  try {
-    const parsed = JSON.parse(jsonString);
-    const normalized = normalizeJSONWithArraySort(parsed, sortArrays);
-    return JSON.stringify(normalized, null, 2);
-  } catch {
-    return jsonString;
-  }
+  const { node } = parseJSONDocument(jsonString);
+  return node ? serializeJSONNode(sortJSONNode(node, sortArrays), 2) : jsonString;
+}
+
+/**
+ * Normalize whitespace in the string values of a JSON text
+ * Numbers keep their precision; the result is pretty-printed
+ */
+export function normalizeJSONWhitespace(jsonString: string): string {
+  const { node } = parseJSONDocument(jsonString);
+  return node ? serializeJSONNode(normalizeJSONNodeWhitespace(node), 2) : jsonString;
 }
 
 /**
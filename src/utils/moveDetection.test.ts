@@ -0,0 +1,77 @@
+import { detectMovedBlocks } from './moveDetection';
+import { myersDiff } from './myersDiff';
+import { computeLineByLineDiff } from './diffChecker';
+import { createRandom, randomInt } from '../test-utils/random';
+
+describe('detectMovedBlocks', () => {
+  it('reports a relocated block as a move in both directions', () => {
+    const left = [1, 2, 3, 4, 5, 6, 7];
+    const right = [1, 5, 6, 7, 2, 3, 4];
+    const { leftMoves, rightMoves } = detectMovedBlocks(left, right, myersDiff(left, right), 3);
+    const movedLeft = [...leftMoves.keys()].sort((a, b) => a - b);
+    expect(movedLeft).toHaveLength(3);
+    for (const index of movedLeft) {
+      const move = leftMoves.get(index)!;
+      expect(right[move.counterpartIndex]).toBe(left[index]);
+      expect(rightMoves.get(move.counterpartIndex)).toEqual({ moveId: move.moveId, counterpartIndex: index });
+    }
+  });
+
+  it('ignores blocks shorter than the minimum', () => {
+    const left = [1, 2, 3, 7, 8, 9, 10];
+    const right = [7, 8, 9, 10, 1, 2, 3];
+    const matches = myersDiff(left, right);
+    expect(detectMovedBlocks(left, right, matches, 3).leftMoves.size).toBe(3);
+    expect(detectMovedBlocks(left, right, matches, 4).leftMoves.size).toBe(0);
+  });
+
+  it('ignores blocks made only of blank lines', () => {
+    const left = [0, 0, 0, 1, 2, 3, 4];
+    const right = [1, 2, 3, 4, 0, 0, 0];
+    const matches = myersDiff(left, right);
+    expect(detectMovedBlocks(left, right, matches, 3).leftMoves.size).toBe(3);
+    expect(detectMovedBlocks(left, right, matches, 3, new Set([0])).leftMoves.size).toBe(0);
+  });
+
+  it('only pairs equal unmatched lines, in blocks of at least the minimum size', () => {
+    const random = createRandom(3);
+    for (let run = 0; run < 300; run++) {
+      const left = Array.from({ length: randomInt(random, 30) }, () => randomInt(random, 12));
+      const right = [...left];
+      // Move a random slice elsewhere
+      const start = randomInt(random, right.length + 1);
+      const slice = right.splice(start, randomInt(random, 6));
+      right.splice(randomInt(random, right.length + 1), 0, ...slice);
+
+      const matches = myersDiff(left, right);
+      const matchedLeft = new Set(matches.map((match) => match.leftIndex));
+      const matchedRight = new Set(matches.map((match) => match.rightIndex));
+      const { leftMoves, rightMoves } = detectMovedBlocks(left, right, matches, 2);
+
+      expect(rightMoves.size).toBe(leftMoves.size);
+      const blockSizes = new Map<number, number>();
+      leftMoves.forEach((move, index) => {
+        expect(matchedLeft.has(index)).toBe(false);
+        expect(matchedRight.has(move.counterpartIndex)).toBe(false);
+        expect(right[move.counterpartIndex]).toBe(left[index]);
+        expect(rightMoves.get(move.counterpartIndex)?.counterpartIndex).toBe(index);
+        blockSizes.set(move.moveId, (blockSizes.get(move.moveId) || 0) + 1);
+      });
+      blockSizes.forEach((size) => expect(size).toBeGreaterThanOrEqual(2));
+    }
+  });
+});
+
+describe('computeLineByLineDiff with detectMoves', () => {
+  it('links the moved lines of both sides', () => {
+    const left = 'header\nalpha\nbeta\ngamma\none\ntwo\nthree\nfour\nfooter';
+    const right = 'header\none\ntwo\nthree\nfour\nalpha\nbeta\ngamma\nfooter';
+    const diff = computeLineByLineDiff(left, right, { detectMoves: true });
+    const moved = (lines: typeof diff.leftLines) => lines.filter((line) => line.type === 'moved');
+    expect(moved(diff.leftLines).map((line) => line.content)).toEqual(['alpha', 'beta', 'gamma']);
+    expect(moved(diff.rightLines).map((line) => line.content)).toEqual(['alpha', 'beta', 'gamma']);
+    for (const line of moved(diff.leftLines)) {
+      expect(diff.rightLines[line.movedTo! - 1]).toMatchObject({ type: 'moved', content: line.content, movedTo: line.lineNumber });
+    }
+  });
+});
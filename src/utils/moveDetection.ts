@@ -0,0 +1,112 @@
+/**
+ * Moved Block Detection
+ *
+ * Finds blocks of lines that were removed in one place and inserted
+ * unchanged somewhere else, so they can be reported as moves instead of
+ * an unrelated removal plus addition.
+ */
+
+import type { MatchPair } from './myersDiff';
+
+// Limit on candidate start positions checked per line (keeps repeated lines cheap)
+const MAX_CANDIDATES = 64;
+
+export interface MoveRef {
+  moveId: number;
+  counterpartIndex: number; // Index of the same line in the other sequence
+}
+
+export interface MoveDetectionResult {
+  leftMoves: Map<number, MoveRef>;
+  rightMoves: Map<number, MoveRef>;
+}
+
+/**
+ * Detect relocated blocks among the lines left unmatched by the diff
+ *
+ * @param left - Interned line ids of the left input
+ * @param right - Interned line ids of the right input
+ * @param matches - Matched index pairs produced by the diff strategy
+ * @param minBlockSize - Minimum number of consecutive lines for a block to count as moved
+ * @param blankIds - Ids of blank lines; a block made only of blank lines is never a move
+ */
+export function detectMovedBlocks(
+  left: readonly number[],
+  right: readonly number[],
+  matches: readonly MatchPair[],
+  minBlockSize: number,
+  blankIds: ReadonlySet<number> = new Set()
+): MoveDetectionResult {
+  const leftMoves = new Map<number, MoveRef>();
+  const rightMoves = new Map<number, MoveRef>();
+
+  const leftMatched = new Uint8Array(left.length);
+  const rightMatched = new Uint8Array(right.length);
+  for (const match of matches) {
+    leftMatched[match.leftIndex] = 1;
+    rightMatched[match.rightIndex] = 1;
+  }
+
+  // Positions of every unmatched right line, by line id
+  const rightPositions = new Map<number, number[]>();
+  for (let j = 0; j < right.length; j++) {
+    if (rightMatched[j]) continue;
+    const positions = rightPositions.get(right[j]);
+    if (positions) {
+      positions.push(j);
+    } else {
+      rightPositions.set(right[j], [j]);
+    }
+  }
+
+  const isFree = (i: number, j: number): boolean =>
+    i < left.length &&
+    j < right.length &&
+    !leftMatched[i] &&
+    !rightMatched[j] &&
+    !rightMoves.has(j) &&
+    left[i] === right[j];
+
+  let moveId = 1;
+  let i = 0;
+
+  while (i < left.length) {
+    const candidates = leftMatched[i] ? undefined : rightPositions.get(left[i]);
+    if (!candidates) {
+      i++;
+      continue;
+    }
+
+    let bestStart = -1;
+    let bestLength = 0;
+    for (let c = 0; c < candidates.length && c < MAX_CANDIDATES; c++) {
+      const j = candidates[c];
+      let length = 0;
+      while (isFree(i + length, j + length)) {
+        length++;
+      }
+      if (length > bestLength) {
+        bestStart = j;
+        bestLength = length;
+      }
+    }
+
+    let hasContent = false;
+    for (let k = 0; k < bestLength && !hasContent; k++) {
+      hasContent = !blankIds.has(left[i + k]);
+    }
+
+    if (bestLength >= minBlockSize && hasContent) {
+      for (let k = 0; k < bestLength; k++) {
+        leftMoves.set(i + k, { moveId, counterpartIndex: bestStart + k });
+        rightMoves.set(bestStart + k, { moveId, counterpartIndex: i + k });
+      }
+      moveId++;
+      i += bestLength;
+    } else {
+      i++;
+    }
+  }
+
+  return { leftMoves, rightMoves };
+}
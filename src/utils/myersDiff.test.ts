@@ -0,0 +1,54 @@
+import { myersDiff, myersDiffRange, MatchPair } from './myersDiff';
+import { createRandom, lcsLength, mutateSequence, randomSequence } from '../test-utils/random';
+
+/**
+ * Matches must pair equal elements in strictly increasing order on both sides
+ */
+const expectCommonSubsequence = (left: string[], right: string[], matches: MatchPair[]) => {
+  matches.forEach((match, index) => {
+    expect(left[match.leftIndex]).toBe(right[match.rightIndex]);
+    if (index > 0) {
+      expect(match.leftIndex).toBeGreaterThan(matches[index - 1].leftIndex);
+      expect(match.rightIndex).toBeGreaterThan(matches[index - 1].rightIndex);
+    }
+  });
+};
+
+describe('myersDiff', () => {
+  it('matches everything for equal sequences and nothing for disjoint ones', () => {
+    const lines = ['a', 'b', 'c'];
+    expect(myersDiff(lines, lines)).toEqual([
+      { leftIndex: 0, rightIndex: 0 },
+      { leftIndex: 1, rightIndex: 1 },
+      { leftIndex: 2, rightIndex: 2 },
+    ]);
+    expect(myersDiff(['a', 'b'], ['c', 'd'])).toEqual([]);
+    expect(myersDiff([], ['a'])).toEqual([]);
+  });
+
+  it('finds a longest common subsequence of random sequences', () => {
+    const random = createRandom(1);
+    for (let run = 0; run < 500; run++) {
+      const left = randomSequence(random, 40, 1 + (run % 6));
+      const right = run % 2 === 0 ? randomSequence(random, 40, 1 + (run % 6)) : mutateSequence(random, left, 5, 6);
+      const matches = myersDiff(left, right);
+      expectCommonSubsequence(left, right, matches);
+      expect(matches).toHaveLength(lcsLength(left, right));
+    }
+  });
+
+  it('diffs a sub-range with indexes into the whole sequences', () => {
+    const left = ['x', 'a', 'b', 'c', 'y'];
+    const right = ['z', 'a', 'c', 'w'];
+    expect(myersDiffRange(left, right, 1, 4, 1, 3)).toEqual([
+      { leftIndex: 1, rightIndex: 1 },
+      { leftIndex: 3, rightIndex: 2 },
+    ]);
+  });
+
+  it('reports progress up to the total', () => {
+    const calls: Array<[number, number]> = [];
+    myersDiff(['a', 'b', 'c'], ['a', 'c', 'd'], (processed, total) => calls.push([processed, total]));
+    expect(calls[calls.length - 1]).toEqual([6, 6]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Myers Diff Algorithm
+ *
+ * Computes a minimal edit script between two sequences using Myers' O(ND)
+ * algorithm with the linear-space "middle snake" refinement.
+ * Works on any sequence whose elements can be compared with ===
+ * (interned line ids, characters, words).
+ */
+
+export interface MatchPair {
+  leftIndex: number;
+  rightIndex: number;
+}
+
+/**
+ * Progress callback: processed elements of both sequences out of total
+ * An element is processed once it is matched or known to be inserted/deleted
+ */
+export type DiffProgressCallback = (processed: number, total: number) => void;
+
+interface Range {
+  leftStart: number;
+  leftEnd: number;
+  rightStart: number;
+  rightEnd: number;
+}
+
+interface Snake {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+/**
+ * Find the middle snake of the shortest edit path for the given range
+ * Coordinates of the returned snake are relative to the start of the range
+ */
+function findMiddleSnake<T>(
+  left: readonly T[],
+  right: readonly T[],
+  range: Range,
+  forward: Int32Array,
+  backward: Int32Array
+): Snake {
+  const n = range.leftEnd - range.leftStart;
+  const m = range.rightEnd - range.rightStart;
+  const delta = n - m;
+  const isOdd = (delta & 1) !== 0;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  for (let d = 0; d <= maxD; d++) {
+    // Forward pass: extend furthest reaching d-paths from the top-left corner
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+
+      while (x < n && y < m && left[range.leftStart + x] === right[range.rightStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      // Backward diagonal matching forward diagonal k is (delta - k)
+      const backwardK = delta - k;
+      if (isOdd && backwardK >= -(d - 1) && backwardK <= d - 1) {
+        if (forward[offset + k] + backward[offset + backwardK] >= n) {
+          return { startX, startY, endX: x, endY: y };
+        }
+      }
+    }
+
+    // Backward pass: extend furthest reaching d-paths from the bottom-right corner
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+
+      while (
+        x < n &&
+        y < m &&
+        left[range.leftEnd - 1 - x] === right[range.rightEnd - 1 - y]
+      ) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+
+      const forwardK = delta - k;
+      if (!isOdd && forwardK >= -d && forwardK <= d) {
+        if (backward[offset + k] + forward[offset + forwardK] >= n) {
+          // Convert the reversed snake back to forward coordinates
+          return { startX: n - x, startY: m - y, endX: n - startX, endY: m - startY };
+        }
+      }
+    }
+  }
+
+  // Unreachable for valid input: the paths always meet by d = ceil((n + m) / 2)
+  return { startX: 0, startY: 0, endX: 0, endY: 0 };
+}
+
+/**
+ * Compute matching element pairs between two ranges of two sequences
+ * Returned pairs are sorted by leftIndex (and therefore by rightIndex)
+ */
+export function myersDiffRange<T>(
+  left: readonly T[],
+  right: readonly T[],
+  leftStart: number,
+  leftEnd: number,
+  rightStart: number,
+  rightEnd: number,
+  onProgress?: DiffProgressCallback
+): MatchPair[] {
+  const matches: MatchPair[] = [];
+  const size = leftEnd - leftStart + (rightEnd - rightStart);
+  const forward = new Int32Array(size + 4);
+  const backward = new Int32Array(size + 4);
+
+  // Report roughly every percent of processed elements
+  const progressStep = Math.max(1, Math.floor(size / 100));
+  let processed = 0;
+  let lastReported = 0;
+  const advance = (count: number) => {
+    processed += count;
+    if (onProgress && processed - lastReported >= progressStep) {
+      lastReported = processed;
+      onProgress(processed, size);
+    }
+  };
+
+  // Explicit stack instead of recursion so very long inputs cannot overflow the call stack
+  const stack: Range[] = [{ leftStart, leftEnd, rightStart, rightEnd }];
+
+  while (stack.length > 0) {
+    const range = stack.pop()!;
+
+    // Strip common prefix
+    while (
+      range.leftStart < range.leftEnd &&
+      range.rightStart < range.rightEnd &&
+      left[range.leftStart] === right[range.rightStart]
+    ) {
+      matches.push({ leftIndex: range.leftStart, rightIndex: range.rightStart });
+      range.leftStart++;
+      range.rightStart++;
+      advance(2);
+    }
+
+    // Strip common suffix
+    while (
+      range.leftStart < range.leftEnd &&
+      range.rightStart < range.rightEnd &&
+      left[range.leftEnd - 1] === right[range.rightEnd - 1]
+    ) {
+      range.leftEnd--;
+      range.rightEnd--;
+      matches.push({ leftIndex: range.leftEnd, rightIndex: range.rightEnd });
+      advance(2);
+    }
+
+    // Pure insertion or deletion - nothing left to match
+    if (range.leftStart === range.leftEnd || range.rightStart === range.rightEnd) {
+      advance(range.leftEnd - range.leftStart + (range.rightEnd - range.rightStart));
+      continue;
+    }
+
+    const snake = findMiddleSnake(left, right, range, forward, backward);
+
+    for (let x = snake.startX, y = snake.startY; x < snake.endX; x++, y++) {
+      matches.push({ leftIndex: range.leftStart + x, rightIndex: range.rightStart + y });
+    }
+    advance(2 * (snake.endX - snake.startX));
+
+    stack.push({
+      leftStart: range.leftStart,
+      leftEnd: range.leftStart + snake.startX,
+      rightStart: range.rightStart,
+      rightEnd: range.rightStart + snake.startY,
+    });
+    stack.push({
+      leftStart: range.leftStart + snake.endX,
+      leftEnd: range.leftEnd,
+      rightStart: range.rightStart + snake.endY,
+      rightEnd: range.rightEnd,
+    });
+  }
+
+  onProgress?.(size, size);
+  return matches.sort((a, b) => a.leftIndex - b.leftIndex);
+}
+
+/**
+ * Compute the longest common subsequence of two sequences as matching index pairs
+ *
+ * Elements that never occur in the other sequence cannot be part of any match,
+ * so they are discarded up front. This keeps completely rewritten regions from
+ * blowing up the O(ND) search without changing the result.
+ */
+export function myersDiff<T>(
+  left: readonly T[],
+  right: readonly T[],
+  onProgress?: DiffProgressCallback
+): MatchPair[] {
+  const leftSet = new Set(left);
+  const rightSet = new Set(right);
+
+  const leftIndexes: number[] = [];
+  const rightIndexes: number[] = [];
+  for (let i = 0; i < left.length; i++) {
+    if (rightSet.has(left[i])) leftIndexes.push(i);
+  }
+  for (let j = 0; j < right.length; j++) {
+    if (leftSet.has(right[j])) rightIndexes.push(j);
+  }
+
+  if (leftIndexes.length === left.length && rightIndexes.length === right.length) {
+    return myersDiffRange(left, right, 0, left.length, 0, right.length, onProgress);
+  }
+
+  // Discarded elements count as processed from the start
+  const total = left.length + right.length;
+  const discarded = total - leftIndexes.length - rightIndexes.length;
+  const reportFiltered: DiffProgressCallback | undefined = onProgress
+    ? (processed) => onProgress(discarded + processed, total)
+    : undefined;
+
+  const filteredLeft = leftIndexes.map((i) => left[i]);
+  const filteredRight = rightIndexes.map((j) => right[j]);
+
+  return myersDiffRange(
+    filteredLeft,
+    filteredRight,
+    0,
+    filteredLeft.length,
+    0,
+    filteredRight.length,
+    reportFiltered
+  ).map(
+    (match) => ({
+      leftIndex: leftIndexes[match.leftIndex],
+      rightIndex: rightIndexes[match.rightIndex],
+    })
+  );
+}
@@ -0,0 +1,68 @@
+import { applyPatch, parseUnifiedDiff } from './patchApply';
+import { formatUnifiedDiff } from './unifiedDiff';
+import { computeLineByLineDiff } from './diffChecker';
+
+const makePatch = (left: string, right: string, contextLines = 3) =>
+  formatUnifiedDiff(computeLineByLineDiff(left, right), { contextLines });
+
+const numbered = (count: number) => Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+describe('parseUnifiedDiff', () => {
+  it('reads hunk ranges, defaulting omitted counts to 1', () => {
+    const [hunk] = parseUnifiedDiff('--- a\n+++ b\n@@ -2 +2 @@\n-old\n+new\n');
+    expect(hunk).toMatchObject({ oldStart: 2, oldCount: 1, newStart: 2, newCount: 1 });
+    expect(hunk.lines).toEqual([
+      { type: 'removed', content: 'old' },
+      { type: 'added', content: 'new' },
+    ]);
+  });
+
+  it('throws on a hunk that ends before the lines its header declares', () => {
+    expect(() => parseUnifiedDiff('@@ -1,3 +1,3 @@\n a\n-b')).toThrow('ends unexpectedly');
+  });
+});
+
+describe('applyPatch', () => {
+  it('applies a hunk at an offset when lines were inserted above it', () => {
+    const left = numbered(20).join('\n');
+    const right = left.replace('line 10', 'line ten');
+    const shifted = ['new 1', 'new 2', left].join('\n');
+    const result = applyPatch(shifted, makePatch(left, right));
+    expect(result.output).toBe(['new 1', 'new 2', right].join('\n'));
+    expect(result.hunks[0]).toMatchObject({ status: 'applied', offset: 2 });
+  });
+
+  it('drops context lines (fuzz) when the context around a hunk changed', () => {
+    const left = numbered(20).join('\n');
+    const right = left.replace('line 10', 'line ten');
+    const source = left.replace('line 7', 'line seven');
+    const result = applyPatch(source, makePatch(left, right));
+    expect(result.rejectedCount).toBe(0);
+    expect(result.hunks[0].fuzz).toBeGreaterThan(0);
+    expect(result.output).toBe(source.replace('line 10', 'line ten'));
+  });
+
+  it('rejects hunks whose removed lines are gone and keeps applying the rest', () => {
+    const left = numbered(40).join('\n');
+    const right = left.replace('line 5', 'line five').replace('line 35', 'line thirty-five');
+    const source = left.replace('line 5', 'something else');
+    const result = applyPatch(source, makePatch(left, right));
+    expect(result.appliedCount).toBe(1);
+    expect(result.rejectedCount).toBe(1);
+    expect(result.output).toBe(source.replace('line 35', 'line thirty-five'));
+  });
+
+  it('reports an error for text without hunks', () => {
+    const result = applyPatch('a', 'not a patch');
+    expect(result.error).toBeDefined();
+    expect(result.output).toBe('a');
+  });
+
+  it('applies a hunk of very many lines', () => {
+    const added = numbered(150000);
+    const patch = `@@ -1,1 +1,${added.length + 1} @@\n first\n${added.map((line) => `+${line}`).join('\n')}\n`;
+    const result = applyPatch('first\n', patch);
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe(['first', ...added].join('\n') + '\n');
+  });
+});
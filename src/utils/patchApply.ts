@@ -0,0 +1,330 @@
+/**
+ * Unified Diff Patch Applier
+ *
+ * Parses unified diff (.patch) text and applies its hunks to a source text.
+ * Hunks that no longer match at their recorded position are searched for
+ * nearby (offset) and, failing that, with fewer context lines (fuzz), like
+ * GNU patch. Hunks that still cannot be placed are reported as rejected.
+ */
+
+// Maximum number of context lines dropped from each end of a hunk
+export const MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+type PatchLineType = 'context' | 'removed' | 'added';
+
+interface PatchLine {
+  type: PatchLineType;
+  content: string;
+}
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: PatchLine[];
+  oldNoNewline: boolean; // Old side ends without a trailing newline
+  newNoNewline: boolean; // New side ends without a trailing newline
+}
+
+export type HunkStatus = 'applied' | 'rejected';
+
+export interface HunkReport {
+  index: number; // 1-based hunk number
+  header: string;
+  status: HunkStatus;
+  offset?: number; // Lines between the recorded and the actual position
+  fuzz?: number; // Context lines ignored at each end to make the hunk fit
+  ignoredWhitespace?: boolean;
+  reason?: string;
+}
+
+export interface PatchApplyResult {
+  output: string;
+  hunks: HunkReport[];
+  appliedCount: number;
+  rejectedCount: number;
+  error?: string; // Set when the patch itself could not be parsed
+}
+
+/**
+ * Parse the hunks of a single-file unified diff
+ * File headers and git metadata lines outside hunks are ignored
+ *
+ * @throws Error when a hunk is malformed or the patch touches several files
+ */
+export function parseUnifiedDiff(patchText: string): PatchHunk[] {
+  const lines = patchText.split(/\r?\n/);
+  const hunks: PatchHunk[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const header = HUNK_HEADER.exec(line);
+
+    if (!header) {
+      if (line.startsWith('--- ') && hunks.length > 0) {
+        throw new Error('Patch modifies more than one file; only single-file patches are supported');
+      }
+      i++;
+      continue;
+    }
+
+    const hunk: PatchHunk = {
+      header: header[0],
+      oldStart: parseInt(header[1], 10),
+      oldCount: header[2] === undefined ? 1 : parseInt(header[2], 10),
+      newStart: parseInt(header[3], 10),
+      newCount: header[4] === undefined ? 1 : parseInt(header[4], 10),
+      lines: [],
+      oldNoNewline: false,
+      newNoNewline: false,
+    };
+    i++;
+
+    let oldRemaining = hunk.oldCount;
+    let newRemaining = hunk.newCount;
+
+    while (oldRemaining > 0 || newRemaining > 0) {
+      if (i >= lines.length) {
+        throw new Error(`Hunk ${hunks.length + 1} (${hunk.header}) ends unexpectedly`);
+      }
+
+      const hunkLine = lines[i];
+      const prefix = hunkLine[0];
+
+      if (prefix === '\\') {
+        // "\ No newline at end of file" refers to the previous line
+        markNoNewline(hunk);
+      } else if (prefix === ' ' || hunkLine === '') {
+        // Some editors strip the single space of empty context lines
+        hunk.lines.push({ type: 'context', content: hunkLine.slice(1) });
+        oldRemaining--;
+        newRemaining--;
+      } else if (prefix === '-') {
+        hunk.lines.push({ type: 'removed', content: hunkLine.slice(1) });
+        oldRemaining--;
+      } else if (prefix === '+') {
+        hunk.lines.push({ type: 'added', content: hunkLine.slice(1) });
+        newRemaining--;
+      } else {
+        throw new Error(`Hunk ${hunks.length + 1} (${hunk.header}) has an invalid line: "${hunkLine}"`);
+      }
+
+      if (oldRemaining < 0 || newRemaining < 0) {
+        throw new Error(`Hunk ${hunks.length + 1} (${hunk.header}) has more lines than its header declares`);
+      }
+      i++;
+    }
+
+    // A marker may follow the last line of the hunk
+    if (i < lines.length && lines[i].startsWith('\\')) {
+      markNoNewline(hunk);
+      i++;
+    }
+
+    hunks.push(hunk);
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply a "\ No newline at end of file" marker to the last line parsed so far
+ */
+function markNoNewline(hunk: PatchHunk): void {
+  const last = hunk.lines[hunk.lines.length - 1];
+  if (!last) return;
+  if (last.type !== 'added') hunk.oldNoNewline = true;
+  if (last.type !== 'removed') hunk.newNoNewline = true;
+}
+
+const linesEqual = (a: string, b: string, ignoreWhitespace: boolean): boolean =>
+  ignoreWhitespace ? a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim() : a === b;
+
+/**
+ * Check whether the pattern occurs in the lines at the given position
+ */
+function matchesAt(lines: string[], pattern: string[], position: number, ignoreWhitespace: boolean): boolean {
+  if (position < 0 || position + pattern.length > lines.length) {
+    return false;
+  }
+  for (let k = 0; k < pattern.length; k++) {
+    if (!linesEqual(lines[position + k], pattern[k], ignoreWhitespace)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Search outward from the expected position for the closest match
+ * Positions before minPosition belong to already applied hunks and are skipped
+ */
+function findPosition(
+  lines: string[],
+  pattern: string[],
+  expected: number,
+  minPosition: number,
+  ignoreWhitespace: boolean
+): number {
+  const maxPosition = lines.length - pattern.length;
+  const maxDistance = Math.max(expected - minPosition, maxPosition - expected);
+
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    const before = expected - distance;
+    if (before >= minPosition && before <= maxPosition && matchesAt(lines, pattern, before, ignoreWhitespace)) {
+      return before;
+    }
+    const after = expected + distance;
+    if (distance > 0 && after >= minPosition && after <= maxPosition && matchesAt(lines, pattern, after, ignoreWhitespace)) {
+      return after;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Describe why a hunk does not match at its expected position
+ */
+function describeMismatch(lines: string[], pattern: string[], expected: number): string {
+  for (let k = 0; k < pattern.length; k++) {
+    const lineNumber = expected + k + 1;
+    if (expected + k >= lines.length) {
+      return `Expected "${pattern[k]}" at line ${lineNumber}, but the input ends at line ${lines.length}`;
+    }
+    if (lines[expected + k] !== pattern[k]) {
+      return `Line ${lineNumber}: expected "${pattern[k]}", found "${lines[expected + k]}"`;
+    }
+  }
+  return 'Context not found in the input';
+}
+
+/**
+ * Apply a unified diff to the source text
+ *
+ * Hunks are applied in order; each one is tried at its recorded position
+ * (adjusted by the hunks before it), then at the nearest matching offset,
+ * then with up to MAX_FUZZ context lines dropped from each end and finally
+ * ignoring whitespace differences.
+ */
+export function applyPatch(source: string, patchText: string): PatchApplyResult {
+  let hunks: PatchHunk[];
+  try {
+    hunks = parseUnifiedDiff(patchText);
+  } catch (error) {
+    return {
+      output: source,
+      hunks: [],
+      appliedCount: 0,
+      rejectedCount: 0,
+      error: error instanceof Error ? error.message : 'Invalid patch',
+    };
+  }
+
+  if (hunks.length === 0) {
+    return {
+      output: source,
+      hunks: [],
+      appliedCount: 0,
+      rejectedCount: 0,
+      error: 'No hunks found. Expected a unified diff with "@@ -a,b +c,d @@" headers.',
+    };
+  }
+
+  // A trailing empty line is the newline terminator, as in the unified diff serializer
+  let lines = source.split('\n');
+  let endsWithNewline = lines[lines.length - 1] === '';
+  if (endsWithNewline) {
+    lines.pop();
+  }
+
+  const reports: HunkReport[] = [];
+  let sizeDelta = 0; // Net lines added by the hunks applied so far
+  let lastOffset = 0; // Offset of the previous applied hunk, assumed to persist
+  let minPosition = 0;
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const oldLines = hunk.lines.filter((line) => line.type !== 'added').map((line) => line.content);
+    const newLines = hunk.lines.filter((line) => line.type !== 'removed').map((line) => line.content);
+
+    let leadingContext = 0;
+    while (leadingContext < hunk.lines.length && hunk.lines[leadingContext].type === 'context') {
+      leadingContext++;
+    }
+    let trailingContext = 0;
+    while (
+      trailingContext < hunk.lines.length - leadingContext &&
+      hunk.lines[hunk.lines.length - 1 - trailingContext].type === 'context'
+    ) {
+      trailingContext++;
+    }
+
+    // An empty old range records the line before the insertion point
+    const recordedIndex = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const nominal = recordedIndex + sizeDelta;
+    const report: HunkReport = { index: hunkIndex + 1, header: hunk.header, status: 'rejected' };
+
+    let applied = false;
+    for (const ignoreWhitespace of [false, true]) {
+      for (let fuzz = 0; fuzz <= MAX_FUZZ && !applied; fuzz++) {
+        const lead = Math.min(fuzz, leadingContext);
+        const trail = Math.min(fuzz, trailingContext);
+        if (fuzz > 0 && lead + trail === 0) break;
+
+        const pattern = oldLines.slice(lead, oldLines.length - trail);
+        const replacement = newLines.slice(lead, newLines.length - trail);
+
+        // Never reduce a hunk to nothing; it would match anywhere
+        if (pattern.length === 0 && oldLines.length > 0) break;
+
+        const position = findPosition(lines, pattern, nominal + lastOffset + lead, minPosition, ignoreWhitespace);
+        if (position === -1) continue;
+
+        // The hunk reaches the end of the input, so it decides the final newline
+        const touchesEnd = trail === 0 && position + pattern.length === lines.length;
+        if (touchesEnd && (hunk.oldNoNewline || hunk.newNoNewline)) {
+          endsWithNewline = !hunk.newNoNewline;
+        }
+
+        // Spreading a long replacement into splice would overflow the call stack
+        lines = lines.slice(0, position).concat(replacement, lines.slice(position + pattern.length));
+
+        const offset = position - lead - nominal;
+        report.status = 'applied';
+        report.offset = offset;
+        report.fuzz = fuzz;
+        report.ignoredWhitespace = ignoreWhitespace || undefined;
+
+        lastOffset = offset;
+        sizeDelta += replacement.length - pattern.length;
+        minPosition = position + replacement.length;
+        applied = true;
+      }
+      if (applied) break;
+    }
+
+    if (!applied) {
+      report.reason =
+        hunk.oldCount > 0 && nominal + lastOffset > lines.length
+          ? `Hunk starts at line ${recordedIndex + 1}, past the end of the input (${lines.length} lines)`
+          : describeMismatch(lines, oldLines, Math.max(nominal + lastOffset, minPosition));
+    }
+
+    reports.push(report);
+  });
+
+  const appliedCount = reports.filter((report) => report.status === 'applied').length;
+  const output = lines.join('\n') + (endsWithNewline && lines.length > 0 ? '\n' : '');
+
+  return {
+    output,
+    hunks: reports,
+    appliedCount,
+    rejectedCount: reports.length - appliedCount,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Patience Diff Algorithm
+ *
+ * Anchors the diff on elements that occur exactly once on each side,
+ * keeps the longest increasing run of those anchors and recurses between them.
+ * Repeated lines such as `},` or `</item>` can never become anchors, so blocks
+ * are matched by their distinctive lines instead of by stray braces.
+ * Regions without unique elements fall back to Myers.
+ */
+
+import { myersDiffRange, MatchPair } from './myersDiff';
+
+interface Range {
+  leftStart: number;
+  leftEnd: number;
+  rightStart: number;
+  rightEnd: number;
+}
+
+interface Occurrence {
+  leftCount: number;
+  rightCount: number;
+  leftIndex: number;
+}
+
+/**
+ * Longest increasing subsequence (by leftIndex) of candidate anchors,
+ * computed with patience sorting in O(n log n)
+ */
+function longestIncreasingAnchors(candidates: MatchPair[]): MatchPair[] {
+  const pileTops: number[] = [];
+  const previous = new Array<number>(candidates.length).fill(-1);
+
+  for (let i = 0; i < candidates.length; i++) {
+    const value = candidates[i].leftIndex;
+    let low = 0;
+    let high = pileTops.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (candidates[pileTops[mid]].leftIndex < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    if (low > 0) {
+      previous[i] = pileTops[low - 1];
+    }
+    pileTops[low] = i;
+  }
+
+  const result: MatchPair[] = [];
+  let index = pileTops.length > 0 ? pileTops[pileTops.length - 1] : -1;
+  while (index !== -1) {
+    result.push(candidates[index]);
+    index = previous[index];
+  }
+  return result.reverse();
+}
+
+/**
+ * Compute matching element pairs between two sequences using patience diff
+ */
+export function patienceDiff<T>(left: readonly T[], right: readonly T[]): MatchPair[] {
+  const matches: MatchPair[] = [];
+  const stack: Range[] = [
+    { leftStart: 0, leftEnd: left.length, rightStart: 0, rightEnd: right.length },
+  ];
+
+  while (stack.length > 0) {
+    const range = stack.pop()!;
+
+    // Strip common prefix
+    while (
+      range.leftStart < range.leftEnd &&
+      range.rightStart < range.rightEnd &&
+      left[range.leftStart] === right[range.rightStart]
+    ) {
+      matches.push({ leftIndex: range.leftStart, rightIndex: range.rightStart });
+      range.leftStart++;
+      range.rightStart++;
+    }
+
+    // Strip common suffix
+    while (
+      range.leftStart < range.leftEnd &&
+      range.rightStart < range.rightEnd &&
+      left[range.leftEnd - 1] === right[range.rightEnd - 1]
+    ) {
+      range.leftEnd--;
+      range.rightEnd--;
+      matches.push({ leftIndex: range.leftEnd, rightIndex: range.rightEnd });
+    }
+
+    if (range.leftStart === range.leftEnd || range.rightStart === range.rightEnd) {
+      continue;
+    }
+
+    // Count occurrences of every element inside the current range
+    const occurrences = new Map<T, Occurrence>();
+    for (let i = range.leftStart; i < range.leftEnd; i++) {
+      const entry = occurrences.get(left[i]);
+      if (entry) {
+        entry.leftCount++;
+      } else {
+        occurrences.set(left[i], { leftCount: 1, rightCount: 0, leftIndex: i });
+      }
+    }
+    for (let j = range.rightStart; j < range.rightEnd; j++) {
+      const entry = occurrences.get(right[j]);
+      if (entry) {
+        entry.rightCount++;
+      }
+    }
+
+    // Elements unique on both sides, in right-hand order
+    const candidates: MatchPair[] = [];
+    for (let j = range.rightStart; j < range.rightEnd; j++) {
+      const entry = occurrences.get(right[j]);
+      if (entry && entry.leftCount === 1 && entry.rightCount === 1) {
+        candidates.push({ leftIndex: entry.leftIndex, rightIndex: j });
+      }
+    }
+
+    if (candidates.length === 0) {
+      // Appended one by one: spreading a large region into push overflows the call stack
+      for (const match of myersDiffRange(left, right, range.leftStart, range.leftEnd, range.rightStart, range.rightEnd)) {
+        matches.push(match);
+      }
+      continue;
+    }
+
+    // Recurse into the gaps between consecutive anchors
+    let leftCursor = range.leftStart;
+    let rightCursor = range.rightStart;
+    for (const anchor of longestIncreasingAnchors(candidates)) {
+      stack.push({
+        leftStart: leftCursor,
+        leftEnd: anchor.leftIndex,
+        rightStart: rightCursor,
+        rightEnd: anchor.rightIndex,
+      });
+      matches.push(anchor);
+      leftCursor = anchor.leftIndex + 1;
+      rightCursor = anchor.rightIndex + 1;
+    }
+    stack.push({
+      leftStart: leftCursor,
+      leftEnd: range.leftEnd,
+      rightStart: rightCursor,
+      rightEnd: range.rightEnd,
+    });
+  }
+
+  return matches.sort((a, b) => a.leftIndex - b.leftIndex);
+}
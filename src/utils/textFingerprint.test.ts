@@ -0,0 +1,26 @@
+import { fingerprintText } from './textFingerprint';
+
+describe('fingerprintText', () => {
+  it('is equal for equal texts only', () => {
+    expect(fingerprintText('{"a": 1}')).toBe(fingerprintText('{"a": 1}'));
+    expect(fingerprintText('{"a": 1}')).not.toBe(fingerprintText('{"a": 2}'));
+    expect(fingerprintText('ab')).not.toBe(fingerprintText('ba'));
+    expect(fingerprintText('')).toBe('0:ztntfp');
+  });
+
+  it('tells apart every one-character edit of a text', () => {
+    const text = '{"items": [1, 2, 3], "name": "diff"}';
+    const fingerprints = new Set<string>([fingerprintText(text)]);
+    for (let i = 0; i < text.length; i++) {
+      fingerprints.add(fingerprintText(text.slice(0, i) + text.slice(i + 1)));
+      fingerprints.add(fingerprintText(`${text.slice(0, i)}x${text.slice(i + 1)}`));
+    }
+    // Deleting either of two equal neighbouring characters gives the same text
+    const texts = new Set<string>([text]);
+    for (let i = 0; i < text.length; i++) {
+      texts.add(text.slice(0, i) + text.slice(i + 1));
+      texts.add(`${text.slice(0, i)}x${text.slice(i + 1)}`);
+    }
+    expect(fingerprints.size).toBe(texts.size);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Text Fingerprint
+ *
+ * A short string that identifies a text: its length and an FNV-1a hash of
+ * its characters. Results that refer to positions in a text keep its
+ * fingerprint instead of a copy, so that a cheap comparison tells whether
+ * they still apply to the text on screen.
+ */
+
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Fingerprint of a text; equal texts always share it, and different ones
+ * almost never do
+ */
+export function fingerprintText(text: string): string {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), FNV_PRIME);
+  }
+  return `${text.length}:${(hash >>> 0).toString(36)}`;
+}
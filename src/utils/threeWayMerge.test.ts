@@ -0,0 +1,57 @@
+import { buildMergedText, mergeThreeWay, CONFLICT_MARKERS } from './threeWayMerge';
+import { createRandom, mutateSequence, randomSequence } from '../test-utils/random';
+import type { DiffAlgorithm } from '../types/common';
+
+const ALGORITHMS: DiffAlgorithm[] = ['myers', 'patience', 'histogram'];
+
+describe('mergeThreeWay', () => {
+  it('takes changes made on one side only', () => {
+    const result = mergeThreeWay('a\nb\nc\nd\ne', 'a\nB\nc\nd\ne', 'a\nb\nc\nd\nE');
+    expect(result.conflictCount).toBe(0);
+    expect(buildMergedText(result)).toBe('a\nB\nc\nd\nE');
+  });
+
+  it('reports different changes to the same lines as a conflict', () => {
+    const result = mergeThreeWay('a\nb\nc', 'a\nleft\nc', 'a\nright\nc');
+    expect(result.conflictCount).toBe(1);
+    expect(buildMergedText(result)).toBe(
+      ['a', CONFLICT_MARKERS.left, 'left', CONFLICT_MARKERS.base, 'b', CONFLICT_MARKERS.separator, 'right', CONFLICT_MARKERS.right, 'c'].join('\n')
+    );
+    expect(buildMergedText(result, { 0: { choice: 'right' } })).toBe('a\nright\nc');
+    expect(buildMergedText(result, { 0: { choice: 'both' } })).toBe('a\nleft\nright\nc');
+    expect(buildMergedText(result, { 0: { choice: 'edit', text: 'x\ny' } })).toBe('a\nx\ny\nc');
+  });
+
+  it('keeps every version in its regions and merges trivial cases cleanly', () => {
+    const random = createRandom(7);
+    for (let run = 0; run < 300; run++) {
+      const options = { diffAlgorithm: ALGORITHMS[run % 3] };
+      const base = randomSequence(random, 25, 5);
+      const left = mutateSequence(random, base, 1 + (run % 4), 5);
+      const right = mutateSequence(random, base, 1 + (run % 5), 5);
+      const [baseText, leftText, rightText] = [base, left, right].map((lines) => lines.join('\n'));
+
+      const result = mergeThreeWay(baseText, leftText, rightText, options);
+      expect(result.regions.flatMap((region) => region.base).join('\n')).toBe(baseText);
+      expect(result.regions.flatMap((region) => region.left).join('\n')).toBe(leftText);
+      expect(result.regions.flatMap((region) => region.right).join('\n')).toBe(rightText);
+      expect(result.regions.filter((region) => region.type === 'conflict')).toHaveLength(result.conflictCount);
+
+      // Unchanged on one side: the merge is the other side
+      expect(buildMergedText(mergeThreeWay(baseText, leftText, baseText, options))).toBe(leftText);
+      expect(buildMergedText(mergeThreeWay(baseText, baseText, rightText, options))).toBe(rightText);
+      // The same change on both sides merges without conflicts
+      const same = mergeThreeWay(baseText, leftText, leftText, options);
+      expect(same.conflictCount).toBe(0);
+      expect(buildMergedText(same)).toBe(leftText);
+    }
+  });
+
+  it('builds the merged text of large inputs', () => {
+    const base = Array.from({ length: 150000 }, (_, index) => `line ${index}`);
+    const left = [...base];
+    left[0] = 'changed';
+    const result = mergeThreeWay(base.join('\n'), left.join('\n'), base.join('\n'));
+    expect(buildMergedText(result)).toBe(left.join('\n'));
+  });
+});
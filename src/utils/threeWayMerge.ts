@@ -0,0 +1,209 @@
+/**
+ * Three-Way Merge Utility
+ *
+ * diff3-style merge of two versions (left and right) that share a common
+ * ancestor (base). Both versions are diffed against the base; regions changed
+ * on only one side are taken from that side, regions changed identically on
+ * both sides are taken once, and overlapping different changes become conflicts.
+ */
+
+import { diffStrategies } from './diffChecker';
+import type { DiffAlgorithm } from '../types/common';
+
+export type MergeRegionType = 'unchanged' | 'left' | 'right' | 'both' | 'conflict';
+
+/**
+ * A run of lines in the merge; base, left and right hold the lines each
+ * version has for the region (identical for unchanged regions)
+ */
+export interface MergeRegion {
+  type: MergeRegionType;
+  base: string[];
+  left: string[];
+  right: string[];
+  conflictIndex?: number; // 0-based index among the conflicts of the merge
+}
+
+export interface MergeResult {
+  regions: MergeRegion[];
+  conflictCount: number;
+}
+
+export type ConflictChoice = 'left' | 'right' | 'both' | 'edit';
+
+export interface ConflictResolution {
+  choice: ConflictChoice;
+  text?: string; // Replacement text when choice is 'edit'
+}
+
+export interface MergeOptions {
+  diffAlgorithm?: DiffAlgorithm;
+}
+
+// Labels used for unresolved conflict markers, as written by git
+export const CONFLICT_MARKERS = {
+  left: '<<<<<<< LEFT',
+  base: '||||||| BASE',
+  separator: '=======',
+  right: '>>>>>>> RIGHT',
+} as const;
+
+/**
+ * Map every base line index to its matching index in the other version (-1 when unmatched)
+ */
+function matchAgainstBase(base: string[], other: string[], algorithm: DiffAlgorithm): Int32Array {
+  const lineIds = new Map<string, number>();
+  const intern = (line: string): number => {
+    let id = lineIds.get(line);
+    if (id === undefined) {
+      id = lineIds.size;
+      lineIds.set(line, id);
+    }
+    return id;
+  };
+
+  const baseIds = base.map(intern);
+  const otherIds = other.map(intern);
+  const matches = diffStrategies[algorithm](baseIds, otherIds);
+
+  const mapping = new Int32Array(base.length).fill(-1);
+  for (const match of matches) {
+    mapping[match.leftIndex] = match.rightIndex;
+  }
+  return mapping;
+}
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Merge left and right against their common base
+ */
+export function mergeThreeWay(
+  baseText: string,
+  leftText: string,
+  rightText: string,
+  options: MergeOptions = {}
+): MergeResult {
+  const algorithm = options.diffAlgorithm || 'myers';
+  const base = baseText.split('\n');
+  const left = leftText.split('\n');
+  const right = rightText.split('\n');
+
+  const leftMatch = matchAgainstBase(base, left, algorithm);
+  const rightMatch = matchAgainstBase(base, right, algorithm);
+
+  const regions: MergeRegion[] = [];
+  let conflictCount = 0;
+
+  const pushUnchanged = (line: string) => {
+    const last = regions[regions.length - 1];
+    if (last && last.type === 'unchanged') {
+      last.base.push(line);
+      last.left.push(line);
+      last.right.push(line);
+    } else {
+      regions.push({ type: 'unchanged', base: [line], left: [line], right: [line] });
+    }
+  };
+
+  let b = 0;
+  let l = 0;
+  let r = 0;
+
+  while (b < base.length || l < left.length || r < right.length) {
+    // Base lines kept by both versions are stable and split the merge into chunks
+    let stable = b;
+    while (stable < base.length && (leftMatch[stable] === -1 || rightMatch[stable] === -1)) {
+      stable++;
+    }
+
+    if (stable === b && b < base.length && leftMatch[b] === l && rightMatch[b] === r) {
+      pushUnchanged(base[b]);
+      b++;
+      l++;
+      r++;
+      continue;
+    }
+
+    const leftEnd = stable < base.length ? leftMatch[stable] : left.length;
+    const rightEnd = stable < base.length ? rightMatch[stable] : right.length;
+    const chunk = {
+      base: base.slice(b, stable),
+      left: left.slice(l, leftEnd),
+      right: right.slice(r, rightEnd),
+    };
+
+    const leftChanged = !sameLines(chunk.base, chunk.left);
+    const rightChanged = !sameLines(chunk.base, chunk.right);
+
+    if (!leftChanged && !rightChanged) {
+      chunk.base.forEach(pushUnchanged);
+    } else if (!rightChanged) {
+      regions.push({ type: 'left', ...chunk });
+    } else if (!leftChanged) {
+      regions.push({ type: 'right', ...chunk });
+    } else if (sameLines(chunk.left, chunk.right)) {
+      regions.push({ type: 'both', ...chunk });
+    } else {
+      regions.push({ type: 'conflict', ...chunk, conflictIndex: conflictCount });
+      conflictCount++;
+    }
+
+    b = stable;
+    l = leftEnd;
+    r = rightEnd;
+  }
+
+  return { regions, conflictCount };
+}
+
+/**
+ * Lines a region contributes to the merged output
+ * Unresolved conflicts are written with git-style conflict markers
+ */
+export function resolveRegion(region: MergeRegion, resolution?: ConflictResolution): string[] {
+  switch (region.type) {
+    case 'unchanged':
+      return region.base;
+    case 'left':
+    case 'both':
+      return region.left;
+    case 'right':
+      return region.right;
+    case 'conflict':
+      if (!resolution) {
+        return [
+          CONFLICT_MARKERS.left,
+          ...region.left,
+          CONFLICT_MARKERS.base,
+          ...region.base,
+          CONFLICT_MARKERS.separator,
+          ...region.right,
+          CONFLICT_MARKERS.right,
+        ];
+      }
+      if (resolution.choice === 'left') return region.left;
+      if (resolution.choice === 'right') return region.right;
+      if (resolution.choice === 'both') return [...region.left, ...region.right];
+      return resolution.text === undefined || resolution.text === '' ? [] : resolution.text.split('\n');
+  }
+}
+
+/**
+ * Build the merged text, applying the given conflict resolutions by conflict index
+ */
+export function buildMergedText(
+  result: MergeResult,
+  resolutions: Record<number, ConflictResolution> = {}
+): string {
+  const lines: string[] = [];
+  for (const region of result.regions) {
+    const resolution = region.conflictIndex !== undefined ? resolutions[region.conflictIndex] : undefined;
+    // Appended one by one: spreading a large region into push overflows the call stack
+    for (const line of resolveRegion(region, resolution)) {
+      lines.push(line);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,134 @@
+import { formatUnifiedDiff, NO_NEWLINE_MARKER } from './unifiedDiff';
+import { applyPatch } from './patchApply';
+import { computeLineByLineDiff, computeLineDiff, isExactDiffOf, CharDiff, MAX_CHAR_DIFF_LENGTH } from './diffChecker';
+import { createRandom, mutateSequence, randomSequence } from '../test-utils/random';
+import type { DiffAlgorithm } from '../types/common';
+
+const ALGORITHMS: DiffAlgorithm[] = ['myers', 'patience', 'histogram'];
+
+describe('formatUnifiedDiff', () => {
+  it('writes file headers, hunk ranges and the missing newline marker', () => {
+    const patch = formatUnifiedDiff(computeLineByLineDiff('a\nb\nc', 'a\nB\nc'), { leftName: 'l.txt', rightName: 'r.txt' });
+    expect(patch).toBe(
+      ['--- l.txt', '+++ r.txt', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', NO_NEWLINE_MARKER, ''].join('\n')
+    );
+  });
+
+  it('returns an empty patch for equal texts', () => {
+    expect(formatUnifiedDiff(computeLineByLineDiff('a\nb\n', 'a\nb\n'))).toBe('');
+  });
+
+  it('round-trips through applyPatch for random edits', () => {
+    const random = createRandom(5);
+    for (let run = 0; run < 400; run++) {
+      const leftLines = randomSequence(random, 30, 6);
+      const rightLines = mutateSequence(random, leftLines, 1 + (run % 8), 6);
+      const left = leftLines.join('\n') + (run % 3 === 0 ? '\n' : '');
+      const right = rightLines.join('\n') + (run % 4 === 0 ? '' : '\n');
+      const diff = computeLineByLineDiff(left, right, { diffAlgorithm: ALGORITHMS[run % 3] });
+      const patch = formatUnifiedDiff(diff, { contextLines: run % 4 });
+      if (left === right) {
+        expect(patch).toBe('');
+        continue;
+      }
+      const result = applyPatch(left, patch);
+      expect(result.rejectedCount).toBe(0);
+      expect(result.output).toBe(right);
+    }
+  });
+});
+
+describe('isExactDiffOf', () => {
+  it('accepts only diffs of the same texts with exact line matching', () => {
+    const diff = computeLineByLineDiff('a\nb', 'a\nc');
+    expect(isExactDiffOf(diff, 'a\nb', 'a\nc', {})).toBe(true);
+    expect(isExactDiffOf(diff, 'a\nb\n', 'a\nc', {})).toBe(false);
+    expect(isExactDiffOf(diff, 'a\nb', 'a\nc', { ignoreWhitespace: true })).toBe(false);
+    expect(isExactDiffOf(diff, 'a\nb', 'a\nc', { caseSensitive: false })).toBe(false);
+    expect(isExactDiffOf(diff, 'a\nb', 'a\nc', { numericTolerance: { absolute: 0.1, relative: 0 } })).toBe(false);
+  });
+});
+
+const partsText = (parts: CharDiff[], type?: CharDiff['type']) =>
+  parts.filter((part) => type === undefined || part.type === type).map((part) => part.value).join('');
+
+describe('computeLineDiff', () => {
+  it('highlights the changed characters of a line', () => {
+    expect(computeLineDiff('const value = 10;', 'const value = 25;')).toEqual({
+      same: false,
+      leftParts: [
+        { value: 'const value = ', type: 'unchanged' },
+        { value: '10', type: 'removed' },
+        { value: ';', type: 'unchanged' },
+      ],
+      rightParts: [
+        { value: 'const value = ', type: 'unchanged' },
+        { value: '25', type: 'added' },
+        { value: ';', type: 'unchanged' },
+      ],
+    });
+  });
+
+  it('highlights a rewritten word as a whole instead of the letters it shares', () => {
+    const { leftParts, rightParts } = computeLineDiff('the status is pending', 'the status is approved');
+    expect(leftParts).toEqual([
+      { value: 'the status is ', type: 'unchanged' },
+      { value: 'pending', type: 'removed' },
+    ]);
+    expect(rightParts).toEqual([
+      { value: 'the status is ', type: 'unchanged' },
+      { value: 'approved', type: 'added' },
+    ]);
+  });
+
+  it('follows the case and whitespace options', () => {
+    expect(computeLineDiff('Hello World', 'hello world!', { caseSensitive: false }).rightParts).toEqual([
+      { value: 'hello world', type: 'unchanged' },
+      { value: '!', type: 'added' },
+    ]);
+    expect(computeLineDiff('a  b', 'a b', { ignoreWhitespace: true }).leftParts).toEqual([{ value: 'a  b', type: 'unchanged' }]);
+  });
+
+  it('never splits a surrogate pair', () => {
+    expect(computeLineDiff('😀a', '😃a').leftParts).toEqual([
+      { value: '😀', type: 'removed' },
+      { value: 'a', type: 'unchanged' },
+    ]);
+  });
+
+  it('only trims the common prefix and suffix of very long lines', () => {
+    const middle = 'x'.repeat(MAX_CHAR_DIFF_LENGTH);
+    const { leftParts, rightParts } = computeLineDiff(`start ${middle}a end`, `start b${middle} end`);
+    expect(leftParts.map((part) => part.type)).toEqual(['unchanged', 'removed', 'unchanged']);
+    expect(leftParts[0].value).toBe('start ');
+    expect(rightParts[1].value).toBe(`b${middle}`);
+  });
+
+  it('splits both lines into parts whose unchanged characters agree', () => {
+    const random = createRandom(9);
+    for (let run = 0; run < 300; run++) {
+      const left = randomSequence(random, 30, 1 + (run % 5)).join('');
+      const right = mutateSequence(random, Array.from(left), 4, 5).join('');
+      const { leftParts, rightParts } = computeLineDiff(left, right);
+      expect(partsText(leftParts)).toBe(left);
+      expect(partsText(rightParts)).toBe(right);
+      expect(partsText(leftParts, 'unchanged')).toBe(partsText(rightParts, 'unchanged'));
+      expect(leftParts.some((part) => part.type === 'added')).toBe(false);
+      expect(rightParts.some((part) => part.type === 'removed')).toBe(false);
+    }
+  });
+
+  it('is attached to changed line pairs that have something in common', () => {
+    const diff = computeLineByLineDiff('x = 1\nabc\nsame', 'x = 2\nxyz\nsame');
+    expect(diff.leftLines[0].charDiff).toEqual([
+      { value: 'x = ', type: 'unchanged' },
+      { value: '1', type: 'removed' },
+    ]);
+    expect(diff.rightLines[0].charDiff).toEqual([
+      { value: 'x = ', type: 'unchanged' },
+      { value: '2', type: 'added' },
+    ]);
+    expect(diff.leftLines[1].charDiff).toBeUndefined();
+    expect(diff.leftLines[2].charDiff).toBeUndefined();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unified Diff Serializer
+ *
+ * Converts a DiffResult into standard unified diff (.patch) text:
+ * `---`/`+++` file headers followed by `@@ -a,b +c,d @@` hunks.
+ * Context lines use the left content, so the patch applies to the left input.
+ */
+
+import type { DiffLine, DiffResult } from './diffChecker';
+import { buildDiffRows, groupRowsIntoHunks, DEFAULT_CONTEXT_LINES, DiffRow } from './diffHunks';
+
+export const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+export interface UnifiedDiffOptions {
+  leftName?: string;
+  rightName?: string;
+  contextLines?: number;
+}
+
+/**
+ * Format a hunk range: "start,count", omitting the count when it is 1
+ * An empty range points at the line before the hunk, as in GNU diff
+ */
+const formatRange = (start: number, count: number): string => {
+  if (count === 0) return `${start - 1},0`;
+  if (count === 1) return `${start}`;
+  return `${start},${count}`;
+};
+
+/**
+ * Prepare diff rows for patch output
+ *
+ * The diff splits text on '\n', so a text ending in a newline has a trailing
+ * empty line. That line is dropped here; when a side does not end in a newline
+ * its last line is flagged instead so the serializer can emit the
+ * "\ No newline at end of file" marker.
+ */
+function toPatchRows(diff: DiffResult): { rows: DiffRow[]; noNewline: Set<DiffLine> } {
+  const noNewline = new Set<DiffLine>();
+  const terminators = new Set<DiffLine>();
+
+  for (const lines of [diff.leftLines, diff.rightLines]) {
+    const last = lines[lines.length - 1];
+    if (!last) continue;
+    if (last.content === '') {
+      terminators.add(last);
+    } else {
+      noNewline.add(last);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  for (const row of buildDiffRows(diff)) {
+    const left = row.left && !terminators.has(row.left) ? row.left : undefined;
+    const right = row.right && !terminators.has(row.right) ? row.right : undefined;
+    if (!left && !right) continue;
+
+    // Equal lines whose trailing newline differs must be emitted as a change
+    const newlineDiffers = !!left && !!right && noNewline.has(left) !== noNewline.has(right);
+    if (left && right && newlineDiffers) {
+      rows.push({ left });
+      rows.push({ right });
+    } else {
+      rows.push({ left, right });
+    }
+  }
+
+  return { rows, noNewline };
+}
+
+/**
+ * Serialize a diff as unified diff text
+ * Returns an empty string when there are no differences
+ */
+export function formatUnifiedDiff(diff: DiffResult, options: UnifiedDiffOptions = {}): string {
+  const { leftName = 'left', rightName = 'right', contextLines = DEFAULT_CONTEXT_LINES } = options;
+  const { rows, noNewline } = toPatchRows(diff);
+  const hunks = groupRowsIntoHunks(rows, contextLines);
+
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const output: string[] = [`--- ${leftName}`, `+++ ${rightName}`];
+
+  const pushLine = (prefix: string, line: DiffLine) => {
+    output.push(`${prefix}${line.content}`);
+    if (noNewline.has(line)) {
+      output.push(NO_NEWLINE_MARKER);
+    }
+  };
+
+  for (const hunk of hunks) {
+    output.push(
+      `@@ -${formatRange(hunk.leftStart, hunk.leftCount)} +${formatRange(hunk.rightStart, hunk.rightCount)} @@`
+    );
+
+    // Removed lines of a change region are written before its added lines
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+    const flush = () => {
+      removed.forEach((line) => pushLine('-', line));
+      added.forEach((line) => pushLine('+', line));
+      removed = [];
+      added = [];
+    };
+
+    for (const row of hunk.lines) {
+      if (row.left && row.right && row.left.type === 'unchanged') {
+        flush();
+        pushLine(' ', row.left);
+      } else {
+        if (row.left) removed.push(row.left);
+        if (row.right) added.push(row.right);
+      }
+    }
+    flush();
+  }
+
+  return `${output.join('\n')}\n`;
+}
@@ -8,7 +8,6 @@ import {
   normalizeAttributesOnly,
   normalizeXMLCase
 } from './xmlValidation';
-import { computeLineByLineDiff, DiffResult } from './diffChecker';
 
 export interface ComparisonOptions {
   ignoreAttributeOrder?: boolean;
@@ -17,91 +16,56 @@ export interface ComparisonOptions {
 }
 
 /**
- * Compare two XML strings
- * 
- * All comparison options work independently:
- * - ignoreWhitespace: normalizes whitespace in text nodes, removes indentation/newlines
- * - ignoreAttributeOrder: sorts attributes alphabetically (works regardless of ignoreWhitespace)
- * - caseSensitive: when false, converts tags, attributes, and text to lowercase
+ * Validate one XML input and normalize it for line diffing
+ * text is undefined when the input is invalid
  */
-export function compareXML(
-  leftInput: string,
-  rightInput: string,
+export function prepareXMLForComparison(
+  input: string,
   options: ComparisonOptions = {}
 ): {
-  leftValidation: ReturnType<typeof validateXML>;
-  rightValidation: ReturnType<typeof validateXML>;
-  diff?: DiffResult;
+  validation: ReturnType<typeof validateXML>;
+  text?: string;
 } {
-  const { 
-    ignoreWhitespace = false, 
-    ignoreAttributeOrder = false, 
-    caseSensitive = true 
+  const {
+    ignoreWhitespace = false,
+    ignoreAttributeOrder = false,
+    caseSensitive = true,
   } = options;
 
   // Step 1: Validate XML
   // Always validate to ensure XML is well-formed
-  const leftValidation = validateXMLWithoutFormatting(leftInput);
-  const rightValidation = validateXMLWithoutFormatting(rightInput);
+  const validation = validateXMLWithoutFormatting(input);
 
-  // If either is invalid, return validation results
-  if (!leftValidation.isValid || !rightValidation.isValid) {
-    return {
-      leftValidation,
-      rightValidation,
-    };
+  if (!validation.isValid) {
+    return { validation };
   }
 
   // Step 2: Start with the appropriate text based on ignoreWhitespace setting
   // When ignoreWhitespace is false (OFF), use original input to preserve line structure
   // When ignoreWhitespace is true (ON), use serialized version for normalization
-  let leftText = ignoreWhitespace ? (leftValidation.formatted || leftInput) : leftInput;
-  let rightText = ignoreWhitespace ? (rightValidation.formatted || rightInput) : rightInput;
+  let text = ignoreWhitespace ? (validation.formatted || input) : input;
 
   // Step 3: Apply ignoreWhitespace normalization (INDEPENDENT)
   // This collapses whitespace in text nodes and removes indentation/newlines
   // Must run BEFORE other normalizations to properly handle text content
   if (ignoreWhitespace) {
-    leftText = normalizeXMLWhitespace(leftText);
-    rightText = normalizeXMLWhitespace(rightText);
+    text = normalizeXMLWhitespace(text);
   }
 
   // Step 4: Apply ignoreAttributeOrder normalization (INDEPENDENT)
   // This sorts attributes alphabetically
   // Works regardless of ignoreWhitespace setting
   if (ignoreAttributeOrder) {
-    if (ignoreWhitespace) {
-      // When ignoreWhitespace is true, use normalizeXML which also formats
-      leftText = normalizeXML(leftText);
-      rightText = normalizeXML(rightText);
-    } else {
-      // When ignoreWhitespace is false, use normalizeAttributesOnly to preserve formatting
-      leftText = normalizeAttributesOnly(leftText);
-      rightText = normalizeAttributesOnly(rightText);
-    }
+    // When ignoreWhitespace is true, use normalizeXML which also formats
+    // When ignoreWhitespace is false, use normalizeAttributesOnly to preserve formatting
+    text = ignoreWhitespace ? normalizeXML(text) : normalizeAttributesOnly(text);
   }
 
   // Step 5: Apply case normalization (INDEPENDENT)
   // This converts tag names, attribute names, and text to lowercase
   if (!caseSensitive) {
-    leftText = normalizeXMLCase(leftText);
-    rightText = normalizeXMLCase(rightText);
+    text = normalizeXMLCase(text);
   }
 
-  // Step 6: Compute diff
-  // Pass ignoreWhitespace to handle any remaining whitespace differences at line level
-  // (e.g., in attribute values that weren't caught by XML normalization)
-  // Pass caseSensitive to handle any remaining case differences at line level
-  const diff = computeLineByLineDiff(leftText, rightText, {
-    ignoreWhitespace: ignoreWhitespace,
-    caseSensitive: caseSensitive,
-  });
-
-  return {
-    leftValidation,
-    rightValidation,
-    diff,
-  };
+  return { validation, text };
 }
-
-
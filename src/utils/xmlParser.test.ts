@@ -0,0 +1,92 @@
+import { parseXMLDocument, serializeXML, walkXMLElements, XMLParseError } from './xmlParser';
+
+const parseError = (input: string): XMLParseError => {
+  try {
+    parseXMLDocument(input);
+  } catch (error) {
+    if (error instanceof XMLParseError) return error;
+    throw error;
+  }
+  throw new Error(`${JSON.stringify(input)} parsed`);
+};
+
+const MALFORMED: Array<[string, string]> = [
+  ['', "error on line 1 at column 1: Start tag expected, '<' not found"],
+  ['text', "error on line 1 at column 1: Start tag expected, '<' not found"],
+  ['<a>', 'error on line 1 at column 1: Premature end of data in tag a'],
+  ['<a></b>', 'error on line 1 at column 7: Opening and ending tag mismatch: a and b'],
+  ['<a>\n  <b>\n</a>', 'error on line 3 at column 4: Opening and ending tag mismatch: b and a'],
+  ['<a b="1" b="2"/>', 'error on line 1 at column 15: Attribute b redefined'],
+  ['<a b=1/>', 'error on line 1 at column 6: AttValue: " or \' expected'],
+  ['<a b="1"c="2"/>', 'error on line 1 at column 9: attributes construct error'],
+  ['<a\n  b="<"/>', "error on line 2 at column 6: Unescaped '<' not allowed in attributes values"],
+  ['<a>&foo;</a>', "error on line 1 at column 4: Entity 'foo' not defined"],
+  ['<a>&amp</a>', "error on line 1 at column 4: EntityRef: expecting ';'"],
+  ['<a/><b/>', 'error on line 1 at column 5: Extra content at the end of the document'],
+  ['<a><!-- x -- y --></a>', 'error on line 1 at column 19: Double hyphen within comment'],
+  ['<a><!-- x</a>', 'error on line 1 at column 8: Unterminated comment'],
+  ['<![CDATA[x]]><a/>', 'error on line 1 at column 14: CDATA section not allowed outside the root element'],
+  ['<a/>\n<?xml version="1.0"?>', 'error on line 2 at column 22: XML declaration allowed only at the start of the document'],
+  ['<a><!DOCTYPE a></a>', 'error on line 1 at column 16: DOCTYPE not allowed inside an element'],
+];
+
+const WELL_FORMED = [
+  '<a/>',
+  '<?xml version="1.0" encoding="UTF-8"?>\n<root>\n  <item id="1">text</item>\n</root>',
+  '<a b="x &amp; y" c=\'"q"\'><b>&lt;tag&gt; &#65;&#x42;</b><c></c></a>',
+  '<!DOCTYPE note [<!ELEMENT note (#PCDATA)>]>\n<note>hi</note>',
+  '<!-- before --><a><![CDATA[<raw> & stuff]]><?pi some data?></a><!-- after -->',
+  '<ns:a xmlns:ns="urn:x" ns:b="1">\n\t<ns:c/>\n</ns:a>',
+  '<a b="line\nbreak">é ü</a>',
+];
+
+describe('parseXMLDocument', () => {
+  it('reports where and why a document is malformed', () => {
+    for (const [input, message] of MALFORMED) {
+      const error = parseError(input);
+      expect(error.message).toBe(message);
+      expect(`error on line ${error.line} at column ${error.column}: `).toBe(message.slice(0, message.indexOf(': ') + 2));
+    }
+  });
+
+  it('accepts and rejects the same documents as DOMParser', () => {
+    const domAccepts = (input: string) =>
+      new DOMParser().parseFromString(input, 'text/xml').getElementsByTagName('parsererror').length === 0;
+    for (const input of WELL_FORMED) {
+      expect(domAccepts(input)).toBe(true);
+      expect(() => parseXMLDocument(input)).not.toThrow();
+    }
+    // An empty input has no document to ask DOMParser about
+    for (const [input] of MALFORMED.slice(1)) {
+      expect(domAccepts(input)).toBe(false);
+    }
+  });
+
+  it('decodes entities and keeps the nodes around the root', () => {
+    const tree = parseXMLDocument('<!-- c --><a b="x &amp; y">&lt;&#65;</a>');
+    expect(tree.children.map((node) => node.type)).toEqual(['comment', 'element']);
+    expect(tree.root.attributes).toEqual([{ name: 'b', value: 'x & y' }]);
+    expect(tree.root.children).toEqual([{ type: 'text', value: '<A' }]);
+
+    const names: string[] = [];
+    walkXMLElements(parseXMLDocument('<a><b><c/></b><d/></a>').root, (element) => names.push(element.name));
+    expect(names).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('serializeXML', () => {
+  it('writes documents the way XMLSerializer does', () => {
+    for (const input of WELL_FORMED) {
+      const dom = new XMLSerializer().serializeToString(new DOMParser().parseFromString(input, 'text/xml'));
+      // XMLSerializer drops a doctype's internal subset, which the parser keeps
+      if (input.includes('<!DOCTYPE')) continue;
+      expect(serializeXML(parseXMLDocument(input))).toBe(dom.replace(/^<\?xml[^?]*\?>\n?/, ''));
+    }
+  });
+
+  it('keeps the doctype as written', () => {
+    expect(serializeXML(parseXMLDocument('<!DOCTYPE note [<!ELEMENT note (#PCDATA)>]>\n<note/>'))).toBe(
+      '<!DOCTYPE note [<!ELEMENT note (#PCDATA)>]><note/>'
+    );
+  });
+});
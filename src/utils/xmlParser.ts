@@ -0,0 +1,272 @@
+/**
+ * DOM-free XML Parser
+ *
+ * Minimal well-formedness checking parser and serializer for environments
+ * without DOMParser/XMLSerializer (Web Workers). Produces a small node tree
+ * that the XML normalizations in xmlValidation can work on, and serializes it
+ * the way XMLSerializer does (no XML declaration, empty elements as <a/>).
+ */
+
+export type XMLNode = XMLElement | XMLLeaf;
+
+export interface XMLElement {
+  type: 'element';
+  name: string;
+  attributes: Array<{ name: string; value: string }>;
+  children: XMLNode[];
+}
+
+export interface XMLLeaf {
+  type: 'text' | 'comment' | 'cdata' | 'pi' | 'doctype';
+  value: string; // Decoded text, or the raw content of comments, CDATA, PIs and doctypes
+  target?: string; // Processing instruction target
+}
+
+export interface XMLTree {
+  children: XMLNode[]; // Root element plus any comments/PIs/doctype around it
+  root: XMLElement;
+}
+
+export class XMLParseError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`error on line ${line} at column ${column}: ${message}`);
+    this.name = 'XMLParseError';
+  }
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const NAME_START = /[A-Za-z_:À-￿]/;
+const NAME_CHAR = /[A-Za-z0-9_:.\-·À-￿]/;
+
+/**
+ * Parse an XML document, throwing XMLParseError when it is not well-formed
+ */
+export function parseXMLDocument(input: string): XMLTree {
+  let pos = 0;
+
+  const fail = (message: string, at: number = pos): never => {
+    const before = input.slice(0, at).split('\n');
+    throw new XMLParseError(message, before.length, before[before.length - 1].length + 1);
+  };
+
+  const startsWith = (token: string) => input.startsWith(token, pos);
+
+  const readUntil = (terminator: string, what: string): string => {
+    const end = input.indexOf(terminator, pos);
+    if (end === -1) fail(`Unterminated ${what}`);
+    const value = input.slice(pos, end);
+    pos = end + terminator.length;
+    return value;
+  };
+
+  const readName = (): string => {
+    const start = pos;
+    if (pos >= input.length || !NAME_START.test(input[pos])) fail('Name expected');
+    pos++;
+    while (pos < input.length && NAME_CHAR.test(input[pos])) pos++;
+    return input.slice(start, pos);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < input.length && /\s/.test(input[pos])) pos++;
+  };
+
+  const decodeEntities = (raw: string, offset: number): string =>
+    raw.replace(/&([^;&\s]*);?/g, (match, entity: string, index: number) => {
+      if (!match.endsWith(';')) fail('EntityRef: expecting \';\'', offset + index);
+      if (entity.startsWith('#x')) {
+        const code = parseInt(entity.slice(2), 16);
+        if (Number.isNaN(code)) fail(`Invalid character reference '${entity}'`, offset + index);
+        return String.fromCodePoint(code);
+      }
+      if (entity.startsWith('#')) {
+        const code = parseInt(entity.slice(1), 10);
+        if (Number.isNaN(code)) fail(`Invalid character reference '${entity}'`, offset + index);
+        return String.fromCodePoint(code);
+      }
+      if (!(entity in PREDEFINED_ENTITIES)) fail(`Entity '${entity}' not defined`, offset + index);
+      return PREDEFINED_ENTITIES[entity];
+    });
+
+  // Comments, CDATA, PIs and doctypes; returns null when the input is not at one
+  const readSpecial = (): XMLLeaf | null => {
+    if (startsWith('<!--')) {
+      pos += 4;
+      const value = readUntil('-->', 'comment');
+      if (value.includes('--')) fail('Double hyphen within comment');
+      return { type: 'comment', value };
+    }
+    if (startsWith('<![CDATA[')) {
+      pos += 9;
+      return { type: 'cdata', value: readUntil(']]>', 'CDATA section') };
+    }
+    if (startsWith('<?')) {
+      pos += 2;
+      const target = readName();
+      const value = readUntil('?>', 'processing instruction').trim();
+      return { type: 'pi', target, value };
+    }
+    if (startsWith('<!DOCTYPE')) {
+      const start = pos;
+      let depth = 0;
+      for (; pos < input.length; pos++) {
+        if (input[pos] === '[') depth++;
+        else if (input[pos] === ']') depth--;
+        else if (input[pos] === '>' && depth === 0) break;
+      }
+      if (pos >= input.length) fail('Unterminated DOCTYPE', start);
+      pos++;
+      return { type: 'doctype', value: input.slice(start, pos) };
+    }
+    return null;
+  };
+
+  const readElement = (): XMLElement => {
+    const tagStart = pos;
+    pos++; // <
+    const name = readName();
+    const element: XMLElement = { type: 'element', name, attributes: [], children: [] };
+
+    // Attributes
+    for (;;) {
+      const hadWhitespace = /\s/.test(input[pos] || '');
+      skipWhitespace();
+      if (pos >= input.length) fail(`Couldn't find end of Start Tag ${name}`, tagStart);
+      if (startsWith('/>')) {
+        pos += 2;
+        return element;
+      }
+      if (input[pos] === '>') {
+        pos++;
+        break;
+      }
+      if (!hadWhitespace) fail('attributes construct error');
+      const attrName = readName();
+      skipWhitespace();
+      if (input[pos] !== '=') fail(`Specification mandates value for attribute ${attrName}`);
+      pos++;
+      skipWhitespace();
+      const quote = input[pos];
+      if (quote !== '"' && quote !== "'") fail('AttValue: " or \' expected');
+      pos++;
+      const valueStart = pos;
+      const raw = readUntil(quote, 'attribute value');
+      if (raw.includes('<')) fail('Unescaped \'<\' not allowed in attributes values', valueStart);
+      if (element.attributes.some((attr) => attr.name === attrName)) {
+        fail(`Attribute ${attrName} redefined`);
+      }
+      // Attribute value normalization: literal whitespace characters become spaces
+      element.attributes.push({ name: attrName, value: decodeEntities(raw.replace(/[\t\n\r]/g, ' '), valueStart) });
+    }
+
+    // Content
+    for (;;) {
+      if (pos >= input.length) fail(`Premature end of data in tag ${name}`, tagStart);
+      if (startsWith('</')) {
+        pos += 2;
+        const closeName = readName();
+        if (closeName !== name) fail(`Opening and ending tag mismatch: ${name} and ${closeName}`);
+        skipWhitespace();
+        if (input[pos] !== '>') fail('expected \'>\'');
+        pos++;
+        return element;
+      }
+      const special = readSpecial();
+      if (special) {
+        if (special.type === 'doctype') fail('DOCTYPE not allowed inside an element');
+        element.children.push(special);
+      } else if (input[pos] === '<') {
+        element.children.push(readElement());
+      } else {
+        const textStart = pos;
+        const end = input.indexOf('<', pos);
+        pos = end === -1 ? input.length : end;
+        const value = decodeEntities(input.slice(textStart, pos), textStart);
+        element.children.push({ type: 'text', value });
+      }
+    }
+  };
+
+  const children: XMLNode[] = [];
+  let root: XMLElement | null = null;
+
+  // Byte order mark
+  if (input.charCodeAt(0) === 0xfeff) pos = 1;
+
+  // XML declaration is not part of the document tree
+  if (startsWith('<?xml') && /\s/.test(input[pos + 5] || '')) {
+    readUntil('?>', 'XML declaration');
+  }
+
+  for (;;) {
+    skipWhitespace();
+    if (pos >= input.length) break;
+    const special = readSpecial();
+    if (special) {
+      if (special.type === 'cdata') fail('CDATA section not allowed outside the root element');
+      if (special.type === 'pi' && special.target?.toLowerCase() === 'xml') fail('XML declaration allowed only at the start of the document');
+      children.push(special);
+    } else if (input[pos] === '<') {
+      if (root) fail('Extra content at the end of the document');
+      root = readElement();
+      children.push(root);
+    } else {
+      fail(root ? 'Extra content at the end of the document' : 'Start tag expected, \'<\' not found');
+    }
+  }
+
+  if (!root) fail('Start tag expected, \'<\' not found');
+  return { children, root: root! };
+}
+
+const escapeText = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Serialize a node (or a whole document) the way XMLSerializer does
+ */
+export function serializeXML(node: XMLNode | XMLTree): string {
+  if (!('type' in node)) {
+    return node.children.map(serializeXML).join('');
+  }
+
+  switch (node.type) {
+    case 'text':
+      return escapeText(node.value);
+    case 'comment':
+      return `<!--${node.value}-->`;
+    case 'cdata':
+      return `<![CDATA[${node.value}]]>`;
+    case 'pi':
+      return `<?${node.target}${node.value ? ` ${node.value}` : ''}?>`;
+    case 'doctype':
+      return node.value;
+    case 'element': {
+      const attributes = node.attributes.map((attr) => ` ${attr.name}="${escapeAttribute(attr.value)}"`).join('');
+      if (node.children.length === 0) {
+        return `<${node.name}${attributes}/>`;
+      }
+      return `<${node.name}${attributes}>${node.children.map(serializeXML).join('')}</${node.name}>`;
+    }
+  }
+}
+
+/**
+ * Visit every element of the tree, parents before children
+ */
+export function walkXMLElements(element: XMLElement, visit: (element: XMLElement) => void): void {
+  visit(element);
+  for (const child of element.children) {
+    if (child.type === 'element') walkXMLElements(child, visit);
+  }
+}
@@ -0,0 +1,46 @@
+import { validateXML, validateXMLWithoutFormatting, ValidationResult } from './xmlValidation';
+
+const DOCUMENTS = [
+  '<a><b>x</b><c/></a>',
+  '<?xml version="1.0"?>\n<root>\n  <!-- note --><item id="1" flag=\'y\'>a &amp; b</item>\n  <empty></empty>\n</root>',
+  '<a><![CDATA[<raw>]]><?pi data?><b c="&lt;"/></a>',
+  '<a></b>',
+  '<a b="1" b="2"/>',
+  '<a>&foo;</a>',
+  '<a/><b/>',
+];
+
+// Run validate with DOMParser hidden, as in a worker without DOM
+const withoutDOM = (validate: (input: string) => ValidationResult, input: string): ValidationResult => {
+  const { DOMParser } = globalThis;
+  delete (globalThis as { DOMParser?: unknown }).DOMParser;
+  try {
+    return validate(input);
+  } finally {
+    globalThis.DOMParser = DOMParser;
+  }
+};
+
+describe('validateXML without DOMParser', () => {
+  it('formats documents the same way and rejects the same ones', () => {
+    for (const validate of [validateXML, validateXMLWithoutFormatting]) {
+      for (const input of DOCUMENTS) {
+        const dom = validate(input);
+        const result = withoutDOM(validate, input);
+        expect(result.isValid).toBe(dom.isValid);
+        if (dom.isValid) {
+          // The parser leaves the XML declaration out
+          expect(result.formatted).toBe(dom.formatted!.replace(/^<\?xml[^?]*\?>\n?/, ''));
+        }
+      }
+    }
+  });
+
+  it('reports the position of the error', () => {
+    expect(withoutDOM(validateXML, '<a>\n  <b>\n</a>')).toEqual({
+      isValid: false,
+      error: 'error on line 3 at column 4: Opening and ending tag mismatch: b and a',
+    });
+    expect(withoutDOM(validateXMLWithoutFormatting, ' \n')).toEqual({ isValid: false, error: 'Input is empty' });
+  });
+});
@@ -4,6 +4,8 @@
  * Provides functionality to validate and normalize XML
  */
 
+import { parseXMLDocument, serializeXML, walkXMLElements, XMLTree } from './xmlParser';
+
 export interface ValidationResult {
   isValid: boolean;
   formatted?: string;
@@ -27,6 +29,10 @@ export function validateXMLWithoutFormatting(input: string): ValidationResult {
     };
   }
 
+  if (!hasDOMParser()) {
+    return validateXMLWithoutDOM(input, false);
+  }
+
   try {
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(input, 'text/xml');
@@ -74,6 +80,10 @@ export function validateXML(input: string): ValidationResult {
     };
   }
 
+  if (!hasDOMParser()) {
+    return validateXMLWithoutDOM(input, true);
+  }
+
   try {
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(input, 'text/xml');
@@ -168,6 +178,10 @@ export function validateXML(input: string): ValidationResult {
  */
 export const normalizeXMLAttributes = (xmlString: string): string => {
   try {
+    if (!hasDOMParser()) {
+      return normalizeAttributesWithoutDOM(xmlString, true);
+    }
+
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
     
@@ -263,6 +277,10 @@ export const normalizeXML = normalizeXMLAttributes;
  */
 export const normalizeAttributesOnly = (xmlString: string): string => {
   try {
+    if (!hasDOMParser()) {
+      return normalizeAttributesWithoutDOM(xmlString, false);
+    }
+
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
     
@@ -324,6 +342,10 @@ export const normalizeAttributesOnly = (xmlString: string): string => {
  */
 export const normalizeXMLCase = (xmlString: string): string => {
   try {
+    if (!hasDOMParser()) {
+      return normalizeCaseWithoutDOM(xmlString);
+    }
+
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
     
@@ -408,6 +430,10 @@ export const normalizeXMLCase = (xmlString: string): string => {
  */
 export const normalizeXMLWhitespace = (xmlString: string): string => {
   try {
+    if (!hasDOMParser()) {
+      return normalizeWhitespaceWithoutDOM(xmlString);
+    }
+
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
     
@@ -539,3 +565,107 @@ export const normalizeXMLWhitespace = (xmlString: string): string => {
   }
 };
 
+/*
+ * DOM-free implementations, used where DOMParser is unavailable (Web Workers)
+ * They mirror the DOM based functions above on the tree from xmlParser.
+ */
+
+const hasDOMParser = (): boolean => typeof DOMParser !== 'undefined';
+
+/**
+ * Put every element, comment and CDATA section of serialized XML on its own
+ * line, indented by nesting depth (same layout as the DOM based formatting)
+ */
+function indentSerializedXML(serialized: string): string {
+  const lines = serialized
+    .replace(/(>)(<!--)/g, '$1\n$2')
+    .replace(/(-->)(<)/g, '$1\n$2')
+    .replace(/(>)(<)/g, '$1\n$2')
+    .split('\n');
+
+  const result: string[] = [];
+  let depth = 0;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    result.push('  '.repeat(Math.max(0, depth)) + trimmed);
+    // A line affects the depth of the lines after it
+    if (trimmed.startsWith('</')) {
+      depth--;
+    } else if (
+      trimmed.startsWith('<') &&
+      !trimmed.startsWith('<?') &&
+      !trimmed.startsWith('<!--') &&
+      !trimmed.startsWith('<![CDATA[') &&
+      !trimmed.endsWith('/>') &&
+      !trimmed.endsWith('-->')
+    ) {
+      depth++;
+    }
+  }
+  return result.join('\n');
+}
+
+const sortTreeAttributes = (doc: XMLTree): void => {
+  walkXMLElements(doc.root, (element) => {
+    element.attributes.sort((a, b) => a.name.localeCompare(b.name));
+  });
+};
+
+function validateXMLWithoutDOM(input: string, format: boolean): ValidationResult {
+  try {
+    const serialized = serializeXML(parseXMLDocument(input));
+    if (!format || serialized.length > MAX_SAFE_FORMAT_LENGTH) {
+      return { isValid: true, formatted: serialized };
+    }
+    return { isValid: true, formatted: indentSerializedXML(serialized) };
+  } catch (error) {
+    return {
+      isValid: false,
+      error: error instanceof Error ? error.message : 'Invalid XML syntax',
+    };
+  }
+}
+
+function normalizeAttributesWithoutDOM(xmlString: string, format: boolean): string {
+  const doc = parseXMLDocument(xmlString);
+  sortTreeAttributes(doc);
+  const serialized = serializeXML(doc);
+  return format ? indentSerializedXML(serialized) : serialized;
+}
+
+function normalizeCaseWithoutDOM(xmlString: string): string {
+  const doc = parseXMLDocument(xmlString);
+  walkXMLElements(doc.root, (element) => {
+    element.attributes = element.attributes.map((attr) => ({
+      name: attr.name.toLowerCase(),
+      value: attr.value.toLowerCase(),
+    }));
+    element.children.forEach((child) => {
+      if (child.type === 'text') child.value = child.value.toLowerCase();
+    });
+  });
+  return serializeXML(doc).replace(
+    /<(\/?)([a-zA-Z][a-zA-Z0-9_-]*)(\s|>|\/)/g,
+    (match, slash, tagName, suffix) => `<${slash}${tagName.toLowerCase()}${suffix}`
+  );
+}
+
+function normalizeWhitespaceWithoutDOM(xmlString: string): string {
+  const doc = parseXMLDocument(xmlString);
+  walkXMLElements(doc.root, (element) => {
+    const hasSignificantChildren = element.children.some((child) => child.type !== 'text');
+    element.children = element.children.filter((child) => {
+      if (child.type !== 'text') return true;
+      if (/^\s*$/.test(child.value)) return !hasSignificantChildren;
+      child.value = child.value
+        .replace(/"([^"]*)"/g, (match, content) => `"${content.replace(/\s+/g, ' ').trim()}"`)
+        .replace(/\s+/g, ' ')
+        .trim();
+      return true;
+    });
+  });
+
+  const serialized = serializeXML(doc);
+  return serialized.length > MAX_SAFE_FORMAT_LENGTH ? serialized : indentSerializedXML(serialized);
+}
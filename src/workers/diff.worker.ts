@@ -0,0 +1,64 @@
+/**
+ * Diff Web Worker
+ *
+ * Runs validation, normalization and diffing off the main thread for large
+ * inputs, posting progress messages while it works. Diff results are packed
+ * into typed arrays whose buffers are transferred back rather than copied.
+ * A run is cancelled by terminating the worker. Incremental requests reuse
+ * the results kept from the previous request.
+ */
+
+import { runComparison, createComparisonCache } from '../utils/comparisonPipeline';
+import { packDiffResult } from '../utils/diffTransfer';
+import type { DiffWorkerRequest, DiffWorkerResponse } from '../types/diffWorker';
+
+// The project is type-checked against the DOM lib, so describe the worker scope we use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<DiffWorkerRequest>) => void) | null;
+  postMessage: (message: DiffWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+// Validation, normalization and line matches of the last request
+const cache = createComparisonCache();
+
+workerScope.onmessage = (event) => {
+  const { type, id, payload } = event.data;
+  if (type !== 'COMPUTE_DIFF') return;
+
+  // A full comparison diffs every line again but still refreshes the cache
+  if (!payload.incremental) {
+    cache.lines.snapshot = null;
+  }
+
+  try {
+    const { leftValidation, rightValidation, diffResult, structuralDiff, mergePatch, ignoredDifferences } = runComparison(
+      payload.leftInput,
+      payload.rightInput,
+      payload.format,
+      payload.options,
+      {
+        onProgress: (progress) => workerScope.postMessage({ id, type: 'PROGRESS', progress }),
+        cache,
+        semantic: payload.semantic,
+      }
+    );
+
+    if (!diffResult) {
+      workerScope.postMessage({ id, type: 'RESULT', success: true, result: { leftValidation, rightValidation, diff: null, structuralDiff, mergePatch, ignoredDifferences } });
+      return;
+    }
+
+    const { packed, transfer } = packDiffResult(diffResult);
+    workerScope.postMessage(
+      { id, type: 'RESULT', success: true, result: { leftValidation, rightValidation, diff: packed, structuralDiff, mergePatch, ignoredDifferences } },
+      transfer
+    );
+  } catch (error) {
+    workerScope.postMessage({
+      id,
+      type: 'RESULT',
+      success: false,
+      error: error instanceof Error ? error.message : 'Diff computation failed',
+    });
+  }
+};